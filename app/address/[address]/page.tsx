@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Address Profile Page
+ *
+ * This page shows the balances and NFT collection of any address or SuiNS
+ * name, so test users' inventories can be inspected without their wallets.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Header } from '@/components/layout/Header';
+import { AddressProfile } from '@/components/address/AddressProfile';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useResolvedAddress } from '@/hooks/useResolvedAddress';
+import { AlertCircle, ArrowLeft, Loader2 } from 'lucide-react';
+
+// ============================================================================
+// ADDRESS PROFILE PAGE COMPONENT
+// ============================================================================
+
+/**
+ * Address profile page component
+ *
+ * Reads an address or SuiNS name from the `/address/[address]` route, resolves
+ * it on the app's active network and renders the address's public profile.
+ *
+ * @returns JSX element containing the address profile page
+ */
+export default function AddressPage() {
+  const params = useParams<{ address: string }>();
+  const input = decodeURIComponent(params.address);
+  const { address, name, isLoading, error } = useResolvedAddress(input);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50 dark:from-slate-950 dark:via-slate-900 dark:to-blue-950">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Gallery
+          </Link>
+        </Button>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16 text-muted-foreground space-x-2">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            <span>Resolving {input}...</span>
+          </div>
+        ) : error || !address ? (
+          <Card className="border-red-200 bg-red-50 dark:bg-red-950 dark:border-red-800 max-w-xl mx-auto">
+            <CardHeader className="text-center">
+              <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-red-100 dark:bg-red-900">
+                <AlertCircle className="h-8 w-8 text-red-600 dark:text-red-400" />
+              </div>
+              <CardTitle className="text-red-800 dark:text-red-200">Address Not Found</CardTitle>
+              <CardDescription className="text-red-600 dark:text-red-400 break-all">
+                {error ?? `${input} could not be resolved`}
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <AddressProfile address={address} name={name} />
+        )}
+      </main>
+    </div>
+  );
+}
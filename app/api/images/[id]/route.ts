@@ -0,0 +1,44 @@
+/**
+ * @fileoverview Local Image API Route
+ *
+ * This route serves the NFT images stored by the local storage backend. Image
+ * IDs are content hashes, so responses are cached for as long as possible.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getLocalImageDirectory, readLocalImage } from '@/lib/imageStorage';
+
+// ============================================================================
+// IMAGE ROUTE
+// ============================================================================
+
+/**
+ * Serve a locally stored image
+ *
+ * @param request - The image request
+ * @param context - Route context with the image ID
+ * @returns The image, or a 404 response when it does not exist
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const { id } = await params;
+  const image = await readLocalImage(getLocalImageDirectory(), id);
+
+  if (!image) {
+    return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+  }
+
+  return new NextResponse(image.bytes, {
+    headers: {
+      'Content-Type': image.contentType,
+      'Content-Length': image.bytes.length.toString(),
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  });
+}
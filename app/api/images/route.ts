@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Image Upload API Route
+ *
+ * This route stores NFT images uploaded from the mint form in the configured
+ * storage backend and returns the URL to mint. Uploads are validated again on
+ * the server: the size against `MAX_FILE_SIZE`, and the type from the file's
+ * bytes rather than the type reported by the browser.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_FILE_SIZE } from '@/lib/constants';
+import { detectImageType, formatFileSize, validateImageFile } from '@/lib/images';
+import { getImageStorage } from '@/lib/imageStorage';
+import { ImageUploadResponse } from '@/types/sui';
+
+// ============================================================================
+// UPLOAD ROUTE
+// ============================================================================
+
+/**
+ * Store an uploaded image
+ *
+ * Expects `multipart/form-data` with the image in the `file` field.
+ *
+ * Responses:
+ * - 201 with the stored image
+ * - 400 when no file was sent, 413 when it is too large, 415 when it is not a supported image
+ * - 502 when the storage backend fails
+ *
+ * @param request - The upload request
+ * @returns JSON response with the stored image or an error
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ImageUploadResponse>> {
+  // Reject oversized uploads before reading their body
+  const contentLength = Number(request.headers.get('content-length'));
+  if (contentLength > MAX_FILE_SIZE + 64 * 1024) {
+    return NextResponse.json(
+      { error: `The image is too large, the maximum is ${formatFileSize(MAX_FILE_SIZE)}` },
+      { status: 413 }
+    );
+  }
+
+  let file: FormDataEntryValue | null;
+  try {
+    file = (await request.formData()).get('file');
+  } catch {
+    return NextResponse.json({ error: 'Expected a multipart form with a file' }, { status: 400 });
+  }
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: 'No image file was uploaded' }, { status: 400 });
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const contentType = detectImageType(bytes);
+  if (!contentType) {
+    return NextResponse.json(
+      { error: 'The file is not a supported image. Use a JPEG, PNG, GIF or WebP image' },
+      { status: 415 }
+    );
+  }
+
+  const validation = validateImageFile({ type: contentType, size: bytes.length });
+  if (!validation.isValid) {
+    return NextResponse.json({ error: validation.error ?? 'Invalid image' }, { status: 413 });
+  }
+
+  try {
+    const stored = await getImageStorage(request.nextUrl.origin).store({ bytes, contentType });
+    return NextResponse.json(stored, { status: 201 });
+  } catch (err) {
+    console.error('Failed to store uploaded image:', err);
+    return NextResponse.json(
+      { error: `Failed to store the image: ${err instanceof Error ? err.message : 'Unknown error'}` },
+      { status: 502 }
+    );
+  }
+}
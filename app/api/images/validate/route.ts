@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Image URL Validation API Route
+ *
+ * This route checks an image URL entered in the mint form before it is minted,
+ * since NFT metadata cannot be changed afterwards. The URL is fetched on the
+ * server, so private network hosts are refused and the browser's origin
+ * restrictions do not get in the way. See `validateImageUrl` for the rules.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateImageUrl } from '@/lib/imageUrls';
+import { ImageUrlValidationResponse } from '@/types/sui';
+
+// ============================================================================
+// VALIDATION ROUTE
+// ============================================================================
+
+/**
+ * Validate and normalize an image URL
+ *
+ * Expects a JSON body with the URL in the `url` field.
+ *
+ * Responses:
+ * - 200 with the normalized URL, type and size of the image
+ * - 400 when no URL was sent
+ * - 422 when the URL cannot be minted, with the reason
+ *
+ * @param request - The validation request
+ * @returns JSON response with the validated image or an error
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ImageUrlValidationResponse>> {
+  let url: unknown;
+  try {
+    ({ url } = (await request.json()) as { url?: unknown });
+  } catch {
+    return NextResponse.json({ error: 'Expected a JSON body with a url' }, { status: 400 });
+  }
+
+  if (typeof url !== 'string' || url.trim() === '') {
+    return NextResponse.json({ error: 'No image URL was given' }, { status: 400 });
+  }
+
+  const result = await validateImageUrl(url, request.nextUrl.origin);
+  return NextResponse.json(result, { status: 'error' in result ? 422 : 200 });
+}
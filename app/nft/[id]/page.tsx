@@ -0,0 +1,51 @@
+/**
+ * @fileoverview NFT Detail Page
+ *
+ * This page shows any NFT of the collection by object ID, whoever owns it, so
+ * specific NFTs can be linked to from bug reports and demos.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Header } from '@/components/layout/Header';
+import { NFTDetails } from '@/components/nft/NFTDetails';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+
+// ============================================================================
+// NFT DETAIL PAGE COMPONENT
+// ============================================================================
+
+/**
+ * NFT detail page component
+ *
+ * Reads the object ID from the `/nft/[id]` route and renders the NFT on the
+ * app's active network. Wallet connection is only needed for owner actions.
+ *
+ * @returns JSX element containing the NFT detail page
+ */
+export default function NFTDetailPage() {
+  const { id } = useParams<{ id: string }>();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50 dark:from-slate-950 dark:via-slate-900 dark:to-blue-950">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Gallery
+          </Link>
+        </Button>
+
+        <NFTDetails nftId={decodeURIComponent(id)} />
+      </main>
+    </div>
+  );
+}
@@ -10,7 +10,7 @@
 
 'use client';
 
-import { useState } from 'react';
+import { Suspense } from 'react';
 import { Header } from '@/components/layout/Header';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -18,10 +18,13 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { MintForm } from '@/components/nft/MintForm';
 import { NFTGrid } from '@/components/nft/NFTGrid';
 import { CoinSplitForm } from '@/components/coin/CoinSplitForm';
+import { SendSuiForm } from '@/components/coin/SendSuiForm';
 import { CoinManagement } from '@/components/coin/CoinManagement';
-import { useCurrentAccount } from '@mysten/dapp-kit';
+import { useCurrentAccount, useSuiClientContext } from '@mysten/dapp-kit';
 import { useNFTs } from '@/hooks/useNFTs';
 import { useLevelUp } from '@/hooks/useLevelUp';
+import { NETWORK_NAMES } from '@/lib/suiClient';
+import { NFTLevelUp, SuiNetwork } from '@/types/sui';
 import { Palette, TrendingUp, Coins } from 'lucide-react';
 
 // ============================================================================
@@ -45,29 +48,34 @@ import { Palette, TrendingUp, Coins } from 'lucide-react';
  */
 export default function Home() {
   const currentAccount = useCurrentAccount();
-  const { nfts, isLoading: isLoadingNFTs, error: nftError, refetch: refetchNFTs } = useNFTs();
-  const { levelUp } = useLevelUp();
-  const [levelingUpNFTId, setLevelingUpNFTId] = useState<string | undefined>();
+  const { network } = useSuiClientContext();
+  const networkName = NETWORK_NAMES[network as SuiNetwork] ?? network;
+  const {
+    nfts,
+    invalidObjects,
+    isLoading: isLoadingNFTs,
+    error: nftError,
+    refetch: refetchNFTs,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useNFTs();
+  const { levelUp, batchLevelUp, progress: levelUpProgress } = useLevelUp();
 
   /**
    * Handle NFT level up action
    */
   const handleLevelUp = async (nftId: string) => {
-    try {
-      setLevelingUpNFTId(nftId);
-      const result = await levelUp(nftId);
-      if (result.success) {
-        // Refresh NFT data to show updated level after a brief delay
-        // This allows the blockchain to process and index the level update
-        setTimeout(() => {
-          refetchNFTs();
-        }, 2000); // 2 second delay to ensure transaction is processed
-      }
-    } catch (error) {
-      console.error('Level up failed:', error);
-    } finally {
-      setLevelingUpNFTId(undefined);
-    }
+    // The cached NFTs are updated with the new level once the level-up is confirmed
+    await levelUp(nftId);
+  };
+
+  /**
+   * Handle batch level up of several NFTs in one transaction
+   */
+  const handleBatchLevelUp = async (levelUps: NFTLevelUp[]) => {
+    const result = await batchLevelUp(levelUps);
+    return result.success;
   };
 
   return (
@@ -89,7 +97,7 @@ export default function Home() {
               <h2 className="text-3xl font-bold">Welcome to Sui NFT DApp</h2>
               <p className="text-muted-foreground max-w-2xl mx-auto">
                 Your wallet is connected! Explore NFT minting, level up your collection, 
-                and manage your SUI coins on the Sui testnet.
+                and manage your SUI coins on the Sui {networkName}.
               </p>
               <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
                 Phase 8: UI/UX Polish Complete ✅
@@ -98,32 +106,45 @@ export default function Home() {
 
             {/* Feature Tabs */}
             <Tabs defaultValue="nfts" className="w-full">
-              <TabsList className="grid w-full grid-cols-4 lg:w-[500px] mx-auto">
+              <TabsList className="grid w-full grid-cols-5 lg:w-[600px] mx-auto">
                 <TabsTrigger value="nfts">NFT Gallery</TabsTrigger>
                 <TabsTrigger value="mint">Mint NFT</TabsTrigger>
                 <TabsTrigger value="split">Split Coins</TabsTrigger>
+                <TabsTrigger value="send">Send</TabsTrigger>
                 <TabsTrigger value="manage">Manage Coins</TabsTrigger>
               </TabsList>
 
               <TabsContent value="nfts" className="space-y-4">
-                <NFTGrid
-                  nfts={nfts}
-                  isLoading={isLoadingNFTs}
-                  error={nftError}
-                  onRefresh={refetchNFTs}
-                  onLevelUp={handleLevelUp}
-                  levelingUpNFTId={levelingUpNFTId}
-                />
+                {/* The gallery's filters are read from the URL */}
+                <Suspense>
+                  <NFTGrid
+                    nfts={nfts}
+                    invalidObjects={invalidObjects}
+                    isLoading={isLoadingNFTs}
+                    error={nftError}
+                    onRefresh={refetchNFTs}
+                    hasNextPage={hasNextPage}
+                    isFetchingNextPage={isFetchingNextPage}
+                    onLoadMore={fetchNextPage}
+                    onLevelUp={handleLevelUp}
+                    onBatchLevelUp={handleBatchLevelUp}
+                    levelUpProgress={levelUpProgress}
+                  />
+                </Suspense>
               </TabsContent>
 
               <TabsContent value="mint" className="space-y-4">
-                <MintForm onMintSuccess={refetchNFTs} />
+                <MintForm />
               </TabsContent>
 
               <TabsContent value="split" className="space-y-4">
                 <CoinSplitForm />
               </TabsContent>
 
+              <TabsContent value="send" className="space-y-4">
+                <SendSuiForm />
+              </TabsContent>
+
               <TabsContent value="manage" className="space-y-4">
                 <CoinManagement />
               </TabsContent>
@@ -186,7 +207,7 @@ export default function Home() {
                 Mint unique tokens, level them up, and manage your digital assets.
               </p>
               <Badge variant="outline" className="text-blue-600 border-blue-200 bg-blue-50">
-                Sui Testnet • Wallet Required
+                Sui {networkName} • Wallet Required
               </Badge>
             </div>
 
@@ -0,0 +1,184 @@
+/**
+ * @fileoverview Address Profile Component
+ *
+ * This component shows the public inventory of any address: its SuiNS name,
+ * coin balances and NFT collection. It only reads from the chain, so no wallet
+ * connection is needed to inspect another address.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { NFTGrid } from '@/components/nft/NFTGrid';
+import { useCoinRegistry } from '@/hooks/useCoinRegistry';
+import { useNFTs } from '@/hooks/useNFTs';
+import { getExplorerLink, useNetworkVariable } from '@/lib/suiClient';
+import { formatCoin } from '@/lib/utils';
+import { Coins, Copy, ExternalLink, RefreshCw, User } from 'lucide-react';
+import { toast } from 'sonner';
+
+// ============================================================================
+// ADDRESS PROFILE COMPONENT
+// ============================================================================
+
+/**
+ * Props for the Address Profile component
+ */
+interface AddressProfileProps {
+  /** The normalized address to show */
+  address: string;
+  /** The address's SuiNS name, if known */
+  name?: string | null;
+}
+
+/**
+ * Address Profile Component
+ *
+ * Features:
+ * - Address, SuiNS name and explorer link
+ * - Balance and coin object count of every coin type the address holds,
+ *   from the same coin registry as the coin management tab
+ * - Read-only, paginated NFT collection of the address
+ *
+ * @param props - Component props
+ * @returns JSX element containing the address profile
+ *
+ * @example
+ * ```tsx
+ * <AddressProfile address={address} name="@alice" />
+ * ```
+ */
+export function AddressProfile({ address, name }: AddressProfileProps) {
+  const currentAccount = useCurrentAccount();
+  const explorerLink = getExplorerLink(useNetworkVariable('explorerUrl'), 'account', address);
+  const { coinTypes, isLoading: isLoadingBalances, error: balanceError, refetch: refetchBalances } =
+    useCoinRegistry(address);
+  const { nfts, invalidObjects, isLoading, error, refetch, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useNFTs(address);
+
+  const isConnectedAccount =
+    !!currentAccount && normalizeSuiAddress(currentAccount.address) === normalizeSuiAddress(address);
+
+  /**
+   * Copy the address to the clipboard
+   */
+  const copyAddress = async () => {
+    try {
+      await navigator.clipboard.writeText(address);
+      toast.success('Address copied to clipboard');
+    } catch {
+      toast.error('Failed to copy address');
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Address Overview */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="flex items-center space-x-3 min-w-0">
+              <div className="flex h-12 w-12 flex-shrink-0 items-center justify-center rounded-full bg-gradient-to-br from-blue-600 to-purple-600">
+                <User className="h-6 w-6 text-white" />
+              </div>
+              <div className="min-w-0">
+                <CardTitle className="flex items-center space-x-2">
+                  <span className="truncate">{name ?? 'Address'}</span>
+                  {isConnectedAccount && <Badge variant="secondary">You</Badge>}
+                </CardTitle>
+                <CardDescription className="font-mono break-all">{address}</CardDescription>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2 flex-shrink-0">
+              <Button variant="outline" size="sm" onClick={copyAddress}>
+                <Copy className="mr-2 h-3 w-3" />
+                Copy
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => explorerLink && window.open(explorerLink, '_blank')}
+                disabled={!explorerLink}
+              >
+                <ExternalLink className="mr-2 h-3 w-3" />
+                Explorer
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+      </Card>
+
+      {/* Balances */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <Coins className="h-5 w-5" />
+                <span>Balances</span>
+              </CardTitle>
+              <CardDescription>Every coin type held by this address</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => refetchBalances()} disabled={isLoadingBalances}>
+              <RefreshCw className={`h-4 w-4 ${isLoadingBalances ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoadingBalances ? (
+            <div className="space-y-2">
+              {Array.from({ length: 2 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : balanceError ? (
+            <div className="text-red-600 dark:text-red-400 text-sm">Error loading balances: {balanceError}</div>
+          ) : (
+            <div className="space-y-2">
+              {coinTypes.map((coin) => (
+                <div key={coin.coinType} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div className="min-w-0">
+                    <p className="font-medium">{coin.symbol}</p>
+                    <p className="text-xs text-muted-foreground truncate" title={coin.coinType}>
+                      {coin.name}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-mono font-medium">
+                      {formatCoin(coin.totalBalance, coin.decimals)} {coin.symbol}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {coin.coinObjectCount} coin object{coin.coinObjectCount === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* NFT Collection */}
+      <NFTGrid
+        nfts={nfts}
+        invalidObjects={invalidObjects}
+        isLoading={isLoading}
+        error={error}
+        onRefresh={refetch}
+        hasNextPage={hasNextPage}
+        isFetchingNextPage={isFetchingNextPage}
+        onLoadMore={fetchNextPage}
+        readOnly
+      />
+    </div>
+  );
+}
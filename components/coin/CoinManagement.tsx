@@ -1,7 +1,7 @@
 /**
  * @fileoverview Comprehensive Coin Management Component
  * 
- * This component provides a complete interface for managing SUI coins including
+ * This component provides a complete interface for managing SUI and other coins including
  * viewing all coins, split history, merging coins, and coin analytics.
  * 
  * @author Rijad Kuloglija
@@ -10,14 +10,21 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { useSuiClientQuery } from '@mysten/dapp-kit';
 import { useCurrentAccount } from '@mysten/dapp-kit';
-import { SUI_COIN_TYPE } from '@/lib/constants';
-import { formatSUI } from '@/lib/utils';
+import { CoinTypeSelector } from '@/components/coin/CoinTypeSelector';
+import { TransactionHistory } from '@/components/history/TransactionHistory';
+import { FaucetButton } from '@/components/wallet/FaucetButton';
+import { useCoinMerge } from '@/hooks/useCoinMerge';
+import { useCoinRegistry } from '@/hooks/useCoinRegistry';
+import { useOwnedCoins } from '@/hooks/useOwnedCoins';
+import { useSelectedCoinType } from '@/hooks/useSelectedCoinType';
+import { isSuiCoinType } from '@/lib/coinRegistry';
+import { getExplorerLink, useNetworkVariable } from '@/lib/suiClient';
+import { formatCoin } from '@/lib/utils';
 import { 
   Coins, 
   TrendingUp, 
@@ -27,7 +34,8 @@ import {
   History,
   PieChart,
   ExternalLink,
-  RefreshCw
+  RefreshCw,
+  Loader2
 } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -39,41 +47,43 @@ import { toast } from 'sonner';
  * Comprehensive Coin Management Component
  * 
  * Features:
- * - Display all SUI coins owned by the user
+ * - Display all coins of the selected coin type owned by the user, a page at a time
+ * - Switch between every fungible coin type the user holds
  * - Show coin distribution and analytics
  * - Provide merge functionality for multiple coins
- * - Transaction history for splits and merges
+ * - Transaction history for the connected address
  * - Quick actions for common operations
+ * - Faucet request when the user holds no SUI on a network with a faucet
  * 
  * @returns JSX element containing the coin management interface
  */
 export function CoinManagement() {
   const currentAccount = useCurrentAccount();
   const [selectedCoins, setSelectedCoins] = useState<string[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const { coinType } = useSelectedCoinType();
+  const { getCoinInfo } = useCoinRegistry();
+  const { symbol, decimals, totalBalance, coinObjectCount: totalCoins } = getCoinInfo(coinType);
+  const { mergeCoins, isLoading: isMerging } = useCoinMerge(coinType);
+  const explorerUrl = useNetworkVariable('explorerUrl');
 
-  // Fetch user's SUI coins
-  const { data: coins, isLoading, error, refetch } = useSuiClientQuery(
-    'getCoins',
-    {
-      owner: currentAccount?.address ?? '',
-      coinType: SUI_COIN_TYPE,
-    },
-    {
-      enabled: !!currentAccount?.address,
-      refetchInterval: 30000, // Refresh every 30 seconds
-    }
-  );
+  // Selections only make sense within one coin type
+  useEffect(() => {
+    setSelectedCoins([]);
+  }, [coinType]);
+
+  // Fetch user's coins of the selected type
+  const { coins, isLoading, error, refetch, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useOwnedCoins(coinType);
 
-  // Calculate analytics
-  const totalBalance = coins?.data.reduce((sum, coin) => sum + parseInt(coin.balance), 0) || 0;
-  const totalCoins = coins?.data.length || 0;
-  const largestCoin = coins?.data.reduce((largest, coin) => 
+  // Calculate analytics; totals come from the registry, coin sizes from the loaded pages
+  const largestCoin = coins.reduce((largest, coin) => 
     parseInt(coin.balance) > parseInt(largest?.balance || '0') ? coin : largest, 
-    coins?.data[0]
+    coins[0]
   );
-  const smallestCoin = coins?.data.reduce((smallest, coin) => 
+  const smallestCoin = coins.reduce((smallest, coin) => 
     parseInt(coin.balance) < parseInt(smallest?.balance || '999999999999999') ? coin : smallest, 
-    coins?.data[0]
+    coins[0]
   );
 
   /**
@@ -87,6 +97,16 @@ export function CoinManagement() {
     );
   };
 
+  /**
+   * Merge the selected coins into the largest one and clear the selection
+   */
+  const handleMerge = async () => {
+    const result = await mergeCoins(selectedCoins);
+    if (result.success) {
+      setSelectedCoins([]);
+    }
+  };
+
   /**
    * Copy coin object ID to clipboard
    */
@@ -96,11 +116,11 @@ export function CoinManagement() {
   };
 
   /**
-   * Open transaction on Sui Explorer
+   * Open coin object on the active network's explorer
    */
   const openInExplorer = (objectId: string) => {
-    const explorerUrl = `https://suivision.xyz/object/${objectId}`;
-    window.open(explorerUrl, '_blank');
+    const link = getExplorerLink(explorerUrl, 'object', objectId);
+    if (link) window.open(link, '_blank');
   };
 
   if (!currentAccount) {
@@ -135,7 +155,7 @@ export function CoinManagement() {
       <Card className="border-red-200 bg-red-50 dark:bg-red-950">
         <CardContent className="pt-6">
           <div className="text-red-600 dark:text-red-400">
-            Error loading coins: {error.message}
+            Error loading coins: {error}
           </div>
         </CardContent>
       </Card>
@@ -144,6 +164,9 @@ export function CoinManagement() {
 
   return (
     <div className="space-y-6">
+      {/* Coin Type Selection */}
+      <CoinTypeSelector disabled={isMerging} />
+
       {/* Coin Analytics Overview */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card>
@@ -152,7 +175,7 @@ export function CoinManagement() {
               <Coins className="h-5 w-5 text-blue-600" />
               <div>
                 <p className="text-sm font-medium">Total Balance</p>
-                <p className="text-2xl font-bold">{formatSUI(totalBalance.toString())} SUI</p>
+                <p className="text-2xl font-bold">{formatCoin(totalBalance, decimals)} {symbol}</p>
               </div>
             </div>
           </CardContent>
@@ -165,6 +188,9 @@ export function CoinManagement() {
               <div>
                 <p className="text-sm font-medium">Coin Objects</p>
                 <p className="text-2xl font-bold">{totalCoins}</p>
+                {hasNextPage && (
+                  <p className="text-xs text-muted-foreground">{coins.length} loaded</p>
+                )}
               </div>
             </div>
           </CardContent>
@@ -177,7 +203,7 @@ export function CoinManagement() {
               <div>
                 <p className="text-sm font-medium">Largest Coin</p>
                 <p className="text-xl font-bold">
-                  {largestCoin ? formatSUI(largestCoin.balance) : '0'} SUI
+                  {largestCoin ? formatCoin(largestCoin.balance, decimals) : '0'} {symbol}
                 </p>
               </div>
             </div>
@@ -191,7 +217,7 @@ export function CoinManagement() {
               <div>
                 <p className="text-sm font-medium">Smallest Coin</p>
                 <p className="text-xl font-bold">
-                  {smallestCoin ? formatSUI(smallestCoin.balance) : '0'} SUI
+                  {smallestCoin ? formatCoin(smallestCoin.balance, decimals) : '0'} {symbol}
                 </p>
               </div>
             </div>
@@ -206,10 +232,10 @@ export function CoinManagement() {
             <div>
               <CardTitle className="flex items-center space-x-2">
                 <Coins className="h-5 w-5" />
-                <span>Your SUI Coins</span>
+                <span>Your {symbol} Coins</span>
               </CardTitle>
               <CardDescription>
-                Manage your individual SUI coin objects
+                Manage your individual {symbol} coin objects
               </CardDescription>
             </div>
             <div className="flex items-center space-x-2">
@@ -226,12 +252,14 @@ export function CoinManagement() {
                 <Button
                   variant="default"
                   size="sm"
-                  onClick={() => {
-                    // TODO: Implement merge functionality
-                    toast.info('Coin merging feature coming soon!');
-                  }}
+                  onClick={handleMerge}
+                  disabled={isMerging}
                 >
-                  <Merge className="h-4 w-4 mr-1" />
+                  {isMerging ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <Merge className="h-4 w-4 mr-1" />
+                  )}
                   Merge Selected ({selectedCoins.length})
                 </Button>
               )}
@@ -239,9 +267,9 @@ export function CoinManagement() {
           </div>
         </CardHeader>
         <CardContent>
-          {coins?.data && coins.data.length > 0 ? (
+          {coins.length > 0 ? (
             <div className="space-y-3">
-              {coins.data
+              {[...coins]
                 .sort((a, b) => parseInt(b.balance) - parseInt(a.balance)) // Sort by balance descending
                 .map((coin, index) => (
                 <div key={coin.coinObjectId} className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors">
@@ -251,6 +279,7 @@ export function CoinManagement() {
                         type="checkbox"
                         checked={selectedCoins.includes(coin.coinObjectId)}
                         onChange={() => toggleCoinSelection(coin.coinObjectId)}
+                        disabled={isMerging}
                         className="rounded"
                       />
                       <Badge variant="outline" className="text-xs">
@@ -259,7 +288,7 @@ export function CoinManagement() {
                     </div>
                     <div>
                       <p className="font-mono font-medium">
-                        {formatSUI(coin.balance)} SUI
+                        {formatCoin(coin.balance, decimals)} {symbol}
                       </p>
                       <p className="text-sm text-muted-foreground">
                         {coin.coinObjectId.slice(0, 8)}...{coin.coinObjectId.slice(-6)}
@@ -278,18 +307,41 @@ export function CoinManagement() {
                       variant="ghost"
                       size="sm"
                       onClick={() => openInExplorer(coin.coinObjectId)}
+                      disabled={!explorerUrl}
                     >
                       <ExternalLink className="h-4 w-4" />
                     </Button>
                   </div>
                 </div>
               ))}
+              {hasNextPage && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                >
+                  {isFetchingNextPage ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Loading More Coins...
+                    </>
+                  ) : (
+                    `Load More (${coins.length} of ${totalCoins})`
+                  )}
+                </Button>
+              )}
             </div>
           ) : (
             <div className="text-center py-8 text-muted-foreground">
               <Coins className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p>No SUI coins found</p>
-              <p className="text-sm">Try requesting coins from the faucet</p>
+              <p>No {symbol} coins found</p>
+              {isSuiCoinType(coinType) && (
+                <>
+                  <p className="text-sm mb-4">Try requesting coins from the faucet</p>
+                  <FaucetButton />
+                </>
+              )}
             </div>
           )}
         </CardContent>
@@ -340,13 +392,11 @@ export function CoinManagement() {
             <Button
               variant="outline"
               className="flex flex-col items-center space-y-2 h-auto py-4"
-              onClick={() => {
-                toast.info('Transaction history feature coming soon!');
-              }}
+              onClick={() => setShowHistory((show) => !show)}
             >
               <History className="h-6 w-6" />
               <div className="text-center">
-                <p className="font-medium">View History</p>
+                <p className="font-medium">{showHistory ? 'Hide History' : 'View History'}</p>
                 <p className="text-xs text-muted-foreground">See past transactions</p>
               </div>
             </Button>
@@ -354,8 +404,11 @@ export function CoinManagement() {
         </CardContent>
       </Card>
 
+      {/* Transaction History */}
+      {showHistory && <TransactionHistory />}
+
       {/* Coin Distribution Info */}
-      {coins?.data && coins.data.length > 1 && (
+      {totalCoins > 1 && (
         <Card className="border-blue-200 bg-blue-50/50 dark:bg-blue-950/10">
           <CardContent className="pt-6">
             <div className="flex items-start space-x-3">
@@ -366,7 +419,7 @@ export function CoinManagement() {
                 </h4>
                 <div className="text-sm text-blue-700 dark:text-blue-300 space-y-1">
                   <p>• You have {totalCoins} separate coin objects</p>
-                  <p>• Average coin size: {formatSUI((totalBalance / totalCoins).toString())} SUI</p>
+                  <p>• Average coin size: {formatCoin(Number(totalBalance) / totalCoins, decimals)} {symbol}</p>
                   {totalCoins > 5 && (
                     <p>• Consider merging smaller coins to reduce transaction complexity</p>
                   )}
@@ -1,7 +1,7 @@
 /**
  * @fileoverview Coin Split Form Component
  * 
- * This component provides a user interface for splitting SUI coins on the Sui blockchain.
+ * This component provides a user interface for splitting SUI and other coins on the Sui blockchain.
  * It includes form validation, coin selection, and integration with the useCoinSplit hook.
  * 
  * @author Rijad Kuloglija
@@ -19,9 +19,14 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { CoinTypeSelector } from '@/components/coin/CoinTypeSelector';
+import { useCoinRegistry } from '@/hooks/useCoinRegistry';
 import { useCoinSplit } from '@/hooks/useCoinSplit';
+import { useSelectedCoinType } from '@/hooks/useSelectedCoinType';
 import { useWallet } from '@/hooks/useWallet';
-import { formatSUI } from '@/lib/utils';
+import { isSuiCoinType } from '@/lib/coinRegistry';
+import { MAX_SPLIT_AMOUNTS_PER_TRANSACTION } from '@/lib/constants';
+import { formatCoin } from '@/lib/utils';
 import { Coins, Split, ArrowRight, Info, AlertCircle } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -30,38 +35,135 @@ import { toast } from 'sonner';
 // ============================================================================
 
 /**
- * Validation schema for coin split form
+ * Validation schema for a single split amount
  * Ensures amount is positive and within reasonable bounds
  */
-const coinSplitSchema = z.object({
-  amount: z
-    .string()
-    .min(1, 'Amount is required')
-    .refine(
-      (val) => {
-        const num = parseFloat(val);
-        return !isNaN(num) && num > 0;
-      },
-      'Amount must be a positive number'
-    )
-    .refine(
-      (val) => {
-        const num = parseFloat(val);
-        return num >= 0.001; // Minimum 0.001 SUI
-      },
-      'Amount must be at least 0.001 SUI'
-    )
-    .refine(
-      (val) => {
-        const num = parseFloat(val);
-        return num <= 1000; // Maximum 1000 SUI
-      },
-      'Amount cannot exceed 1000 SUI'
-    ),
-});
+const splitAmountSchema = z
+  .string()
+  .min(1, 'Amount is required')
+  .refine(
+    (val) => {
+      const num = parseFloat(val);
+      return !isNaN(num) && num > 0;
+    },
+    'Amount must be a positive number'
+  )
+  .refine(
+    (val) => {
+      const num = parseFloat(val);
+      return num >= 0.001; // Minimum 0.001 (display units)
+    },
+    'Amount must be at least 0.001'
+  )
+  .refine(
+    (val) => {
+      const num = parseFloat(val);
+      return num <= 1000; // Maximum 1000 (display units)
+    },
+    'Amount cannot exceed 1000'
+  );
+
+/**
+ * Available split modes
+ * - single: split off one amount
+ * - list: split off every amount of a comma or newline separated list
+ * - equal: split off N pieces of the same amount
+ */
+type SplitMode = 'single' | 'list' | 'equal';
+
+/**
+ * Validation schema for coin split form
+ * Only the fields used by the selected mode are validated
+ */
+const coinSplitSchema = z
+  .object({
+    mode: z.enum(['single', 'list', 'equal']),
+    amount: z.string(),
+    amounts: z.string(),
+    count: z.string(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.mode === 'list') {
+      const amounts = parseAmountList(data.amounts);
+
+      if (amounts.length === 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['amounts'], message: 'Enter at least one amount' });
+        return;
+      }
+
+      if (amounts.length > MAX_SPLIT_AMOUNTS_PER_TRANSACTION) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['amounts'],
+          message: `At most ${MAX_SPLIT_AMOUNTS_PER_TRANSACTION} amounts per transaction`,
+        });
+        return;
+      }
+
+      const invalidIndex = amounts.findIndex((value) => !splitAmountSchema.safeParse(value).success);
+      if (invalidIndex !== -1) {
+        const result = splitAmountSchema.safeParse(amounts[invalidIndex]);
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['amounts'],
+          message: `Amount #${invalidIndex + 1}: ${result.error?.issues[0]?.message ?? 'Invalid amount'}`,
+        });
+      }
+      return;
+    }
+
+    const amountResult = splitAmountSchema.safeParse(data.amount);
+    if (!amountResult.success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['amount'], message: amountResult.error.issues[0].message });
+    }
+
+    if (data.mode === 'equal') {
+      const count = Number(data.count);
+      if (!Number.isInteger(count) || count < 1 || count > MAX_SPLIT_AMOUNTS_PER_TRANSACTION) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['count'],
+          message: `Number of pieces must be a whole number between 1 and ${MAX_SPLIT_AMOUNTS_PER_TRANSACTION}`,
+        });
+      }
+    }
+  });
 
 type CoinSplitFormData = z.infer<typeof coinSplitSchema>;
 
+/**
+ * Parse a comma, semicolon or whitespace separated list of amounts
+ *
+ * @param value - Raw list input
+ * @returns The non-empty amount strings in input order
+ */
+function parseAmountList(value: string): string[] {
+  return value
+    .split(/[\s,;]+/)
+    .map((amount) => amount.trim())
+    .filter((amount) => amount.length > 0);
+}
+
+/**
+ * Resolve the list of amounts (in display units) that a form state would split off
+ *
+ * @param data - Current form values
+ * @returns One amount per coin to create
+ */
+function getSplitAmounts(data: CoinSplitFormData): string[] {
+  switch (data.mode) {
+    case 'list':
+      return parseAmountList(data.amounts);
+    case 'equal': {
+      const count = Number(data.count);
+      if (!Number.isInteger(count) || count < 1) return [];
+      return Array.from({ length: Math.min(count, MAX_SPLIT_AMOUNTS_PER_TRANSACTION) }, () => data.amount);
+    }
+    default:
+      return data.amount ? [data.amount] : [];
+  }
+}
+
 // ============================================================================
 // COIN SPLIT FORM COMPONENT
 // ============================================================================
@@ -69,39 +171,59 @@ type CoinSplitFormData = z.infer<typeof coinSplitSchema>;
 /**
  * CoinSplitForm Component
  * 
- * Provides a user interface for splitting SUI coins into smaller denominations.
+ * Provides a user interface for splitting coins of the selected type into smaller denominations.
  * The component includes:
  * - Form validation for amount input
- * - Display of current SUI balance
+ * - Single, list and "N equal pieces" split modes
+ * - Coin type selection and display of the current balance
  * - Preview of the split operation
  * - Integration with wallet and coin split functionality
  * - Loading states and error handling
  * - Success feedback with transaction details
  * 
  * The splitting process:
- * 1. User enters the amount to split from their SUI balance
+ * 1. User enters one amount, a list of amounts, or N pieces of an amount
  * 2. Form validates the input against available balance
- * 3. Preview shows the operation (original coin → new split coin)
- * 4. User confirms and signs the transaction
- * 5. New coin object is created with the specified amount
+ * 3. Preview shows every resulting coin and the remaining balance
+ * 4. User confirms and signs a single transaction
+ * 5. One new coin object is created per amount
  * 
  * @returns JSX element containing the coin split form interface
  */
 export function CoinSplitForm() {
   const [lastSplitResult, setLastSplitResult] = useState<string | null>(null);
-  const { splitCoin, isLoading, error } = useCoinSplit();
-  const { balance } = useWallet();
+  const { coinType } = useSelectedCoinType();
+  const { splitCoin, isLoading, error } = useCoinSplit(coinType);
+  const { balance, symbol } = useWallet(coinType);
+  const { getCoinInfo } = useCoinRegistry();
+  // Amounts are only entered once the coin's decimals are known
+  const isAmountDisabled = isLoading || !getCoinInfo(coinType).decimalsResolved;
 
   const form = useForm<CoinSplitFormData>({
     resolver: zodResolver(coinSplitSchema),
     defaultValues: {
+      mode: 'single',
       amount: '',
+      amounts: '',
+      count: '2',
     },
   });
 
-  const watchedAmount = form.watch('amount');
-  const numericAmount = parseFloat(watchedAmount) || 0;
+  const watchedValues = form.watch();
+  const splitMode = watchedValues.mode;
+  const splitAmounts = getSplitAmounts(watchedValues);
+  const numericAmounts = splitAmounts.map((amount) => parseFloat(amount) || 0);
+  const numericAmount = numericAmounts.reduce((sum, amount) => sum + amount, 0);
   const balanceNumber = parseFloat(balance || '0') || 0;
+  const remainingBalance = balanceNumber - numericAmount;
+
+  /**
+   * Switch between split modes and revalidate the visible fields
+   */
+  const changeMode = (mode: SplitMode) => {
+    form.setValue('mode', mode);
+    form.clearErrors();
+  };
 
   /**
    * Handle form submission
@@ -114,15 +236,21 @@ export function CoinSplitForm() {
         return;
       }
 
+      const amounts = getSplitAmounts(data);
       const result = await splitCoin({
-        amount: data.amount,
+        amount: numericAmount.toString(),
+        amounts: data.mode === 'single' ? undefined : amounts,
         coinObjectId: '', // Auto-selected by the hook
       });
 
       if (result.success) {
         setLastSplitResult(result.digest ?? '');
-        form.reset();
-        toast.success(`Successfully split ${data.amount} SUI!`);
+        form.reset({ mode: data.mode, amount: '', amounts: '', count: '2' });
+        toast.success(
+          amounts.length > 1
+            ? `Successfully split ${amounts.length} coins!`
+            : `Successfully split ${data.amount} ${symbol}!`
+        );
       }
     } catch (error) {
       console.error('Split coin failed:', error);
@@ -136,13 +264,16 @@ export function CoinSplitForm() {
         <CardHeader>
           <CardTitle className="flex items-center space-x-2">
             <Split className="h-5 w-5 text-blue-600" />
-            <span>Split SUI Coins</span>
+            <span>Split {symbol} Coins</span>
           </CardTitle>
           <CardDescription>
-            Split your SUI coins into smaller denominations for better transaction management
+            Split your {symbol} coins into smaller denominations for better transaction management
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
+          {/* Coin Type Selection */}
+          <CoinTypeSelector disabled={isLoading} />
+
           {/* Balance Display */}
           <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-900 rounded-lg">
             <div className="flex items-center space-x-2">
@@ -150,32 +281,109 @@ export function CoinSplitForm() {
               <span className="text-sm font-medium">Available Balance:</span>
             </div>
             <Badge variant="secondary" className="font-mono">
-              {formatSUI(balance || '0')} SUI
+              {formatCoin(balance || '0', 0)} {symbol}
             </Badge>
           </div>
 
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            {/* Amount Input */}
-            <div className="space-y-2">
-              <Label htmlFor="amount">Amount to Split (SUI)</Label>
-              <Input
-                id="amount"
-                type="number"
-                step="0.001"
-                min="0.001"
-                max="1000"
-                placeholder="0.1"
-                disabled={isLoading}
-                {...form.register('amount')}
-              />
-              {form.formState.errors.amount && (
-                <p className="text-sm text-red-600 flex items-center space-x-1">
-                  <AlertCircle className="h-3 w-3" />
-                  <span>{form.formState.errors.amount.message}</span>
-                </p>
-              )}
+            {!getCoinInfo(coinType).decimalsResolved && (
+              <p className="text-sm text-muted-foreground flex items-center space-x-1">
+                <Info className="h-3 w-3" />
+                <span>Loading {symbol} metadata before amounts can be entered...</span>
+              </p>
+            )}
+
+            {/* Split Mode Selector */}
+            <div className="grid grid-cols-3 gap-2">
+              {([
+                { mode: 'single', label: 'Single' },
+                { mode: 'list', label: 'List' },
+                { mode: 'equal', label: 'N Pieces' },
+              ] as const).map((option) => (
+                <Button
+                  key={option.mode}
+                  type="button"
+                  size="sm"
+                  variant={splitMode === option.mode ? 'default' : 'outline'}
+                  onClick={() => changeMode(option.mode)}
+                  disabled={isLoading}
+                >
+                  {option.label}
+                </Button>
+              ))}
             </div>
 
+            {/* Amount List Input */}
+            {splitMode === 'list' && (
+              <div className="space-y-2">
+                <Label htmlFor="amounts">Amounts to Split ({symbol})</Label>
+                <textarea
+                  id="amounts"
+                  className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm font-mono ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                  placeholder="0.1, 0.25, 0.5"
+                  disabled={isAmountDisabled}
+                  {...form.register('amounts')}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Separate amounts with commas or new lines (up to {MAX_SPLIT_AMOUNTS_PER_TRANSACTION})
+                </p>
+                {form.formState.errors.amounts && (
+                  <p className="text-sm text-red-600 flex items-center space-x-1">
+                    <AlertCircle className="h-3 w-3" />
+                    <span>{form.formState.errors.amounts.message}</span>
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Piece Count Input */}
+            {splitMode === 'equal' && (
+              <div className="space-y-2">
+                <Label htmlFor="count">Number of Pieces</Label>
+                <Input
+                  id="count"
+                  type="number"
+                  step="1"
+                  min="1"
+                  max={MAX_SPLIT_AMOUNTS_PER_TRANSACTION}
+                  placeholder="10"
+                  disabled={isAmountDisabled}
+                  {...form.register('count')}
+                />
+                {form.formState.errors.count && (
+                  <p className="text-sm text-red-600 flex items-center space-x-1">
+                    <AlertCircle className="h-3 w-3" />
+                    <span>{form.formState.errors.count.message}</span>
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Amount Input */}
+            {splitMode !== 'list' && (
+              <div className="space-y-2">
+                <Label htmlFor="amount">
+                  {splitMode === 'equal' ? `Amount per Piece (${symbol})` : `Amount to Split (${symbol})`}
+                </Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  step="0.001"
+                  min="0.001"
+                  max="1000"
+                  placeholder="0.1"
+                  disabled={isAmountDisabled}
+                  {...form.register('amount')}
+                />
+                {form.formState.errors.amount && (
+                  <p className="text-sm text-red-600 flex items-center space-x-1">
+                    <AlertCircle className="h-3 w-3" />
+                    <span>{form.formState.errors.amount.message}</span>
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Split Preview */}
             {numericAmount > 0 && (
               <div className="p-4 bg-blue-50 dark:bg-blue-950/20 rounded-lg border border-blue-200 dark:border-blue-800">
@@ -186,18 +394,38 @@ export function CoinSplitForm() {
                   </span>
                 </div>
                 <div className="flex items-center justify-between text-sm">
-                                   <div className="text-center">
-                   <p className="text-muted-foreground">Original Balance</p>
-                   <p className="font-mono font-medium">{formatSUI(balance || '0')} SUI</p>
-                 </div>
+                  <div className="text-center">
+                    <p className="text-muted-foreground">Original Balance</p>
+                    <p className="font-mono font-medium">{formatCoin(balance || '0', 0)} {symbol}</p>
+                  </div>
                   <ArrowRight className="h-4 w-4 text-blue-600" />
                   <div className="text-center">
-                    <p className="text-muted-foreground">New Split Coin</p>
+                    <p className="text-muted-foreground">
+                      {numericAmounts.length > 1 ? `${numericAmounts.length} New Coins` : 'New Split Coin'}
+                    </p>
                     <p className="font-mono font-medium text-blue-600">
-                      {numericAmount.toFixed(3)} SUI
+                      {numericAmount.toFixed(3)} {symbol}
                     </p>
                   </div>
                 </div>
+                {numericAmounts.length > 1 && (
+                  <div className="mt-3 max-h-48 overflow-y-auto space-y-1 rounded border border-blue-200 dark:border-blue-800 bg-white/60 dark:bg-slate-900/40 p-2">
+                    {numericAmounts.map((amount, index) => (
+                      <div key={index} className="flex items-center justify-between text-xs font-mono">
+                        <span className="text-muted-foreground">Coin #{index + 1}</span>
+                        <span>{amount.toFixed(3)} {symbol}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="mt-3 flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    Remaining in original coin{isSuiCoinType(coinType) ? ' (before gas)' : ''}
+                  </span>
+                  <span className="font-mono font-medium">
+                    {Math.max(remainingBalance, 0).toFixed(3)} {symbol}
+                  </span>
+                </div>
                 {numericAmount > balanceNumber && (
                   <div className="mt-3 p-2 bg-red-50 dark:bg-red-950/20 rounded border border-red-200 dark:border-red-800">
                     <p className="text-sm text-red-600 dark:text-red-400 flex items-center space-x-1">
@@ -213,7 +441,7 @@ export function CoinSplitForm() {
             <Button
               type="submit"
               disabled={
-                isLoading ||
+                isAmountDisabled ||
                 !form.formState.isValid ||
                 numericAmount <= 0 ||
                 numericAmount > balanceNumber
@@ -228,7 +456,7 @@ export function CoinSplitForm() {
               ) : (
                 <div className="flex items-center space-x-2">
                   <Split className="h-4 w-4" />
-                  <span>Split Coin</span>
+                  <span>{numericAmounts.length > 1 ? `Split into ${numericAmounts.length} Coins` : 'Split Coin'}</span>
                 </div>
               )}
             </Button>
@@ -258,7 +486,7 @@ export function CoinSplitForm() {
           <CardContent>
             <div className="space-y-3">
               <p className="text-sm text-green-700 dark:text-green-300">
-                Your coin has been successfully split. A new coin object has been created.
+                Your coin has been successfully split. The new coin objects have been created.
               </p>
               <div className="flex items-center justify-between p-3 bg-white dark:bg-slate-800 rounded-lg border">
                 <span className="text-sm font-medium">Transaction:</span>
@@ -293,6 +521,7 @@ export function CoinSplitForm() {
               </h4>
               <div className="text-sm text-blue-700 dark:text-blue-300 space-y-1">
                 <p>• Coin splitting creates new coin objects with specified amounts</p>
+                <p>• Multiple amounts are split off in a single transaction</p>
                 <p>• Useful for creating exact payment amounts for transactions</p>
                 <p>• The original coin balance will be reduced by the split amount</p>
                 <p>• Split coins can be used independently for other transactions</p>
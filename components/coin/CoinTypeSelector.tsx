@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Coin Type Selector Component
+ *
+ * This component lets the user choose which fungible coin type they are working
+ * with. It lists every coin type from the registry with its icon, symbol and
+ * balance, and writes the choice to the shared selected coin type store.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import { useCoinRegistry } from '@/hooks/useCoinRegistry';
+import { useSelectedCoinType } from '@/hooks/useSelectedCoinType';
+import { formatCoin } from '@/lib/utils';
+import { Coins } from 'lucide-react';
+
+// ============================================================================
+// COIN TYPE SELECTOR COMPONENT
+// ============================================================================
+
+/**
+ * Props for the CoinTypeSelector component
+ */
+interface CoinTypeSelectorProps {
+  /** Whether selection is disabled (e.g. while a transaction is pending) */
+  disabled?: boolean;
+  /** Optional custom styling classes */
+  className?: string;
+}
+
+/**
+ * Coin Type Selector Component
+ *
+ * Renders one button per coin type the user holds. The selected coin type is
+ * shared through `useSelectedCoinType`, so the header balance, coin management
+ * and split flow stay in sync.
+ *
+ * @param props - Component props
+ * @returns JSX element containing the coin type buttons
+ */
+export function CoinTypeSelector({ disabled = false, className = '' }: CoinTypeSelectorProps) {
+  const { coinTypes } = useCoinRegistry();
+  const { coinType: selectedCoinType, setCoinType } = useSelectedCoinType();
+
+  // Nothing to choose from with a single coin type
+  if (coinTypes.length <= 1) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-2 ${className}`}>
+      {coinTypes.map((coin) => (
+        <Button
+          key={coin.coinType}
+          type="button"
+          size="sm"
+          variant={coin.coinType === selectedCoinType ? 'default' : 'outline'}
+          onClick={() => setCoinType(coin.coinType)}
+          disabled={disabled}
+          title={coin.coinType}
+        >
+          {coin.iconUrl ? (
+            <Image src={coin.iconUrl} alt={coin.symbol} width={16} height={16} className="h-4 w-4 rounded-full" unoptimized />
+          ) : (
+            <Coins className="h-4 w-4" />
+          )}
+          <span>{coin.symbol}</span>
+          <span className="font-mono text-xs opacity-70">
+            {formatCoin(coin.totalBalance, coin.decimals)}
+          </span>
+        </Button>
+      ))}
+    </div>
+  );
+}
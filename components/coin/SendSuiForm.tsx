@@ -0,0 +1,419 @@
+/**
+ * @fileoverview Send SUI Form Component
+ *
+ * This component provides a user interface for sending SUI to other addresses,
+ * either to a single recipient or as a batch payout pasted as CSV. Every payout
+ * is reviewed with its totals, then dry run in the pre-flight dialog before it is signed.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useSendSui } from '@/hooks/useSendSui';
+import { useWallet } from '@/hooks/useWallet';
+import {
+  formatSuiAmount,
+  parsePaymentsCsv,
+  suiToMist,
+  validateSuiAddress,
+  validateSuiAmount,
+} from '@/lib/transactionUtils';
+import { formatSUI } from '@/lib/utils';
+import { SuiPayment } from '@/types/sui';
+import { Send, AlertCircle, Info, Loader2, CheckCircle2, XCircle, Copy } from 'lucide-react';
+import { toast } from 'sonner';
+
+// ============================================================================
+// FORM VALIDATION SCHEMA
+// ============================================================================
+
+/**
+ * Validation schema for the send form
+ * Single mode validates the recipient and amount, batch mode validates every CSV row
+ */
+const sendSuiSchema = z
+  .object({
+    mode: z.enum(['single', 'batch']),
+    recipient: z.string(),
+    amount: z.string(),
+    csv: z.string(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.mode === 'batch') {
+      const { payments, errors } = parsePaymentsCsv(data.csv);
+      if (errors.length > 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['csv'], message: errors[0] });
+      } else if (payments.length === 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['csv'], message: 'Paste at least one address,amount row' });
+      }
+      return;
+    }
+
+    const addressValidation = validateSuiAddress(data.recipient);
+    if (!addressValidation.isValid) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['recipient'], message: addressValidation.error ?? 'Invalid address' });
+    }
+
+    const amountValidation = validateSuiAmount(data.amount);
+    if (!amountValidation.isValid) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['amount'], message: amountValidation.error ?? 'Invalid amount' });
+    }
+  });
+
+type SendSuiFormData = z.infer<typeof sendSuiSchema>;
+
+/**
+ * Resolve the payments described by the current form values
+ *
+ * @param data - Current form values
+ * @returns The payments (amounts in SUI) and any row errors
+ */
+function getPayments(data: SendSuiFormData): { payments: SuiPayment[]; errors: string[] } {
+  if (data.mode === 'batch') {
+    return parsePaymentsCsv(data.csv);
+  }
+
+  if (!validateSuiAddress(data.recipient).isValid || !validateSuiAmount(data.amount).isValid) {
+    return { payments: [], errors: [] };
+  }
+
+  return { payments: [{ recipient: data.recipient.trim(), amount: data.amount }], errors: [] };
+}
+
+/**
+ * Format an address for display (first 8 and last 6 characters)
+ */
+const formatAddress = (address: string) => `${address.slice(0, 8)}...${address.slice(-6)}`;
+
+// ============================================================================
+// SEND SUI FORM COMPONENT
+// ============================================================================
+
+/**
+ * SendSuiForm Component
+ *
+ * Provides a user interface for paying one or many recipients in SUI.
+ * The component includes:
+ * - Single recipient mode with address and amount validation
+ * - Batch mode that accepts pasted `address,amount` CSV rows
+ * - A review step showing the recipients and totals before the pre-flight dry run
+ * - Per-recipient results once the payout is confirmed
+ *
+ * @returns JSX element containing the send SUI interface
+ */
+export function SendSuiForm() {
+  const { sendSui, results, isLoading, error } = useSendSui();
+  const { balance } = useWallet();
+  const [review, setReview] = useState<{ payments: SuiPayment[] } | null>(null);
+  const [lastDigest, setLastDigest] = useState<string | null>(null);
+
+  const form = useForm<SendSuiFormData>({
+    resolver: zodResolver(sendSuiSchema),
+    defaultValues: {
+      mode: 'single',
+      recipient: '',
+      amount: '',
+      csv: '',
+    },
+  });
+
+  const watchedValues = form.watch();
+  const sendMode = watchedValues.mode;
+  const { payments } = getPayments(watchedValues);
+  // Totals are summed in MIST so they match the amounts that are sent exactly
+  const totalMist = payments.reduce((sum, payment) => sum + BigInt(suiToMist(payment.amount)), BigInt(0));
+  const balanceMist = BigInt(suiToMist(balance || '0'));
+
+  /**
+   * Switch between single and batch mode
+   */
+  const changeMode = (mode: SendSuiFormData['mode']) => {
+    form.setValue('mode', mode);
+    form.clearErrors();
+    setReview(null);
+  };
+
+  /**
+   * Validate the form and show the review step
+   */
+  const onReview = (data: SendSuiFormData) => {
+    const { payments } = getPayments(data);
+
+    if (totalMist > balanceMist) {
+      toast.error('Insufficient balance for this payout');
+      return;
+    }
+
+    setReview({ payments });
+  };
+
+  /**
+   * Dry run, sign and execute the reviewed payout
+   */
+  const onConfirm = async () => {
+    if (!review) return;
+
+    const result = await sendSui(review.payments);
+    setReview(null);
+
+    if (result.success) {
+      setLastDigest(result.digest ?? null);
+      form.reset({ mode: sendMode, recipient: '', amount: '', csv: '' });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Main Form Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Send className="h-5 w-5 text-blue-600" />
+            <span>Send SUI</span>
+          </CardTitle>
+          <CardDescription>
+            Send SUI to one address or pay a list of addresses in a single transaction
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Balance Display */}
+          <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-900 rounded-lg">
+            <span className="text-sm font-medium">Available Balance:</span>
+            <Badge variant="secondary" className="font-mono">
+              {formatSUI(balance || '0')} SUI
+            </Badge>
+          </div>
+
+          <form onSubmit={form.handleSubmit(onReview)} className="space-y-4">
+            {/* Send Mode Selector */}
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                { mode: 'single', label: 'Single Recipient' },
+                { mode: 'batch', label: 'Batch Payout (CSV)' },
+              ] as const).map((option) => (
+                <Button
+                  key={option.mode}
+                  type="button"
+                  size="sm"
+                  variant={sendMode === option.mode ? 'default' : 'outline'}
+                  onClick={() => changeMode(option.mode)}
+                  disabled={isLoading}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+
+            {sendMode === 'single' ? (
+              <>
+                {/* Recipient Input */}
+                <div className="space-y-2">
+                  <Label htmlFor="recipient">Recipient Address</Label>
+                  <Input
+                    id="recipient"
+                    placeholder="0x..."
+                    className="font-mono"
+                    disabled={isLoading || !!review}
+                    {...form.register('recipient')}
+                  />
+                  {form.formState.errors.recipient && (
+                    <p className="text-sm text-red-600 flex items-center space-x-1">
+                      <AlertCircle className="h-3 w-3" />
+                      <span>{form.formState.errors.recipient.message}</span>
+                    </p>
+                  )}
+                </div>
+
+                {/* Amount Input */}
+                <div className="space-y-2">
+                  <Label htmlFor="send-amount">Amount (SUI)</Label>
+                  <Input
+                    id="send-amount"
+                    type="number"
+                    step="0.000000001"
+                    min="0.000000001"
+                    placeholder="1"
+                    disabled={isLoading || !!review}
+                    {...form.register('amount')}
+                  />
+                  {form.formState.errors.amount && (
+                    <p className="text-sm text-red-600 flex items-center space-x-1">
+                      <AlertCircle className="h-3 w-3" />
+                      <span>{form.formState.errors.amount.message}</span>
+                    </p>
+                  )}
+                </div>
+              </>
+            ) : (
+              /* CSV Input */
+              <div className="space-y-2">
+                <Label htmlFor="csv">Payout Rows</Label>
+                <textarea
+                  id="csv"
+                  className="flex min-h-[140px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm font-mono ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                  placeholder={'address,amount\n0x1234...abcd,1.5\n0x5678...ef01,0.25'}
+                  disabled={isLoading || !!review}
+                  {...form.register('csv')}
+                />
+                <p className="text-xs text-muted-foreground">
+                  One <span className="font-mono">address,amount</span> row per recipient, amounts in SUI
+                </p>
+                {form.formState.errors.csv && (
+                  <p className="text-sm text-red-600 flex items-center space-x-1">
+                    <AlertCircle className="h-3 w-3" />
+                    <span>{form.formState.errors.csv.message}</span>
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Totals */}
+            {payments.length > 0 && (
+              <div className="flex items-center justify-between p-3 bg-blue-50 dark:bg-blue-950/20 rounded-lg border border-blue-200 dark:border-blue-800 text-sm">
+                <span className="text-blue-800 dark:text-blue-200">
+                  {payments.length} recipient{payments.length === 1 ? '' : 's'}
+                </span>
+                <span className="font-mono font-medium">{formatSuiAmount(totalMist.toString())} SUI</span>
+              </div>
+            )}
+
+            {!review && (
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading || payments.length === 0}
+              >
+                <Info className="mr-2 h-4 w-4" />
+                Review Payout
+              </Button>
+            )}
+          </form>
+
+          {/* Review Step */}
+          {review && (
+            <div className="space-y-4 p-4 bg-blue-50 dark:bg-blue-950/20 rounded-lg border border-blue-200 dark:border-blue-800">
+              <div className="flex items-center space-x-2">
+                <Info className="h-4 w-4 text-blue-600" />
+                <span className="text-sm font-medium text-blue-800 dark:text-blue-200">
+                  Review Payout
+                </span>
+              </div>
+
+              <div className="max-h-48 overflow-y-auto space-y-1">
+                {review.payments.map((payment, index) => (
+                  <div key={index} className="flex items-center justify-between text-xs font-mono">
+                    <span title={payment.recipient}>{formatAddress(payment.recipient)}</span>
+                    <span>{payment.amount} SUI</span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-1 text-sm border-t border-blue-200 dark:border-blue-800 pt-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Total to recipients</span>
+                  <span className="font-mono">{formatSuiAmount(totalMist.toString())} SUI</span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Gas is estimated by a dry run before your wallet is asked to sign
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" onClick={() => setReview(null)} disabled={isLoading}>
+                  Edit
+                </Button>
+                <Button onClick={onConfirm} disabled={isLoading}>
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Sending...
+                    </>
+                  ) : (
+                    <>
+                      <Send className="mr-2 h-4 w-4" />
+                      Confirm & Send
+                    </>
+                  )}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Error Display */}
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-950/20 rounded-lg border border-red-200 dark:border-red-800">
+              <p className="text-sm text-red-600 dark:text-red-400 flex items-center space-x-1">
+                <AlertCircle className="h-3 w-3" />
+                <span>{error}</span>
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Per-recipient Results */}
+      {results.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Payout Results</CardTitle>
+            {lastDigest && (
+              <CardDescription className="flex items-center space-x-2">
+                <span>Transaction:</span>
+                <Badge variant="outline" className="font-mono text-xs">
+                  {lastDigest.slice(0, 8)}...{lastDigest.slice(-6)}
+                </Badge>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    navigator.clipboard.writeText(lastDigest);
+                    toast.success('Transaction hash copied to clipboard');
+                  }}
+                >
+                  <Copy className="h-3 w-3" />
+                </Button>
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {results.map((result, index) => (
+                <div key={index} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                  <div className="flex items-center space-x-3">
+                    {result.success ? (
+                      <CheckCircle2 className="h-4 w-4 text-green-600" />
+                    ) : (
+                      <XCircle className="h-4 w-4 text-red-600" />
+                    )}
+                    <div>
+                      <p className="font-mono" title={result.recipient}>{formatAddress(result.recipient)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {result.success
+                          ? result.coinObjectId
+                            ? `Coin ${formatAddress(result.coinObjectId)}`
+                            : 'Confirmed'
+                          : result.error}
+                      </p>
+                    </div>
+                  </div>
+                  <span className="font-mono">{result.amount} SUI</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
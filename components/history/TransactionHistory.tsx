@@ -0,0 +1,239 @@
+/**
+ * @fileoverview Transaction History Panel Component
+ *
+ * This component lists the transactions sent from or received by the connected
+ * address, classified as mint, level-up, split, merge, transfer or other, with
+ * balance changes, gas used, status and a link to the explorer. It can also show
+ * another history, such as the transactions that changed one NFT.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useCoinRegistry } from '@/hooks/useCoinRegistry';
+import { useTransactionHistory } from '@/hooks/useTransactionHistory';
+import { formatSuiAmount } from '@/lib/transactionUtils';
+import { getExplorerLink, useNetworkVariable } from '@/lib/suiClient';
+import { formatCoin } from '@/lib/utils';
+import { TransactionCategory, TransactionHistoryEntry, UseTransactionHistoryReturn } from '@/types/sui';
+import {
+  History,
+  RefreshCw,
+  ExternalLink,
+  Loader2,
+  Zap,
+  TrendingUp,
+  Split,
+  Merge,
+  Send,
+  CircleDot,
+} from 'lucide-react';
+
+// ============================================================================
+// DISPLAY CONFIGURATION
+// ============================================================================
+
+/**
+ * Label, icon and badge styling for each transaction category
+ */
+const CATEGORY_DISPLAY: Record<TransactionCategory, { label: string; icon: typeof History; className: string }> = {
+  mint: { label: 'Mint', icon: Zap, className: 'bg-blue-50 text-blue-700 border-blue-200' },
+  'level-up': { label: 'Level Up', icon: TrendingUp, className: 'bg-green-50 text-green-700 border-green-200' },
+  split: { label: 'Split', icon: Split, className: 'bg-purple-50 text-purple-700 border-purple-200' },
+  merge: { label: 'Merge', icon: Merge, className: 'bg-orange-50 text-orange-700 border-orange-200' },
+  transfer: { label: 'Transfer', icon: Send, className: 'bg-cyan-50 text-cyan-700 border-cyan-200' },
+  other: { label: 'Other', icon: CircleDot, className: 'bg-gray-50 text-gray-700 border-gray-200' },
+};
+
+// ============================================================================
+// TRANSACTION HISTORY COMPONENT
+// ============================================================================
+
+/**
+ * Props for the Transaction History component
+ */
+interface TransactionHistoryProps {
+  /** History to show instead of the connected address's history */
+  history?: UseTransactionHistoryReturn;
+  /** Optional panel title */
+  title?: string;
+  /** Optional panel description */
+  description?: string;
+}
+
+/**
+ * Transaction History Panel Component
+ *
+ * Features:
+ * - Paginated history of the connected address, newest first, or of the given `history`
+ * - Category badges decoded from each transaction's Move calls
+ * - Balance changes of the connected address with each coin's own decimals
+ * - Gas used and success/failure status
+ * - Digest links to the Sui explorer
+ *
+ * @param props - Component props
+ * @returns JSX element containing the transaction history panel
+ *
+ * @example
+ * ```tsx
+ * <TransactionHistory history={useNFTHistory(nftId)} title="NFT History" />
+ * ```
+ */
+export function TransactionHistory({
+  history,
+  title = 'Transaction History',
+  description = 'Transactions sent from or received by this wallet',
+}: TransactionHistoryProps = {}) {
+  const currentAccount = useCurrentAccount();
+  const { getCoinInfo } = useCoinRegistry();
+  const explorerUrl = useNetworkVariable('explorerUrl');
+  const walletHistory = useTransactionHistory(history ? undefined : currentAccount?.address);
+  const { transactions, isLoading, isFetchingMore, hasMore, loadMore, error, refetch } = history ?? walletHistory;
+
+  /**
+   * Balance changes that belong to the connected address
+   */
+  const ownChanges = (entry: TransactionHistoryEntry) =>
+    entry.balanceChanges.filter(
+      (change) =>
+        !!change.owner &&
+        !!currentAccount &&
+        normalizeSuiAddress(change.owner) === normalizeSuiAddress(currentAccount.address)
+    );
+
+  /**
+   * Open transaction on Sui Explorer
+   */
+  const openInExplorer = (digest: string) => {
+    const link = getExplorerLink(explorerUrl, 'tx', digest);
+    if (link) window.open(link, '_blank');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <History className="h-5 w-5" />
+              <span>{title}</span>
+            </CardTitle>
+            <CardDescription>
+              {description}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={refetch} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground space-x-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span className="text-sm">Loading transactions...</span>
+          </div>
+        ) : error ? (
+          <div className="text-red-600 dark:text-red-400 text-sm">
+            Error loading transactions: {error}
+          </div>
+        ) : transactions.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No transactions found</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {transactions.map((entry) => {
+              const display = CATEGORY_DISPLAY[entry.category];
+              const Icon = display.icon;
+
+              return (
+                <div key={entry.digest} className="p-4 border rounded-lg hover:bg-muted/50 transition-colors space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="outline" className={display.className}>
+                        <Icon className="h-3 w-3 mr-1" />
+                        {display.label}
+                      </Badge>
+                      <Badge variant={entry.success ? 'secondary' : 'destructive'} className="text-xs">
+                        {entry.success ? 'Success' : 'Failed'}
+                      </Badge>
+                      {!history && entry.sender && currentAccount &&
+                        normalizeSuiAddress(entry.sender) !== normalizeSuiAddress(currentAccount.address) && (
+                        <Badge variant="outline" className="text-xs">
+                          Received
+                        </Badge>
+                      )}
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {entry.timestampMs ? new Date(entry.timestampMs).toLocaleString() : 'Pending'}
+                    </span>
+                  </div>
+
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                    {ownChanges(entry).map((change, index) => {
+                      const coin = getCoinInfo(change.coinType);
+                      const isPositive = !change.amount.startsWith('-');
+
+                      return (
+                        <span
+                          key={index}
+                          className={`font-mono ${isPositive ? 'text-green-600' : 'text-red-600'}`}
+                        >
+                          {isPositive ? '+' : '-'}
+                          {formatCoin(change.amount.replace(/^-/, ''), coin.decimals)} {coin.symbol}
+                        </span>
+                      );
+                    })}
+                    {entry.sender && currentAccount &&
+                      normalizeSuiAddress(entry.sender) === normalizeSuiAddress(currentAccount.address) && (
+                      <span className="text-muted-foreground">
+                        Gas: <span className="font-mono">{formatSuiAmount(entry.gasUsed)} SUI</span>
+                      </span>
+                    )}
+                  </div>
+
+                  {entry.error && (
+                    <p className="text-xs text-red-600 dark:text-red-400 break-all">{entry.error}</p>
+                  )}
+
+                  <button
+                    type="button"
+                    onClick={() => openInExplorer(entry.digest)}
+                    disabled={!explorerUrl}
+                    className="flex items-center space-x-1 text-xs text-muted-foreground hover:text-foreground font-mono disabled:hover:text-muted-foreground"
+                  >
+                    <span>{entry.digest.slice(0, 10)}...{entry.digest.slice(-8)}</span>
+                    {explorerUrl && <ExternalLink className="h-3 w-3" />}
+                  </button>
+                </div>
+              );
+            })}
+
+            {hasMore && (
+              <Button variant="outline" className="w-full" onClick={loadMore} disabled={isFetchingMore}>
+                {isFetchingMore ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Loading...
+                  </>
+                ) : (
+                  'Load More'
+                )}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,11 +11,14 @@
 
 "use client";
 
+import Link from "next/link";
 import { WalletConnect } from "@/components/wallet/WalletConnect";
-import { Badge } from "@/components/ui/badge";
+import { NetworkSelector } from "@/components/layout/NetworkSelector";
+import { NetworkMismatchBanner } from "@/components/layout/NetworkMismatchBanner";
 import { useCurrentAccount } from "@mysten/dapp-kit";
+import { useSelectedCoinType } from "@/hooks/useSelectedCoinType";
 import { useWallet } from "@/hooks/useWallet";
-import { formatSUI } from "@/lib/utils";
+import { formatCoin } from "@/lib/utils";
 import { Palette, Coins, Sparkles } from "lucide-react";
 
 // ============================================================================
@@ -28,9 +31,10 @@ import { Palette, Coins, Sparkles } from "lucide-react";
  * This enhanced header provides:
  * - Glassmorphism design with backdrop blur effects
  * - Gradient branding with animated elements
- * - Integrated wallet connection with balance display
+ * - Integrated wallet connection with balance display for the selected coin type
  * - Responsive mobile navigation
- * - Network status indicator
+ * - Network selector for switching the active Sui network
+ * - Blocking banner when the wallet is on a different network than the app
  * - Quick access navigation links
  * - Smooth animations and hover effects
  *
@@ -41,7 +45,8 @@ import { Palette, Coins, Sparkles } from "lucide-react";
  */
 export function Header() {
   const currentAccount = useCurrentAccount();
-  const { balance } = useWallet();
+  const { coinType } = useSelectedCoinType();
+  const { balance, symbol } = useWallet(coinType);
 
   return (
     <header className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
@@ -53,7 +58,7 @@ export function Header() {
           {/* Left: Brand Section */}
           <div className="flex items-center space-x-3 lg:space-x-6">
             {/* Logo and Brand */}
-            <div className="flex items-center space-x-2 lg:space-x-3 group">
+            <Link href="/" className="flex items-center space-x-2 lg:space-x-3 group">
               <div className="relative">
                 {/* Animated logo background */}
                 <div className="absolute inset-0 rounded-xl bg-gradient-to-br from-blue-500/20 to-purple-500/20 blur-sm group-hover:blur-none transition-all duration-300"></div>
@@ -71,30 +76,22 @@ export function Header() {
                   Next-Gen NFT Experience
                 </p>
               </div>
-            </div>
+            </Link>
           </div>
 
-          {/* Center: Network Status */}
-          {currentAccount && (
-            <div className="flex items-center space-x-2 lg:space-x-3">
-              <Badge
-                variant="outline"
-                className="bg-green-50 border-green-200 text-green-700 dark:bg-green-950/20 dark:border-green-800 dark:text-green-400 text-xs"
-              >
-                <div className="w-1.5 h-1.5 lg:w-2 lg:h-2 bg-green-500 rounded-full mr-1 lg:mr-2 animate-pulse"></div>
-                <span className="hidden sm:inline">Sui </span>Testnet
-              </Badge>
+          {/* Center: Network Selector & Balance */}
+          <div className="flex items-center space-x-2 lg:space-x-3">
+            <NetworkSelector />
 
-              {balance && (
-                <div className="flex items-center space-x-1 lg:space-x-2 bg-muted/50 rounded-full px-2 lg:px-3 py-1 lg:py-1.5">
-                  <Coins className="h-3 w-3 lg:h-4 lg:w-4 text-blue-600" />
-                  <span className="text-xs lg:text-sm font-medium font-mono">
-                    {formatSUI(balance)} SUI
-                  </span>
-                </div>
-              )}
-            </div>
-          )}
+            {currentAccount && balance && (
+              <div className="flex items-center space-x-1 lg:space-x-2 bg-muted/50 rounded-full px-2 lg:px-3 py-1 lg:py-1.5">
+                <Coins className="h-3 w-3 lg:h-4 lg:w-4 text-blue-600" />
+                <span className="text-xs lg:text-sm font-medium font-mono">
+                  {formatCoin(balance, 0)} {symbol}
+                </span>
+              </div>
+            )}
+          </div>
 
           {/* Right: Quick Actions & Wallet Connection */}
           <div className="flex items-center space-x-1 lg:space-x-3">
@@ -105,6 +102,9 @@ export function Header() {
           </div>
         </div>
       </div>
+
+      {/* Wallet/app network mismatch warning */}
+      <NetworkMismatchBanner />
     </header>
   );
 }
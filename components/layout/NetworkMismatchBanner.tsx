@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Network Mismatch Banner Component
+ *
+ * This component warns when the connected wallet is on a different chain than
+ * the app's active network. Transactions are blocked in that state, so the
+ * banner offers to switch the app to the wallet's network.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useSuiClientContext } from '@mysten/dapp-kit';
+import { Button } from '@/components/ui/button';
+import { useNetworkMismatch } from '@/hooks/useNetworkMismatch';
+import { NETWORK_NAMES } from '@/lib/suiClient';
+import { SuiNetwork } from '@/types/sui';
+import { AlertTriangle, ArrowRightLeft } from 'lucide-react';
+
+// ============================================================================
+// NETWORK MISMATCH BANNER COMPONENT
+// ============================================================================
+
+/**
+ * Network Mismatch Banner Component
+ *
+ * Features:
+ * - Hidden while the wallet and app networks match
+ * - Names both networks and explains that transactions are disabled
+ * - "Switch app network" action when the wallet's network is configured,
+ *   otherwise asks the user to change the network in their wallet
+ *
+ * @returns JSX element containing the banner, or null when the networks match
+ *
+ * @example
+ * ```tsx
+ * <header>
+ *   ...
+ *   <NetworkMismatchBanner />
+ * </header>
+ * ```
+ */
+export function NetworkMismatchBanner() {
+  const { network } = useSuiClientContext();
+  const { isMismatch, walletNetwork, walletChains, switchToWalletNetwork } = useNetworkMismatch();
+
+  if (!isMismatch) return null;
+
+  const appNetworkName = NETWORK_NAMES[network as SuiNetwork] ?? network;
+  const walletNetworkName = walletNetwork ? NETWORK_NAMES[walletNetwork] : walletChains.join(', ');
+
+  return (
+    <div className="relative border-t border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-950">
+      <div className="container mx-auto px-4 py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div className="flex items-start space-x-2 text-sm text-red-800 dark:text-red-200">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <p>
+            Your wallet is on <span className="font-medium">Sui {walletNetworkName}</span> but the app is on{' '}
+            <span className="font-medium">Sui {appNetworkName}</span>. Transactions are disabled until both use the
+            same network{walletNetwork ? '.' : ', switch networks in your wallet.'}
+          </p>
+        </div>
+
+        {walletNetwork && (
+          <Button size="sm" variant="destructive" onClick={switchToWalletNetwork} className="flex-shrink-0">
+            <ArrowRightLeft className="mr-2 h-3 w-3" />
+            Switch app network to {walletNetworkName}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Network Selector Component
+ *
+ * This component shows the Sui network the app is connected to and lets the
+ * user switch between the networks registered in `networkConfig`. The choice
+ * is persisted, and every network-scoped query and variable follows it.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useSuiClientContext } from '@mysten/dapp-kit';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { NETWORK_NAMES } from '@/lib/suiClient';
+import { SuiNetwork } from '@/types/sui';
+import { ChevronDown } from 'lucide-react';
+
+// ============================================================================
+// NETWORK SELECTOR COMPONENT
+// ============================================================================
+
+/**
+ * Network Selector Component
+ *
+ * Features:
+ * - Badge-style trigger showing the active network
+ * - Mainnet highlighted differently from the test networks
+ * - Radio list of every configured network
+ *
+ * @returns JSX element containing the network selector
+ *
+ * @example
+ * ```tsx
+ * <NetworkSelector />
+ * ```
+ */
+export function NetworkSelector() {
+  const { network, networks, selectNetwork } = useSuiClientContext();
+
+  const isMainnet = network === 'mainnet';
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={`h-7 px-2 text-xs ${
+            isMainnet
+              ? 'bg-blue-50 border-blue-200 text-blue-700 dark:bg-blue-950/20 dark:border-blue-800 dark:text-blue-400'
+              : 'bg-green-50 border-green-200 text-green-700 dark:bg-green-950/20 dark:border-green-800 dark:text-green-400'
+          }`}
+        >
+          <div
+            className={`w-1.5 h-1.5 lg:w-2 lg:h-2 rounded-full mr-1 lg:mr-2 animate-pulse ${
+              isMainnet ? 'bg-blue-500' : 'bg-green-500'
+            }`}
+          ></div>
+          <span className="hidden sm:inline">Sui&nbsp;</span>
+          {NETWORK_NAMES[network as SuiNetwork] ?? network}
+          <ChevronDown className="h-3 w-3 ml-1" />
+        </Button>
+      </DropdownMenuTrigger>
+
+      <DropdownMenuContent align="center" className="w-40">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">Network</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={network} onValueChange={selectNetwork}>
+          {Object.keys(networks).map((name) => (
+            <DropdownMenuRadioItem key={name} value={name} className="text-sm">
+              {NETWORK_NAMES[name as SuiNetwork] ?? name}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,335 @@
+/**
+ * @fileoverview Bulk Mint Form Component
+ *
+ * This component mints every NFT of a CSV or JSON manifest, validating each
+ * row with the same schema as the single mint form, and checks every row's
+ * image on the server like the single mint form does. NFTs are packed into as
+ * few transactions as the size limits allow, and their progress is listed per
+ * row with the transaction digest and minted object ID.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { ChangeEvent, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { useBulkMint } from '@/hooks/useBulkMint';
+import { useContract } from '@/hooks/useContract';
+import { useImageUrlValidation } from '@/hooks/useImageUrlValidation';
+import { parseMintManifest } from '@/lib/nft';
+import { getExplorerLink, useNetworkVariable } from '@/lib/suiClient';
+import { packMintBatches } from '@/lib/transactionUtils';
+import { BulkMintItem, ValidatedImageUrl } from '@/types/sui';
+import { AlertCircle, FileUp, Loader2, Play, RotateCcw, Zap } from 'lucide-react';
+import { toast } from 'sonner';
+
+// ============================================================================
+// BULK MINT FORM COMPONENT
+// ============================================================================
+
+/**
+ * Example manifest shown as the textarea placeholder
+ */
+const MANIFEST_PLACEHOLDER = `name,description,image_url
+Cosmic Dragon #1,"A dragon soaring through nebulae",https://example.com/dragon-1.png
+Cosmic Dragon #2,"A dragon, resting",https://example.com/dragon-2.png`;
+
+/**
+ * Number of image URLs checked at the same time
+ */
+const IMAGE_CHECK_CONCURRENCY = 4;
+
+/**
+ * Badge styles of each bulk mint status
+ */
+const STATUS_STYLES: Record<BulkMintItem['status'], string> = {
+  pending: 'bg-gray-100 text-gray-800 border-gray-200',
+  minting: 'bg-blue-100 text-blue-800 border-blue-200',
+  minted: 'bg-green-100 text-green-800 border-green-200',
+  failed: 'bg-red-100 text-red-800 border-red-200',
+};
+
+/**
+ * Shorten an object ID or digest for display
+ */
+const shorten = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+/**
+ * Props for the Bulk Mint Form component
+ */
+interface BulkMintFormProps {
+  /** Optional callback once every NFT of the manifest is minted */
+  onMintSuccess?: () => void;
+}
+
+/**
+ * Bulk Mint Form Component
+ *
+ * Features:
+ * - Paste a manifest or load a `.csv` / `.json` file
+ * - Every row validated with the mint form schema, with errors listed by row
+ * - Recipient columns rejected when no mint-to function is configured
+ * - Every row's image checked on the server before minting, and minted with
+ *   its normalized URL
+ * - Transaction count shown before minting
+ * - Progress table with status, digest and object ID per row
+ * - Resume after a failed or cancelled transaction, skipping minted rows
+ *
+ * @param props - Component props
+ * @returns JSX element containing the bulk mint form
+ *
+ * @example
+ * ```tsx
+ * <BulkMintForm onMintSuccess={() => setActiveTab('nfts')} />
+ * ```
+ */
+export function BulkMintForm({ onMintSuccess }: BulkMintFormProps) {
+  const [manifest, setManifest] = useState('');
+  const [imageErrors, setImageErrors] = useState<string[]>([]);
+  const [isCheckingImages, setIsCheckingImages] = useState(false);
+  const { items, start, resume, reset, isRunning } = useBulkMint();
+  const { validate } = useImageUrlValidation();
+  const { targets } = useContract();
+  const explorerUrl = useNetworkVariable('explorerUrl');
+  const canMintTo = !!targets?.mint_to;
+
+  const { rows, errors: manifestErrors } = useMemo(
+    () => parseMintManifest(manifest, canMintTo),
+    [manifest, canMintTo]
+  );
+  const transactionCount = useMemo(() => packMintBatches(rows, (row) => row).length, [rows]);
+  const errors = [...manifestErrors, ...imageErrors];
+
+  const mintedCount = items.filter((item) => item.status === 'minted').length;
+  const remainingCount = items.length - mintedCount;
+  // The manifest is locked while it has progress, so finished rows are never minted twice
+  const isLocked = isRunning || isCheckingImages || items.length > 0;
+  const canStart = rows.length > 0 && errors.length === 0 && !isLocked;
+  const isComplete = items.length > 0 && remainingCount === 0;
+
+  /**
+   * Replace the manifest, dropping the image errors of the previous one
+   */
+  const updateManifest = (text: string) => {
+    setManifest(text);
+    setImageErrors([]);
+  };
+
+  /**
+   * Check every row's image on the server, then mint the rows with their normalized URLs
+   */
+  const handleStart = async () => {
+    const results: (ValidatedImageUrl | Error)[] = new Array(rows.length);
+    let next = 0;
+    const checkNext = async () => {
+      while (next < rows.length) {
+        const index = next++;
+        results[index] = await validate(rows[index].image_url).catch((err) =>
+          err instanceof Error ? err : new Error('The image could not be validated')
+        );
+      }
+    };
+
+    setIsCheckingImages(true);
+    try {
+      await Promise.all(Array.from({ length: Math.min(IMAGE_CHECK_CONCURRENCY, rows.length) }, checkNext));
+    } finally {
+      setIsCheckingImages(false);
+    }
+
+    // Rows can only be minted when the manifest has no errors, so their index matches the manifest row
+    const failures = results.flatMap((result, index) =>
+      result instanceof Error ? [`Row ${index + 1}: image_url: ${result.message}`] : []
+    );
+    if (failures.length > 0) {
+      setImageErrors(failures);
+      return;
+    }
+
+    await start(rows.map((row, index) => ({ ...row, image_url: (results[index] as ValidatedImageUrl).url })));
+  };
+
+  /**
+   * Load a manifest file into the textarea
+   */
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      updateManifest(await file.text());
+    } catch {
+      toast.error(`Failed to read ${file.name}`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Manifest Input */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="bulk-mint-manifest">Manifest</Label>
+          <Button variant="outline" size="sm" asChild disabled={isLocked}>
+            <label className="cursor-pointer">
+              <FileUp className="mr-2 h-4 w-4" />
+              Load CSV or JSON
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                onChange={handleFile}
+                disabled={isLocked}
+              />
+            </label>
+          </Button>
+        </div>
+        <textarea
+          id="bulk-mint-manifest"
+          className="flex min-h-[160px] w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+          placeholder={MANIFEST_PLACEHOLDER}
+          value={manifest}
+          onChange={(e) => updateManifest(e.target.value)}
+          disabled={isLocked}
+        />
+        <p className="text-sm text-muted-foreground">
+          {isLocked
+            ? 'Clear the progress to edit the manifest'
+            : canMintTo
+              ? 'CSV with a name,description,image_url header, or a JSON array of objects with those fields. An optional recipient column mints that row to another address'
+              : 'CSV with a name,description,image_url header, or a JSON array of objects with those fields'}
+        </p>
+      </div>
+
+      {/* Validation Errors */}
+      {errors.length > 0 && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-3 dark:border-red-800 dark:bg-red-950">
+          <div className="mb-1 flex items-center space-x-2 text-sm font-medium text-red-800 dark:text-red-200">
+            <AlertCircle className="h-4 w-4" />
+            <span>
+              {errors.length} problem{errors.length === 1 ? '' : 's'} found
+            </span>
+          </div>
+          <ul className="max-h-40 space-y-0.5 overflow-y-auto text-xs text-red-700 dark:text-red-300">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <Button className="flex-1" size="lg" onClick={handleStart} disabled={!canStart}>
+          {isCheckingImages ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Checking {rows.length} image{rows.length === 1 ? '' : 's'}...
+            </>
+          ) : isRunning ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Minting {mintedCount} of {items.length}...
+            </>
+          ) : (
+            <>
+              <Zap className="mr-2 h-4 w-4" />
+              {rows.length > 0
+                ? `Mint ${rows.length} NFT${rows.length === 1 ? '' : 's'} in ${transactionCount} transaction${transactionCount === 1 ? '' : 's'}`
+                : 'Mint NFTs'}
+            </>
+          )}
+        </Button>
+        {!isRunning && remainingCount > 0 && (
+          <Button variant="outline" size="lg" onClick={resume}>
+            <Play className="mr-2 h-4 w-4" />
+            Resume ({remainingCount} left)
+          </Button>
+        )}
+        {!isRunning && items.length > 0 && (
+          <Button variant="ghost" size="lg" onClick={reset}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Clear Progress
+          </Button>
+        )}
+      </div>
+
+      {isComplete && onMintSuccess && (
+        <div className="flex items-center justify-between rounded-lg border border-green-200 bg-green-50 p-3 text-sm text-green-800 dark:border-green-800 dark:bg-green-950 dark:text-green-200">
+          <span>All {items.length} NFTs minted</span>
+          <Button variant="outline" size="sm" onClick={onMintSuccess}>
+            View Gallery
+          </Button>
+        </div>
+      )}
+
+      {/* Progress Table */}
+      {items.length > 0 && (
+        <div className="max-h-96 overflow-auto rounded-lg border">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-muted">
+              <tr className="text-left">
+                <th className="px-3 py-2 font-medium">#</th>
+                <th className="px-3 py-2 font-medium">Name</th>
+                <th className="px-3 py-2 font-medium">Status</th>
+                <th className="px-3 py-2 font-medium">Transaction</th>
+                <th className="px-3 py-2 font-medium">Object</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item) => {
+                const txLink = item.digest ? getExplorerLink(explorerUrl, 'tx', item.digest) : null;
+                const objectLink = item.objectId ? getExplorerLink(explorerUrl, 'object', item.objectId) : null;
+
+                return (
+                  <tr key={item.row} className="border-t">
+                    <td className="px-3 py-2 text-muted-foreground">{item.row}</td>
+                    <td className="max-w-[12rem] truncate px-3 py-2" title={item.data.name}>
+                      {item.data.name}
+                    </td>
+                    <td className="px-3 py-2">
+                      <Badge variant="outline" className={STATUS_STYLES[item.status]} title={item.error}>
+                        {item.status === 'minting' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                        {item.status}
+                      </Badge>
+                    </td>
+                    <td className="px-3 py-2 font-mono text-xs">
+                      {item.digest ? (
+                        txLink ? (
+                          <a href={txLink} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                            {shorten(item.digest)}
+                          </a>
+                        ) : (
+                          shorten(item.digest)
+                        )
+                      ) : (
+                        '—'
+                      )}
+                    </td>
+                    <td className="px-3 py-2 font-mono text-xs">
+                      {item.objectId ? (
+                        objectLink ? (
+                          <a href={objectLink} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                            {shorten(item.objectId)}
+                          </a>
+                        ) : (
+                          shorten(item.objectId)
+                        )
+                      ) : (
+                        '—'
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Image Dropzone Component
+ *
+ * This component lets users drop or pick an image file to use as an NFT's
+ * image. The file is uploaded to the app's storage backend and the resulting
+ * URL is handed back to the mint form.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { DragEvent, useRef, useState } from 'react';
+import { useImageUpload } from '@/hooks/useImageUpload';
+import { MAX_FILE_SIZE, SUPPORTED_IMAGE_TYPES } from '@/lib/constants';
+import { formatFileSize } from '@/lib/images';
+import { StoredImage } from '@/types/sui';
+import { Loader2, Upload } from 'lucide-react';
+
+// ============================================================================
+// IMAGE DROPZONE COMPONENT
+// ============================================================================
+
+/**
+ * Props for the Image Dropzone component
+ */
+interface ImageDropzoneProps {
+  /** Callback with the stored image once an upload succeeds */
+  onUploaded: (image: StoredImage) => void;
+  /** Whether uploads are disabled, e.g. while minting */
+  disabled?: boolean;
+}
+
+/**
+ * Image Dropzone Component
+ *
+ * Features:
+ * - Drag and drop, or click to choose a file
+ * - Validation against the supported image types and maximum size before upload
+ * - Upload progress and error display
+ *
+ * @param props - Component props
+ * @returns JSX element containing the dropzone
+ *
+ * @example
+ * ```tsx
+ * <ImageDropzone onUploaded={(image) => form.setValue('image_url', image.url)} />
+ * ```
+ */
+export function ImageDropzone({ onUploaded, disabled = false }: ImageDropzoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const { upload, isUploading, error } = useImageUpload();
+  const isDisabled = disabled || isUploading;
+
+  /**
+   * Upload the first of the chosen or dropped files
+   */
+  const handleFiles = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file || isDisabled) return;
+
+    const image = await upload(file);
+    if (image) onUploaded(image);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    void handleFiles(event.dataTransfer.files);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        role="button"
+        tabIndex={isDisabled ? -1 : 0}
+        aria-disabled={isDisabled}
+        onClick={() => !isDisabled && inputRef.current?.click()}
+        onKeyDown={(event) => {
+          if (!isDisabled && (event.key === 'Enter' || event.key === ' ')) {
+            event.preventDefault();
+            inputRef.current?.click();
+          }
+        }}
+        onDragOver={(event) => {
+          event.preventDefault();
+          if (!isDisabled) setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center rounded-lg border-2 border-dashed p-6 text-center transition-colors ${
+          isDisabled ? 'cursor-not-allowed opacity-60' : 'cursor-pointer hover:border-blue-400 hover:bg-muted/50'
+        } ${isDragging ? 'border-blue-500 bg-blue-50 dark:bg-blue-950' : 'border-input'}`}
+      >
+        {isUploading ? (
+          <>
+            <Loader2 className="mb-2 h-8 w-8 animate-spin text-blue-600" />
+            <p className="text-sm font-medium">Uploading image...</p>
+          </>
+        ) : (
+          <>
+            <Upload className="mb-2 h-8 w-8 text-muted-foreground" />
+            <p className="text-sm font-medium">Drop an image here, or click to choose a file</p>
+            <p className="text-xs text-muted-foreground">
+              JPEG, PNG, GIF or WebP, up to {formatFileSize(MAX_FILE_SIZE)}
+            </p>
+          </>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept={SUPPORTED_IMAGE_TYPES.join(',')}
+          className="hidden"
+          disabled={isDisabled}
+          onChange={(event) => {
+            void handleFiles(event.target.files);
+            // Allow choosing the same file again
+            event.target.value = '';
+          }}
+        />
+      </div>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
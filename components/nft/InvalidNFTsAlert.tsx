@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Invalid NFTs Alert Component
+ *
+ * This component lists owned objects of the NFT type whose fields do not match
+ * the NFT schema, so malformed objects are reported instead of being shown
+ * with default values.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { InvalidNFTObject } from '@/types/sui';
+import { AlertTriangle } from 'lucide-react';
+
+// ============================================================================
+// INVALID NFTS ALERT COMPONENT
+// ============================================================================
+
+/**
+ * Props for the Invalid NFTs Alert component
+ */
+interface InvalidNFTsAlertProps {
+  /** Objects that could not be parsed as NFTs */
+  invalidObjects: InvalidNFTObject[];
+}
+
+/**
+ * Invalid NFTs Alert Component
+ *
+ * Features:
+ * - Hidden when every loaded object is a valid NFT
+ * - Shows the object ID and validation error of each invalid object
+ *
+ * @param props - Component props
+ * @returns JSX element containing the alert, or null when there is nothing to report
+ *
+ * @example
+ * ```tsx
+ * <InvalidNFTsAlert invalidObjects={invalidObjects} />
+ * ```
+ */
+export function InvalidNFTsAlert({ invalidObjects }: InvalidNFTsAlertProps) {
+  if (invalidObjects.length === 0) return null;
+
+  return (
+    <Card className="border-red-200 bg-red-50 dark:bg-red-950 dark:border-red-800">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center space-x-2 text-red-800 dark:text-red-200">
+          <AlertTriangle className="h-4 w-4" />
+          <span>
+            {invalidObjects.length} NFT{invalidObjects.length === 1 ? '' : 's'} could not be read
+          </span>
+        </CardTitle>
+        <CardDescription className="text-red-600 dark:text-red-400">
+          These objects have the NFT type but their fields do not match the expected shape.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-2 max-h-40 overflow-y-auto text-sm text-red-700 dark:text-red-300">
+          {invalidObjects.map((object) => (
+            <li key={object.objectId}>
+              <span className="font-mono">
+                {object.objectId.slice(0, 8)}...{object.objectId.slice(-6)}
+              </span>
+              : {object.error}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,51 +11,25 @@
 
 'use client';
 
-import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { BulkMintForm } from '@/components/nft/BulkMintForm';
+import { ImageDropzone } from '@/components/nft/ImageDropzone';
+import { useContract } from '@/hooks/useContract';
+import { useImageUrlValidation } from '@/hooks/useImageUrlValidation';
 import { useMintNFT } from '@/hooks/useMintNFT';
+import { formatFileSize, isDataUri, uploadDataUri } from '@/lib/images';
+import { MintFormData, mintFormSchema } from '@/lib/nft';
+import { ValidatedImageUrl } from '@/types/sui';
 import { useCurrentAccount } from '@mysten/dapp-kit';
-import { Loader2, Zap } from 'lucide-react';
+import { AlertCircle, CheckCircle2, Loader2, Zap } from 'lucide-react';
 import { toast } from 'sonner';
 
-// ============================================================================
-// FORM VALIDATION SCHEMA
-// ============================================================================
-
-/**
- * Zod schema for NFT minting form validation
- * 
- * Defines validation rules for:
- * - Name: Required, 1-100 characters
- * - Description: Required, 1-500 characters  
- * - Image URL: Required, valid URL format
- */
-const mintFormSchema = z.object({
-  name: z.string()
-    .min(1, 'Name is required')
-    .max(100, 'Name must be less than 100 characters')
-    .trim(),
-  description: z.string()
-    .min(1, 'Description is required')
-    .max(500, 'Description must be less than 500 characters')
-    .trim(),
-  image_url: z.string()
-    .min(1, 'Image URL is required')
-    .url('Please enter a valid URL')
-    .trim(),
-});
-
-/**
- * Type definition for form data based on validation schema
- */
-type MintFormData = z.infer<typeof mintFormSchema>;
-
 // ============================================================================
 // MINT FORM COMPONENT
 // ============================================================================
@@ -73,7 +47,12 @@ interface MintFormProps {
  * 
  * This component provides a complete NFT minting interface that:
  * - Validates user input using Zod schema
+ * - Accepts an image URL, or an image file uploaded to the app's storage backend
+ * - Checks the image URL on the server before minting, see `useImageUrlValidation`
+ * - Optionally mints to another address instead of the connected wallet, when
+ *   the contract's mint-to function is configured
  * - Handles form submission and transaction processing
+ * - Bulk mode minting a CSV or JSON manifest, see `BulkMintForm`
  * - Provides real-time feedback during minting process
  * - Shows success/error states with appropriate messaging
  * - Resets form after successful minting
@@ -98,7 +77,8 @@ interface MintFormProps {
 export function MintForm({ onMintSuccess }: MintFormProps) {
   const currentAccount = useCurrentAccount();
   const { mintNFT, isLoading } = useMintNFT();
-  const [imagePreview, setImagePreview] = useState<string>('');
+  const { targets } = useContract();
+  const canMintTo = !!targets?.mint_to;
 
   // Initialize form with validation
   const form = useForm<MintFormData>({
@@ -107,9 +87,18 @@ export function MintForm({ onMintSuccess }: MintFormProps) {
       name: '',
       description: '',
       image_url: '',
+      recipient: '',
     },
   });
 
+  const {
+    image,
+    isValidating: isValidatingImage,
+    error: imageError,
+    validate: validateImage,
+  } = useImageUrlValidation(form.watch('image_url'));
+  const isSubmitting = form.formState.isSubmitting;
+
   /**
    * Handle form submission and NFT minting
    * 
@@ -121,47 +110,40 @@ export function MintForm({ onMintSuccess }: MintFormProps) {
       return;
     }
 
+    // NFT metadata is permanent, so the image is checked on the server first
+    let validatedImage: ValidatedImageUrl;
     try {
-      toast.loading('Minting NFT...', { id: 'mint-nft' });
-      
-      await mintNFT({
-        name: data.name,
-        description: data.description,
-        image_url: data.image_url,
-      });
+      validatedImage = await validateImage(data.image_url);
+    } catch (err) {
+      form.setError('image_url', { message: err instanceof Error ? err.message : 'The image could not be validated' });
+      return;
+    }
 
-      toast.success('NFT minted successfully! 🎉 Check your gallery in a few seconds.', { id: 'mint-nft' });
-      
-      // Reset form after successful mint
-      form.reset();
-      setImagePreview('');
-      
-      // Trigger callback to refresh NFT gallery after a brief delay
-      // This allows the blockchain to process and index the new NFT
-      if (onMintSuccess) {
-        setTimeout(() => {
-          onMintSuccess();
-        }, 2000); // 2 second delay to ensure transaction is processed
+    // Data URIs are only stored now that they are minted, and the stored URL is
+    // checked again, since it must be publicly reachable too
+    let imageUrl = validatedImage.url;
+    if (isDataUri(imageUrl)) {
+      try {
+        imageUrl = (await validateImage((await uploadDataUri(imageUrl)).url)).url;
+      } catch (err) {
+        form.setError('image_url', { message: err instanceof Error ? err.message : 'Failed to upload image' });
+        return;
       }
-      
-    } catch (error) {
-      console.error('Minting failed:', error);
-      toast.error('Failed to mint NFT. Please try again.', { id: 'mint-nft' });
     }
-  };
 
-  /**
-   * Handle image URL changes and update preview
-   * 
-   * @param url - Image URL to preview
-   */
-  const handleImageUrlChange = (url: string) => {
-    setImagePreview(url);
-    // Clear preview if URL is invalid
-    const img = new Image();
-    img.onload = () => setImagePreview(url);
-    img.onerror = () => setImagePreview('');
-    img.src = url;
+    // The mint hook reports success and failure; the gallery cache is
+    // already updated with the new NFT once the mint is confirmed
+    const result = await mintNFT({
+      name: data.name,
+      description: data.description,
+      image_url: imageUrl,
+      recipient: canMintTo && data.recipient ? data.recipient : undefined,
+    });
+    if (!result.success) return;
+
+    // Reset form after successful mint
+    form.reset();
+    onMintSuccess?.();
   };
 
   // Show wallet connection prompt if not connected
@@ -189,133 +171,198 @@ export function MintForm({ onMintSuccess }: MintFormProps) {
           <span>Mint New NFT</span>
         </CardTitle>
         <CardDescription>
-          Create a unique NFT on the Sui blockchain with custom metadata
+          Create a unique NFT on the Sui blockchain with custom metadata, or many at once from a manifest
         </CardDescription>
       </CardHeader>
       
       <CardContent>
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <Tabs defaultValue="single" className="space-y-6">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="single">Single</TabsTrigger>
+            <TabsTrigger value="bulk">Bulk</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="single">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             
-            {/* NFT Name Field */}
-            <FormField
-              control={form.control}
-              name="name"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>NFT Name</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="Enter NFT name (e.g., 'Cosmic Dragon')"
-                      {...field}
-                      disabled={isLoading}
-                    />
-                  </FormControl>
-                  <FormDescription>
-                    A unique name for your NFT (1-100 characters)
-                  </FormDescription>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+                {/* NFT Name Field */}
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>NFT Name</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="Enter NFT name (e.g., 'Cosmic Dragon')"
+                          {...field}
+                          disabled={isLoading}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        A unique name for your NFT (1-100 characters)
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-            {/* NFT Description Field */}
-            <FormField
-              control={form.control}
-              name="description"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Description</FormLabel>
-                  <FormControl>
-                    <textarea
-                      className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                      placeholder="Describe your NFT (e.g., 'A powerful dragon soaring through cosmic nebulae...')"
-                      disabled={isLoading}
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormDescription>
-                    Detailed description of your NFT (1-500 characters)
-                  </FormDescription>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+                {/* NFT Description Field */}
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description</FormLabel>
+                      <FormControl>
+                        <textarea
+                          className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                          placeholder="Describe your NFT (e.g., 'A powerful dragon soaring through cosmic nebulae...')"
+                          disabled={isLoading}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Detailed description of your NFT (1-500 characters)
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-            {/* Image URL Field */}
-            <FormField
-              control={form.control}
-              name="image_url"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Image URL</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="https://example.com/image.png"
-                      {...field}
-                      disabled={isLoading}
-                      onChange={(e) => {
-                        field.onChange(e);
-                        handleImageUrlChange(e.target.value);
-                      }}
-                    />
-                  </FormControl>
-                  <FormDescription>
-                    Direct URL to your NFT image (HTTPS recommended)
-                  </FormDescription>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+                {/* Image URL Field */}
+                <FormField
+                  control={form.control}
+                  name="image_url"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Image URL</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="https://example.com/image.png"
+                          {...field}
+                          disabled={isLoading}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        HTTPS, ipfs:// or data: URL of your NFT image, or upload an image below
+                      </FormDescription>
+                      <FormMessage />
+                      {isValidatingImage ? (
+                        <p className="flex items-center text-sm text-muted-foreground">
+                          <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                          Checking image...
+                        </p>
+                      ) : imageError ? (
+                        <p className="flex items-center text-sm text-red-600 dark:text-red-400">
+                          <AlertCircle className="mr-1 h-3 w-3" />
+                          {imageError}
+                        </p>
+                      ) : image ? (
+                        <p className="flex items-center text-sm text-green-700 dark:text-green-400">
+                          <CheckCircle2 className="mr-1 h-3 w-3" />
+                          {image.contentType.replace('image/', '').toUpperCase()} image, {formatFileSize(image.size)}
+                        </p>
+                      ) : null}
+                    </FormItem>
+                  )}
+                />
 
-            {/* Image Preview */}
-            {imagePreview && (
-              <div className="space-y-2">
-                <FormLabel>Image Preview</FormLabel>
-                <div className="border rounded-lg p-4 bg-muted/50">
-                  <img
-                    src={imagePreview}
-                    alt="NFT Preview"
-                    className="max-w-full h-auto max-h-64 mx-auto rounded-lg shadow-sm"
-                    onError={() => setImagePreview('')}
+                {/* Image Upload */}
+                <div className="space-y-2">
+                  <FormLabel>Upload Image</FormLabel>
+                  <ImageDropzone
+                    disabled={isLoading}
+                    onUploaded={(uploaded) =>
+                      form.setValue('image_url', uploaded.url, { shouldValidate: true, shouldDirty: true })
+                    }
                   />
                 </div>
-              </div>
-            )}
 
-            {/* Submit Button */}
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={isLoading}
-              size="lg"
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Minting NFT...
-                </>
-              ) : (
-                <>
-                  <Zap className="mr-2 h-4 w-4" />
-                  Mint NFT
-                </>
-              )}
-            </Button>
+                {/* Image Preview */}
+                {image && (
+                  <div className="space-y-2">
+                    <FormLabel>Image Preview</FormLabel>
+                    <div className="border rounded-lg p-4 bg-muted/50">
+                      <img
+                        src={image.url}
+                        alt="NFT Preview"
+                        className="max-w-full h-auto max-h-64 mx-auto rounded-lg shadow-sm"
+                      />
+                    </div>
+                  </div>
+                )}
 
-            {/* Form Status */}
-            {isLoading && (
-              <div className="text-center p-4 bg-blue-50 dark:bg-blue-950 rounded-lg border border-blue-200 dark:border-blue-800">
-                <div className="flex items-center justify-center space-x-2 text-blue-700 dark:text-blue-300">
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                  <span className="text-sm">
-                    Processing transaction on Sui blockchain...
-                  </span>
-                </div>
-              </div>
-            )}
-          </form>
-        </Form>
+                {/* Recipient Field */}
+                <FormField
+                  control={form.control}
+                  name="recipient"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Recipient (optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="0x..."
+                          className="font-mono"
+                          {...field}
+                          disabled={isLoading || !canMintTo}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        {canMintTo
+                          ? 'Address to mint the NFT to, leave empty to mint to your wallet'
+                          : 'Minting to another address needs a mint-to function (NEXT_PUBLIC_MINT_TO_FUNCTION)'}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Submit Button */}
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoading || isSubmitting}
+                  size="lg"
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Minting NFT...
+                    </>
+                  ) : isSubmitting ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Checking image...
+                    </>
+                  ) : (
+                    <>
+                      <Zap className="mr-2 h-4 w-4" />
+                      Mint NFT
+                    </>
+                  )}
+                </Button>
+
+                {/* Form Status */}
+                {isLoading && (
+                  <div className="text-center p-4 bg-blue-50 dark:bg-blue-950 rounded-lg border border-blue-200 dark:border-blue-800">
+                    <div className="flex items-center justify-center space-x-2 text-blue-700 dark:text-blue-300">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      <span className="text-sm">
+                        Processing transaction on Sui blockchain...
+                      </span>
+                    </div>
+                  </div>
+                )}
+              </form>
+            </Form>
+          </TabsContent>
+
+          <TabsContent value="bulk">
+            <BulkMintForm onMintSuccess={onMintSuccess} />
+          </TabsContent>
+        </Tabs>
       </CardContent>
     </Card>
   );
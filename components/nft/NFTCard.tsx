@@ -11,12 +11,16 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
-import { SimpleNFT } from '@/types/sui';
-import { TrendingUp, ExternalLink, ImageIcon, AlertCircle, Copy } from 'lucide-react';
+import { TransferNFTDialog } from './TransferNFTDialog';
+import { getLevelBand } from '@/lib/nft';
+import { getExplorerLink, useNetworkVariable } from '@/lib/suiClient';
+import { LevelUpProgress, SimpleNFT } from '@/types/sui';
+import { TrendingUp, ExternalLink, ImageIcon, AlertCircle, Copy, Send, CheckCircle2, XCircle } from 'lucide-react';
 import { toast } from 'sonner';
 
 // ============================================================================
@@ -33,6 +37,14 @@ interface NFTCardProps {
   onLevelUp?: (nftId: string) => void;
   /** Whether level up action is currently loading */
   isLevelingUp?: boolean;
+  /** Progress of this NFT within the latest level-up transaction */
+  levelUpProgress?: LevelUpProgress;
+  /** Whether the NFT is selected for a batch action */
+  isSelected?: boolean;
+  /** Optional callback when the NFT is selected or deselected (shows a checkbox) */
+  onSelectChange?: (nftId: string, selected: boolean) => void;
+  /** Whether the NFT belongs to someone else, hiding the transfer action */
+  readOnly?: boolean;
   /** Optional custom styling classes */
   className?: string;
 }
@@ -45,7 +57,10 @@ interface NFTCardProps {
  * - NFT metadata (name, description, level)
  * - Level indicator badge with color coding
  * - Level up functionality (when available)
+ * - Selection checkbox and level-up progress for batch level-ups
  * - Copy NFT ID functionality
+ * - Link to the NFT's shareable detail page
+ * - Transfer to another address via a dialog (hidden when read-only)
  * - Responsive design and hover effects
  * 
  * The card automatically handles:
@@ -78,9 +93,20 @@ interface NFTCardProps {
  * }
  * ```
  */
-export function NFTCard({ nft, onLevelUp, isLevelingUp = false, className = '' }: NFTCardProps) {
+export function NFTCard({
+  nft,
+  onLevelUp,
+  isLevelingUp = false,
+  levelUpProgress,
+  isSelected = false,
+  onSelectChange,
+  readOnly = false,
+  className = '',
+}: NFTCardProps) {
   const [imageLoaded, setImageLoaded] = useState(false);
   const [imageError, setImageError] = useState(false);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const explorerLink = getExplorerLink(useNetworkVariable('explorerUrl'), 'object', nft.id.id);
 
   /**
    * Get level-based color styling for the NFT level badge
@@ -88,12 +114,7 @@ export function NFTCard({ nft, onLevelUp, isLevelingUp = false, className = '' }
    * @param level - NFT level number
    * @returns Tailwind CSS classes for badge styling
    */
-  const getLevelColor = (level: number) => {
-    if (level >= 10) return 'bg-purple-600 text-white border-purple-700';
-    if (level >= 5) return 'bg-blue-600 text-white border-blue-700';
-    if (level >= 3) return 'bg-green-600 text-white border-green-700';
-    return 'bg-gray-600 text-white border-gray-700';
-  };
+  const getLevelColor = (level: number) => getLevelBand(level).className;
 
   /**
    * Copy NFT ID to clipboard
@@ -124,7 +145,11 @@ export function NFTCard({ nft, onLevelUp, isLevelingUp = false, className = '' }
   };
 
   return (
-    <Card className={`overflow-hidden hover:shadow-lg transition-all duration-300 group ${className}`}>
+    <Card
+      className={`overflow-hidden hover:shadow-lg transition-all duration-300 group ${
+        isSelected ? 'ring-2 ring-blue-500' : ''
+      } ${className}`}
+    >
       {/* NFT Image */}
       <div className="relative aspect-square overflow-hidden bg-muted">
         {!imageError ? (
@@ -151,11 +176,37 @@ export function NFTCard({ nft, onLevelUp, isLevelingUp = false, className = '' }
           </div>
         )}
         
+        {/* Selection Checkbox Overlay */}
+        {onSelectChange && (
+          <div className="absolute top-3 left-3">
+            <input
+              type="checkbox"
+              checked={isSelected}
+              onChange={(e) => onSelectChange(nft.id.id, e.target.checked)}
+              disabled={isLevelingUp}
+              className="h-5 w-5 rounded border-gray-300 cursor-pointer"
+              aria-label={`Select ${nft.name}`}
+            />
+          </div>
+        )}
+
         {/* Level Badge Overlay */}
-        <div className="absolute top-3 right-3">
+        <div className="absolute top-3 right-3 flex flex-col items-end space-y-1">
           <Badge className={getLevelColor(nft.level)}>
             Level {nft.level}
           </Badge>
+          {levelUpProgress?.status === 'confirmed' && (
+            <Badge className="bg-green-50 text-green-700 border-green-200">
+              <CheckCircle2 className="mr-1 h-3 w-3" />
+              +{levelUpProgress.levels} confirmed
+            </Badge>
+          )}
+          {levelUpProgress?.status === 'failed' && (
+            <Badge className="bg-red-50 text-red-700 border-red-200">
+              <XCircle className="mr-1 h-3 w-3" />
+              Level up failed
+            </Badge>
+          )}
         </div>
       </div>
 
@@ -164,7 +215,9 @@ export function NFTCard({ nft, onLevelUp, isLevelingUp = false, className = '' }
         <div className="flex items-start justify-between">
           <div className="flex-1 min-w-0">
             <CardTitle className="text-lg truncate" title={nft.name}>
-              {nft.name}
+              <Link href={`/nft/${nft.id.id}`} className="hover:underline">
+                {nft.name}
+              </Link>
             </CardTitle>
             <CardDescription className="mt-1">
               NFT #{formatNFTId(nft.id.id)}
@@ -210,7 +263,7 @@ export function NFTCard({ nft, onLevelUp, isLevelingUp = false, className = '' }
               {isLevelingUp ? (
                 <>
                   <div className="mr-2 h-3 w-3 animate-spin rounded-full border-2 border-current border-r-transparent" />
-                  Leveling...
+                  {levelUpProgress && levelUpProgress.levels > 1 ? `+${levelUpProgress.levels}...` : 'Leveling...'}
                 </>
               ) : (
                 <>
@@ -222,22 +275,32 @@ export function NFTCard({ nft, onLevelUp, isLevelingUp = false, className = '' }
           )}
         </div>
 
-        {/* View on Explorer Link */}
-        <div className="pt-2">
+        {/* Transfer and View on Explorer */}
+        <div className={`pt-2 grid gap-2 ${readOnly ? 'grid-cols-1' : 'grid-cols-2'}`}>
+          {!readOnly && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsTransferOpen(true)}
+              disabled={isLevelingUp}
+            >
+              <Send className="mr-2 h-3 w-3" />
+              Transfer
+            </Button>
+          )}
           <Button
             variant="outline"
             size="sm"
-            className="w-full"
-            onClick={() => {
-              const explorerUrl = `https://suiscan.xyz/testnet/object/${nft.id.id}`;
-              window.open(explorerUrl, '_blank');
-            }}
+            onClick={() => explorerLink && window.open(explorerLink, '_blank')}
+            disabled={!explorerLink}
           >
             <ExternalLink className="mr-2 h-3 w-3" />
-            View on Explorer
+            Explorer
           </Button>
         </div>
       </CardContent>
+
+      {!readOnly && <TransferNFTDialog nft={nft} open={isTransferOpen} onOpenChange={setIsTransferOpen} />}
     </Card>
   );
 } 
\ No newline at end of file
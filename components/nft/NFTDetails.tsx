@@ -0,0 +1,337 @@
+/**
+ * @fileoverview NFT Details Component
+ *
+ * This component shows a single NFT loaded by object ID: its full metadata,
+ * owner, version, previous transaction, level-up history and every transaction
+ * that changed it. Level up and transfer actions are only offered to the owner.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { ObjectOwner } from '@mysten/sui/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { Skeleton } from '@/components/ui/skeleton';
+import { TransactionHistory } from '@/components/history/TransactionHistory';
+import { TransferNFTDialog } from './TransferNFTDialog';
+import { useLevelUp } from '@/hooks/useLevelUp';
+import { useNFTDetails } from '@/hooks/useNFTDetails';
+import { useNFTHistory } from '@/hooks/useNFTHistory';
+import { getExplorerLink, useNetworkVariable } from '@/lib/suiClient';
+import {
+  AlertCircle,
+  Copy,
+  ExternalLink,
+  ImageIcon,
+  Link2,
+  Loader2,
+  RefreshCw,
+  Send,
+  TrendingUp,
+} from 'lucide-react';
+import { toast } from 'sonner';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Describe an object owner for display, with the owning address when there is one
+ */
+function describeOwner(owner: ObjectOwner | null): { label: string; address: string | null } {
+  if (!owner) return { label: 'Unknown', address: null };
+  if (owner === 'Immutable') return { label: 'Immutable', address: null };
+  if ('AddressOwner' in owner) return { label: owner.AddressOwner, address: owner.AddressOwner };
+  if ('ObjectOwner' in owner) return { label: `Object ${owner.ObjectOwner}`, address: null };
+  if ('Shared' in owner) return { label: 'Shared', address: null };
+  return { label: 'Consensus', address: null };
+}
+
+// ============================================================================
+// NFT DETAILS COMPONENT
+// ============================================================================
+
+/**
+ * Props for the NFT Details component
+ */
+interface NFTDetailsProps {
+  /** Object ID of the NFT */
+  nftId: string;
+}
+
+/**
+ * NFT Details Component
+ *
+ * Features:
+ * - Full-size image, name, description and level
+ * - Object ID, owner (linking to their profile), version and previous transaction
+ * - Copy link button for sharing the page
+ * - Level up and transfer actions when the connected account owns the NFT
+ * - Level-up history and every transaction that changed the NFT
+ *
+ * @param props - Component props
+ * @returns JSX element containing the NFT details
+ *
+ * @example
+ * ```tsx
+ * <NFTDetails nftId={params.id} />
+ * ```
+ */
+export function NFTDetails({ nftId }: NFTDetailsProps) {
+  const { nft, owner, version, previousTransaction, isOwner, isLoading, error, refetch } = useNFTDetails(nftId);
+  const history = useNFTHistory(nftId);
+  const { levelUp, progress } = useLevelUp();
+  const explorerUrl = useNetworkVariable('explorerUrl');
+  const [imageError, setImageError] = useState(false);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+
+  const isLevelingUp = progress[nftId]?.status === 'pending';
+  const { label: ownerLabel, address: ownerAddress } = describeOwner(owner);
+
+  /**
+   * Copy a value to the clipboard
+   */
+  const copy = async (value: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success(`${label} copied to clipboard`);
+    } catch {
+      toast.error(`Failed to copy ${label.toLowerCase()}`);
+    }
+  };
+
+  /**
+   * Open a link on the active network's explorer
+   */
+  const openInExplorer = (type: 'tx' | 'object', id: string) => {
+    const link = getExplorerLink(explorerUrl, type, id);
+    if (link) window.open(link, '_blank');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="grid md:grid-cols-2 gap-8">
+        <Skeleton className="aspect-square w-full" />
+        <div className="space-y-4">
+          <Skeleton className="h-8 w-2/3" />
+          <Skeleton className="h-4 w-full" />
+          <Skeleton className="h-4 w-5/6" />
+          <Skeleton className="h-40 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !nft) {
+    return (
+      <Card className="border-red-200 bg-red-50 dark:bg-red-950 dark:border-red-800 max-w-xl mx-auto">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-red-100 dark:bg-red-900">
+            <AlertCircle className="h-8 w-8 text-red-600 dark:text-red-400" />
+          </div>
+          <CardTitle className="text-red-800 dark:text-red-200">Failed to Load NFT</CardTitle>
+          <CardDescription className="text-red-600 dark:text-red-400 break-all">
+            {error ?? 'The NFT could not be loaded'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="text-center">
+          <Button
+            onClick={() => refetch()}
+            variant="outline"
+            className="border-red-200 text-red-700 hover:bg-red-100 dark:border-red-700 dark:text-red-300 dark:hover:bg-red-900"
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Try Again
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="grid md:grid-cols-2 gap-8">
+        {/* NFT Image */}
+        <div className="relative aspect-square overflow-hidden rounded-xl bg-muted">
+          {!imageError && nft.image_url ? (
+            <Image
+              src={nft.image_url}
+              alt={nft.name}
+              fill
+              sizes="(min-width: 768px) 50vw, 100vw"
+              className="object-cover"
+              onError={() => setImageError(true)}
+              unoptimized
+            />
+          ) : (
+            <div className="absolute inset-0 flex flex-col items-center justify-center text-muted-foreground">
+              {imageError ? <AlertCircle className="h-12 w-12 mb-2" /> : <ImageIcon className="h-12 w-12 mb-2" />}
+              <p className="text-sm">{imageError ? 'Image failed to load' : 'No image'}</p>
+            </div>
+          )}
+        </div>
+
+        {/* NFT Metadata */}
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <div className="flex items-start justify-between gap-4">
+              <h2 className="text-3xl font-bold break-words">{nft.name}</h2>
+              <Badge className="flex-shrink-0">Level {nft.level}</Badge>
+            </div>
+            <p className="text-muted-foreground whitespace-pre-line">{nft.description}</p>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => copy(window.location.href, 'Link')}>
+              <Link2 className="mr-2 h-3 w-3" />
+              Copy Link
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => openInExplorer('object', nftId)}
+              disabled={!explorerUrl}
+            >
+              <ExternalLink className="mr-2 h-3 w-3" />
+              Explorer
+            </Button>
+          </div>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Object Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div className="flex items-center justify-between gap-4">
+                <span className="text-muted-foreground">Object ID</span>
+                <button
+                  type="button"
+                  onClick={() => copy(nftId, 'NFT ID')}
+                  className="flex items-center space-x-1 font-mono hover:text-foreground"
+                >
+                  <span>{nftId.slice(0, 10)}...{nftId.slice(-8)}</span>
+                  <Copy className="h-3 w-3" />
+                </button>
+              </div>
+              <Separator />
+              <div className="flex items-center justify-between gap-4">
+                <span className="text-muted-foreground">Owner</span>
+                {ownerAddress ? (
+                  <Link
+                    href={`/address/${ownerAddress}`}
+                    className="flex items-center space-x-1 font-mono hover:text-foreground hover:underline"
+                  >
+                    <span>{ownerAddress.slice(0, 10)}...{ownerAddress.slice(-8)}</span>
+                    {isOwner && <Badge variant="secondary" className="ml-1 text-xs">You</Badge>}
+                  </Link>
+                ) : (
+                  <span className="font-mono truncate">{ownerLabel}</span>
+                )}
+              </div>
+              <Separator />
+              <div className="flex items-center justify-between gap-4">
+                <span className="text-muted-foreground">Version</span>
+                <span className="font-mono">{version}</span>
+              </div>
+              <Separator />
+              <div className="flex items-center justify-between gap-4">
+                <span className="text-muted-foreground">Previous Transaction</span>
+                {previousTransaction ? (
+                  <button
+                    type="button"
+                    onClick={() => openInExplorer('tx', previousTransaction)}
+                    disabled={!explorerUrl}
+                    className="flex items-center space-x-1 font-mono hover:text-foreground"
+                  >
+                    <span>{previousTransaction.slice(0, 10)}...{previousTransaction.slice(-8)}</span>
+                    {explorerUrl && <ExternalLink className="h-3 w-3" />}
+                  </button>
+                ) : (
+                  <span className="text-muted-foreground">Unknown</span>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Owner Actions */}
+          {isOwner && (
+            <div className="grid grid-cols-2 gap-2">
+              <Button onClick={() => levelUp(nftId)} disabled={isLevelingUp}>
+                {isLevelingUp ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <TrendingUp className="mr-2 h-4 w-4" />
+                )}
+                {isLevelingUp ? 'Leveling...' : 'Level Up'}
+              </Button>
+              <Button variant="outline" onClick={() => setIsTransferOpen(true)} disabled={isLevelingUp}>
+                <Send className="mr-2 h-4 w-4" />
+                Transfer
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Level-Up History */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <TrendingUp className="h-5 w-5" />
+            <span>Level-Up History</span>
+          </CardTitle>
+          <CardDescription>
+            Level-ups found in the loaded transactions{history.hasMore ? ', load more below to see older ones' : ''}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {history.levelUps.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {history.isLoading ? 'Loading level-ups...' : 'This NFT has not been leveled up yet'}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {history.levelUps.map((record) => (
+                <div key={record.digest} className="flex items-center justify-between text-sm">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                      +{record.levels} level{record.levels === 1 ? '' : 's'}
+                    </Badge>
+                    <button
+                      type="button"
+                      onClick={() => openInExplorer('tx', record.digest)}
+                      disabled={!explorerUrl}
+                      className="font-mono text-xs text-muted-foreground hover:text-foreground"
+                    >
+                      {record.digest.slice(0, 10)}...{record.digest.slice(-8)}
+                    </button>
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {record.timestampMs ? new Date(record.timestampMs).toLocaleString() : 'Pending'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Transactions that changed the NFT */}
+      <TransactionHistory
+        history={history}
+        title="NFT Transactions"
+        description="Transactions that minted, leveled up or transferred this NFT"
+      />
+
+      {isOwner && <TransferNFTDialog nft={nft} open={isTransferOpen} onOpenChange={setIsTransferOpen} />}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+/**
+ * @fileoverview NFT Gallery Toolbar Component
+ *
+ * This component provides the gallery's search box, sort menu, level range
+ * inputs and level band chips. It is controlled by the filters stored in the
+ * URL, so every view it produces can be shared as a link.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { GALLERY_SORTS, LEVEL_BANDS } from '@/lib/nft';
+import { GalleryFilters, GallerySort } from '@/types/sui';
+import { ArrowUpDown, ChevronDown, Search, X } from 'lucide-react';
+
+// ============================================================================
+// NFT GALLERY TOOLBAR COMPONENT
+// ============================================================================
+
+/**
+ * Delay before a typed search is written to the URL, in milliseconds
+ */
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Props for the NFT Gallery Toolbar component
+ */
+interface NFTGalleryToolbarProps {
+  /** The current filters */
+  filters: GalleryFilters;
+  /** Whether any search or level filter is applied */
+  isFiltered: boolean;
+  /** Callback to update some of the filters */
+  onChange: (update: Partial<GalleryFilters>) => void;
+  /** Callback to clear every filter */
+  onReset: () => void;
+}
+
+/**
+ * NFT Gallery Toolbar Component
+ *
+ * Features:
+ * - Name and description search, written to the URL once typing pauses
+ * - Sort by recently modified, level or name
+ * - Minimum and maximum level inputs
+ * - Level band chips matching the card badge colours, toggling the level range
+ * - Clear button while any filter is applied
+ *
+ * @param props - Component props
+ * @returns JSX element containing the toolbar
+ *
+ * @example
+ * ```tsx
+ * const { filters, isFiltered, setFilters, resetFilters } = useGalleryFilters();
+ *
+ * <NFTGalleryToolbar filters={filters} isFiltered={isFiltered} onChange={setFilters} onReset={resetFilters} />
+ * ```
+ */
+export function NFTGalleryToolbar({ filters, isFiltered, onChange, onReset }: NFTGalleryToolbarProps) {
+  const [query, setQuery] = useState(filters.query);
+
+  // Follow URL changes made elsewhere, such as a reset or the back button
+  useEffect(() => {
+    setQuery(filters.query);
+  }, [filters.query]);
+
+  // Write the search to the URL once typing pauses
+  useEffect(() => {
+    if (query === filters.query) return;
+
+    const timeout = setTimeout(() => onChange({ query }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query, filters.query, onChange]);
+
+  /**
+   * Parse a level input, treating an empty or invalid value as no bound
+   */
+  const parseLevel = (value: string): number | null => {
+    const level = Math.floor(Number(value));
+    return value.trim() === '' || !Number.isFinite(level) || level < 0 ? null : level;
+  };
+
+  const sortLabel = GALLERY_SORTS.find((option) => option.value === filters.sort)?.label;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col md:flex-row gap-2">
+        {/* Search */}
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by name or description"
+            className="pl-9"
+            aria-label="Search NFTs"
+          />
+        </div>
+
+        {/* Level Range */}
+        <div className="flex items-center space-x-2">
+          <Input
+            type="number"
+            min="0"
+            step="1"
+            value={filters.minLevel ?? ''}
+            onChange={(e) => onChange({ minLevel: parseLevel(e.target.value) })}
+            placeholder="Min level"
+            className="w-28"
+            aria-label="Minimum level"
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            type="number"
+            min="0"
+            step="1"
+            value={filters.maxLevel ?? ''}
+            onChange={(e) => onChange({ maxLevel: parseLevel(e.target.value) })}
+            placeholder="Max level"
+            className="w-28"
+            aria-label="Maximum level"
+          />
+        </div>
+
+        {/* Sort */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" className="justify-between md:w-52">
+              <span className="flex items-center">
+                <ArrowUpDown className="mr-2 h-4 w-4" />
+                {sortLabel}
+              </span>
+              <ChevronDown className="h-4 w-4 ml-2" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-52">
+            <DropdownMenuLabel className="text-xs text-muted-foreground">Sort by</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            <DropdownMenuRadioGroup
+              value={filters.sort}
+              onValueChange={(value) => onChange({ sort: value as GallerySort })}
+            >
+              {GALLERY_SORTS.map((option) => (
+                <DropdownMenuRadioItem key={option.value} value={option.value} className="text-sm">
+                  {option.label}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {/* Level Band Chips */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-muted-foreground">Level:</span>
+        {LEVEL_BANDS.map((band) => {
+          const isActive = filters.minLevel === band.min && filters.maxLevel === band.max;
+
+          return (
+            <button
+              key={band.label}
+              type="button"
+              onClick={() =>
+                onChange(isActive ? { minLevel: null, maxLevel: null } : { minLevel: band.min, maxLevel: band.max })
+              }
+              className={`rounded-full border px-3 py-0.5 text-xs font-medium transition-opacity ${band.className} ${
+                isActive ? 'ring-2 ring-offset-2 ring-blue-500' : 'opacity-60 hover:opacity-100'
+              }`}
+              aria-pressed={isActive}
+            >
+              {band.label}
+            </button>
+          );
+        })}
+
+        {isFiltered && (
+          <Button variant="ghost" size="sm" onClick={onReset} className="h-7">
+            <X className="mr-1 h-3 w-3" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
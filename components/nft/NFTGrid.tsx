@@ -10,12 +10,19 @@
 
 'use client';
 
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { NFTCard } from './NFTCard';
+import { InvalidNFTsAlert } from './InvalidNFTsAlert';
+import { NFTGalleryToolbar } from './NFTGalleryToolbar';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
-import { SimpleNFT } from '@/types/sui';
-import { Palette, RefreshCw, AlertCircle, Loader2, Sparkles } from 'lucide-react';
+import { useGalleryFilters } from '@/hooks/useGalleryFilters';
+import { ITEMS_PER_PAGE, MAX_LEVEL_UPS_PER_TRANSACTION } from '@/lib/constants';
+import { applyGalleryFilters } from '@/lib/nft';
+import { InvalidNFTObject, LevelUpProgress, NFTLevelUp, SimpleNFT } from '@/types/sui';
+import { Palette, RefreshCw, AlertCircle, Loader2, Sparkles, TrendingUp } from 'lucide-react';
 
 // ============================================================================
 // NFT GRID COMPONENT
@@ -27,16 +34,28 @@ import { Palette, RefreshCw, AlertCircle, Loader2, Sparkles } from 'lucide-react
 interface NFTGridProps {
   /** Array of NFTs to display */
   nfts: SimpleNFT[];
+  /** Loaded objects of the NFT type that could not be parsed */
+  invalidObjects?: InvalidNFTObject[];
   /** Whether NFT data is currently loading */
   isLoading: boolean;
   /** Current error message, if any */
   error: string | null;
   /** Function to refetch NFT data */
   onRefresh?: () => void;
+  /** Whether more NFTs are available on chain beyond the loaded ones */
+  hasNextPage?: boolean;
+  /** Whether the next page of NFTs is being fetched */
+  isFetchingNextPage?: boolean;
+  /** Function to fetch the next page of NFTs */
+  onLoadMore?: () => void;
   /** Optional callback when level up is initiated */
   onLevelUp?: (nftId: string) => void;
-  /** ID of NFT currently being leveled up */
-  levelingUpNFTId?: string;
+  /** Optional callback when a batch level-up is initiated; resolves to whether it succeeded */
+  onBatchLevelUp?: (levelUps: NFTLevelUp[]) => Promise<boolean>;
+  /** Per-NFT progress of the latest level-up, keyed by NFT object ID */
+  levelUpProgress?: Record<string, LevelUpProgress>;
+  /** Whether the collection belongs to someone else, hiding owner-only actions */
+  readOnly?: boolean;
   /** Optional custom styling classes */
   className?: string;
 }
@@ -45,23 +64,121 @@ interface NFTGridProps {
  * NFT Grid Component
  * 
  * This component provides a responsive grid layout for displaying NFT collections.
+ * Cards are revealed `ITEMS_PER_PAGE` at a time as the user scrolls, and the next
+ * page is fetched through `onLoadMore` once every loaded NFT is shown.
+ * When `onBatchLevelUp` is provided, NFTs can be selected and leveled up together,
+ * with the number of levels to add chosen per NFT. With `readOnly`, another address's
+ * collection is shown without owner-only actions. The toolbar's search, sort and
+ * level filter are read from the URL through `useGalleryFilters`, so pages that
+ * are rendered statically must wrap the grid in a `<Suspense>` boundary.
  */
 export function NFTGrid({ 
   nfts, 
+  invalidObjects = [],
   isLoading, 
   error, 
   onRefresh, 
+  hasNextPage = false,
+  isFetchingNextPage = false,
+  onLoadMore,
   onLevelUp, 
-  levelingUpNFTId,
+  onBatchLevelUp,
+  levelUpProgress = {},
+  readOnly = false,
   className = '' 
 }: NFTGridProps) {
+  // Levels to add per selected NFT, keyed by NFT object ID
+  const [selectedLevels, setSelectedLevels] = useState<Record<string, number>>({});
+  // Number of cards revealed by infinite scroll
+  const [visibleCount, setVisibleCount] = useState(ITEMS_PER_PAGE);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const { filters, isFiltered, setFilters, resetFilters } = useGalleryFilters();
+
+  const shownNFTs = useMemo(() => applyGalleryFilters(nfts ?? [], filters), [nfts, filters]);
+  const loadedCount = nfts?.length ?? 0;
+  const matchCount = shownNFTs.length;
+  const canShowMore = visibleCount < matchCount || hasNextPage;
+  const totalLabel = `${loadedCount}${hasNextPage ? '+' : ''}`;
+  const title = readOnly ? 'NFT Collection' : 'Your NFT Collection';
+
+  /**
+   * Reveal the next page of cards; past the matching NFTs this waits for the next fetch
+   */
+  const showMore = useCallback(() => {
+    setVisibleCount((count) => Math.min(count + ITEMS_PER_PAGE, Math.max(matchCount, count)));
+  }, [matchCount]);
+
+  // Fetch the next page once every loaded NFT that matches the filters is revealed
+  useEffect(() => {
+    if (visibleCount >= matchCount && hasNextPage && !isFetchingNextPage) {
+      onLoadMore?.();
+    }
+  }, [visibleCount, matchCount, hasNextPage, isFetchingNextPage, onLoadMore]);
+
+  // Reveal the next page of cards when the end of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !canShowMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) showMore();
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [canShowMore, showMore, visibleCount]);
+
+  const isLevelingUp = Object.values(levelUpProgress).some((progress) => progress.status === 'pending');
+  const selectedNFTs = (nfts ?? []).filter((nft) => nft.id.id in selectedLevels);
+  const totalLevels = selectedNFTs.reduce((sum, nft) => sum + (selectedLevels[nft.id.id] || 0), 0);
+  const hasInvalidLevels = selectedNFTs.some((nft) => !(selectedLevels[nft.id.id] >= 1));
+
+  /**
+   * Select or deselect an NFT for the batch level-up
+   */
+  const handleSelectChange = (nftId: string, selected: boolean) => {
+    setSelectedLevels((prev) => {
+      const next = { ...prev };
+      if (selected) {
+        next[nftId] = prev[nftId] ?? 1;
+      } else {
+        delete next[nftId];
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Update how many levels to add to a selected NFT
+   */
+  const handleLevelsChange = (nftId: string, value: string) => {
+    setSelectedLevels((prev) => ({ ...prev, [nftId]: Math.floor(Number(value)) }));
+  };
+
+  /**
+   * Level up every selected NFT in one transaction
+   */
+  const handleBatchLevelUp = async () => {
+    if (!onBatchLevelUp || selectedNFTs.length === 0 || hasInvalidLevels) return;
+
+    const success = await onBatchLevelUp(
+      selectedNFTs.map((nft) => ({ nftId: nft.id.id, levels: selectedLevels[nft.id.id] }))
+    );
+
+    if (success) {
+      setSelectedLevels({});
+    }
+  };
 
   // Loading State
   if (isLoading) {
     return (
       <div className={`space-y-6 ${className}`}>
         <div className="flex items-center justify-between">
-          <h3 className="text-xl font-semibold">Your NFT Collection</h3>
+          <h3 className="text-xl font-semibold">{title}</h3>
           <div className="flex items-center space-x-2 text-muted-foreground">
             <Loader2 className="h-4 w-4 animate-spin" />
             <span className="text-sm">Loading NFTs...</span>
@@ -141,7 +258,7 @@ export function NFTGrid({
     return (
       <div className={`space-y-6 ${className}`}>
         <div className="flex items-center justify-between">
-          <h3 className="text-xl font-semibold">Your NFT Collection</h3>
+          <h3 className="text-xl font-semibold">{title}</h3>
           {onRefresh && (
             <Button variant="outline" size="sm" onClick={onRefresh}>
               <RefreshCw className="mr-2 h-4 w-4" />
@@ -149,6 +266,8 @@ export function NFTGrid({
             </Button>
           )}
         </div>
+
+        <InvalidNFTsAlert invalidObjects={invalidObjects} />
         
         <Card className="border-dashed relative overflow-hidden">
           <div className="absolute top-4 right-4">
@@ -162,7 +281,9 @@ export function NFTGrid({
               No NFTs Found
             </CardTitle>
             <CardDescription className="max-w-md mx-auto mt-2">
-              You don&apos;t have any NFTs yet. Try minting your first NFT using the &quot;Mint NFT&quot; tab above!
+              {readOnly
+                ? 'This address does not own any NFTs from this collection.'
+                : 'You don\'t have any NFTs yet. Try minting your first NFT using the "Mint NFT" tab above!'}
             </CardDescription>
           </CardHeader>
         </Card>
@@ -175,9 +296,13 @@ export function NFTGrid({
     <div className={`space-y-6 ${className}`}>
       <div className="flex items-center justify-between">
         <div>
-          <h3 className="text-xl font-semibold">Your NFT Collection</h3>
+          <h3 className="text-xl font-semibold">{title}</h3>
           <p className="text-muted-foreground text-sm">
-            {nfts.length} NFT{nfts.length === 1 ? '' : 's'} in your collection
+            {isFiltered && `${matchCount} of `}
+            {hasNextPage
+              ? `${totalLabel} NFTs loaded, more are loaded as you scroll`
+              : `${loadedCount} NFT${loadedCount === 1 ? '' : 's'} in ${readOnly ? 'this' : 'your'} collection`}
+            {visibleCount < matchCount && ` (showing ${visibleCount})`}
           </p>
         </div>
         {onRefresh && (
@@ -188,27 +313,138 @@ export function NFTGrid({
         )}
       </div>
 
+      <NFTGalleryToolbar filters={filters} isFiltered={isFiltered} onChange={setFilters} onReset={resetFilters} />
+
+      <InvalidNFTsAlert invalidObjects={invalidObjects} />
+
+      {/* Batch Level-Up Panel */}
+      {onBatchLevelUp && selectedNFTs.length > 0 && (
+        <Card className="border-blue-200 bg-blue-50/50 dark:bg-blue-950/50 dark:border-blue-800">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base flex items-center space-x-2">
+              <TrendingUp className="h-4 w-4 text-blue-600" />
+              <span>Batch Level Up</span>
+            </CardTitle>
+            <CardDescription>
+              {selectedNFTs.length} NFT{selectedNFTs.length === 1 ? '' : 's'} selected, {totalLevels || 0} level
+              {totalLevels === 1 ? '' : 's'} in one transaction
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="space-y-2 max-h-60 overflow-y-auto">
+              {selectedNFTs.map((nft) => (
+                <div key={nft.id.id} className="flex items-center justify-between gap-4">
+                  <span className="text-sm truncate" title={nft.name}>
+                    {nft.name} <span className="text-muted-foreground">(Level {nft.level})</span>
+                  </span>
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    <span className="text-sm text-muted-foreground">+</span>
+                    <Input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={selectedLevels[nft.id.id] || ''}
+                      onChange={(e) => handleLevelsChange(nft.id.id, e.target.value)}
+                      disabled={isLevelingUp}
+                      className="w-20 h-8"
+                      aria-label={`Levels to add to ${nft.name}`}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {totalLevels > MAX_LEVEL_UPS_PER_TRANSACTION && (
+              <p className="text-sm text-red-600 flex items-center space-x-1">
+                <AlertCircle className="h-3 w-3" />
+                <span>A batch can add at most {MAX_LEVEL_UPS_PER_TRANSACTION} levels in total</span>
+              </p>
+            )}
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" size="sm" onClick={() => setSelectedLevels({})} disabled={isLevelingUp}>
+                Clear Selection
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleBatchLevelUp}
+                disabled={isLevelingUp || hasInvalidLevels || totalLevels > MAX_LEVEL_UPS_PER_TRANSACTION}
+              >
+                {isLevelingUp ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Leveling Up...
+                  </>
+                ) : (
+                  <>
+                    <TrendingUp className="mr-2 h-4 w-4" />
+                    Level Up {selectedNFTs.length} NFT{selectedNFTs.length === 1 ? '' : 's'}
+                  </>
+                )}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* No Matches */}
+      {matchCount === 0 && !hasNextPage && (
+        <Card className="border-dashed">
+          <CardContent className="py-10 text-center space-y-3">
+            <p className="text-muted-foreground">No NFTs match the current filters</p>
+            <Button variant="outline" size="sm" onClick={resetFilters}>
+              Clear filters
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Responsive NFT Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-        {nfts.map((nft) => (
+        {shownNFTs.slice(0, visibleCount).map((nft) => (
           <NFTCard
             key={nft.id.id}
             nft={nft}
             onLevelUp={onLevelUp}
-            isLevelingUp={levelingUpNFTId === nft.id.id}
+            isLevelingUp={levelUpProgress[nft.id.id]?.status === 'pending'}
+            levelUpProgress={levelUpProgress[nft.id.id]}
+            isSelected={nft.id.id in selectedLevels}
+            onSelectChange={onBatchLevelUp ? handleSelectChange : undefined}
+            readOnly={readOnly}
           />
         ))}
       </div>
 
+      {/* Infinite Scroll Sentinel */}
+      {canShowMore && (
+        <div ref={sentinelRef} className="flex justify-center">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={showMore}
+            disabled={isFetchingNextPage}
+          >
+            {isFetchingNextPage ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading More NFTs...
+              </>
+            ) : (
+              'Show More'
+            )}
+          </Button>
+        </div>
+      )}
+
       {/* Collection Stats */}
       <Card className="bg-muted/50">
         <CardContent className="py-4">
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
             <div>
               <p className="text-2xl font-bold text-blue-600">
-                {nfts.length}
+                {totalLabel}
               </p>
-              <p className="text-sm text-muted-foreground">Total NFTs</p>
+              <p className="text-sm text-muted-foreground">{hasNextPage ? 'NFTs Loaded' : 'Total NFTs'}</p>
             </div>
             <div>
               <p className="text-2xl font-bold text-green-600">
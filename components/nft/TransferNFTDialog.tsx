@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Transfer NFT Dialog Component
+ *
+ * This component provides a dialog for sending an NFT to another address. It
+ * validates the recipient address and signs the transfer through useTransferNFT.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useTransferNFT } from '@/hooks/useTransferNFT';
+import { validateSuiAddress } from '@/lib/transactionUtils';
+import { SimpleNFT } from '@/types/sui';
+import { Send, AlertCircle, Loader2 } from 'lucide-react';
+
+// ============================================================================
+// FORM VALIDATION SCHEMA
+// ============================================================================
+
+/**
+ * Validation schema for the transfer form
+ */
+const transferNFTSchema = z.object({
+  recipient: z.string().superRefine((value, ctx) => {
+    const validation = validateSuiAddress(value);
+    if (!validation.isValid) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: validation.error ?? 'Invalid address' });
+    }
+  }),
+});
+
+type TransferNFTFormData = z.infer<typeof transferNFTSchema>;
+
+// ============================================================================
+// TRANSFER NFT DIALOG COMPONENT
+// ============================================================================
+
+/**
+ * Props for the TransferNFTDialog component
+ */
+interface TransferNFTDialogProps {
+  /** NFT to transfer */
+  nft: SimpleNFT;
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the dialog is opened or closed */
+  onOpenChange: (open: boolean) => void;
+  /** Optional callback after a successful transfer */
+  onTransferSuccess?: (nftId: string) => void;
+}
+
+/**
+ * Transfer NFT Dialog Component
+ *
+ * Asks for a recipient address, rejects invalid addresses and the connected
+ * address itself, then transfers the NFT. The dialog cannot be dismissed while
+ * the transaction is pending and closes once the transfer succeeds.
+ *
+ * @param props - Component props
+ * @returns JSX element containing the transfer dialog
+ */
+export function TransferNFTDialog({ nft, open, onOpenChange, onTransferSuccess }: TransferNFTDialogProps) {
+  const currentAccount = useCurrentAccount();
+  const { transferNFT, isLoading } = useTransferNFT();
+
+  const form = useForm<TransferNFTFormData>({
+    resolver: zodResolver(transferNFTSchema),
+    defaultValues: {
+      recipient: '',
+    },
+  });
+
+  /**
+   * Open or close the dialog, clearing the form when it closes
+   */
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isLoading) return;
+    if (!nextOpen) form.reset();
+    onOpenChange(nextOpen);
+  };
+
+  /**
+   * Handle form submission
+   */
+  const onSubmit = async (data: TransferNFTFormData) => {
+    const recipient = data.recipient.trim();
+
+    if (currentAccount && normalizeSuiAddress(recipient) === normalizeSuiAddress(currentAccount.address)) {
+      form.setError('recipient', { message: 'This NFT is already owned by this address' });
+      return;
+    }
+
+    const result = await transferNFT(nft.id.id, recipient);
+
+    if (result.success) {
+      form.reset();
+      onOpenChange(false);
+      onTransferSuccess?.(nft.id.id);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent showCloseButton={!isLoading}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Send className="h-5 w-5 text-blue-600" />
+            <span>Transfer NFT</span>
+          </DialogTitle>
+          <DialogDescription>
+            Send &quot;{nft.name}&quot; to another address. This cannot be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`transfer-recipient-${nft.id.id}`}>Recipient Address</Label>
+            <Input
+              id={`transfer-recipient-${nft.id.id}`}
+              placeholder="0x..."
+              className="font-mono"
+              disabled={isLoading}
+              {...form.register('recipient')}
+            />
+            {form.formState.errors.recipient && (
+              <p className="text-sm text-red-600 flex items-center space-x-1">
+                <AlertCircle className="h-3 w-3" />
+                <span>{form.formState.errors.recipient.message}</span>
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Transferring...
+                </>
+              ) : (
+                <>
+                  <Send className="mr-2 h-4 w-4" />
+                  Transfer
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
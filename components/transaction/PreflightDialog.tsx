@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Transaction Pre-flight Dialog Component
+ *
+ * This component shows the dry run of a transaction before the wallet is asked
+ * to sign it: estimated gas, balance changes, created and mutated objects, and
+ * the abort reason when the dry run fails. It is mounted once by the provider
+ * tree and driven by the pre-flight store.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { useCoinRegistry } from '@/hooks/useCoinRegistry';
+import { usePreflightStore } from '@/hooks/usePreflight';
+import { formatCoinAmount, formatSuiAmount } from '@/lib/transactionUtils';
+import { ObjectChangeSummary } from '@/types/sui';
+import { ShieldCheck, AlertCircle, Loader2, Fuel } from 'lucide-react';
+
+// ============================================================================
+// DISPLAY HELPERS
+// ============================================================================
+
+/**
+ * Shorten a full object type to `module::Name` for display
+ */
+const formatObjectType = (objectType: string) => objectType.split('<')[0].split('::').slice(1).join('::');
+
+/**
+ * Format an address for display (first 6 and last 4 characters)
+ */
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Group object changes by type with a count per type
+ */
+const groupByType = (objects: ObjectChangeSummary[]) =>
+  Object.entries(
+    objects.reduce<Record<string, number>>((groups, object) => {
+      const type = formatObjectType(object.objectType);
+      groups[type] = (groups[type] ?? 0) + 1;
+      return groups;
+    }, {})
+  );
+
+// ============================================================================
+// PRE-FLIGHT DIALOG COMPONENT
+// ============================================================================
+
+/**
+ * Transaction Pre-flight Dialog Component
+ *
+ * Features:
+ * - Loading state while the transaction is dry run
+ * - Estimated net gas cost from the dry run
+ * - Balance changes per owner, formatted with each coin's decimals
+ * - Created and mutated objects grouped by type
+ * - Abort reason on failure, with signing blocked
+ *
+ * @returns JSX element containing the pre-flight dialog
+ */
+export function PreflightDialog() {
+  const currentAccount = useCurrentAccount();
+  const { getCoinInfo } = useCoinRegistry();
+  const request = usePreflightStore((state) => state.request);
+  const settle = usePreflightStore((state) => state.settle);
+
+  const summary = request?.summary ?? null;
+
+  /**
+   * Label a balance change owner, calling out the connected address
+   */
+  const formatOwner = (owner: string | null) => {
+    if (!owner) return 'Shared object';
+    if (currentAccount && normalizeSuiAddress(owner) === normalizeSuiAddress(currentAccount.address)) return 'You';
+    return formatAddress(owner);
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={(open) => !open && settle(false)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <ShieldCheck className="h-5 w-5 text-blue-600" />
+            <span>{request?.title ?? 'Confirm Transaction'}</span>
+          </DialogTitle>
+          <DialogDescription>
+            {request?.description ?? 'Review the simulated result before signing with your wallet.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!summary ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground space-x-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span className="text-sm">Simulating transaction...</span>
+          </div>
+        ) : !summary.success ? (
+          <div className="p-4 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 rounded-lg">
+            <div className="flex items-start space-x-2">
+              <AlertCircle className="h-4 w-4 text-red-600 mt-0.5 flex-shrink-0" />
+              <div className="text-sm text-red-800 dark:text-red-200 min-w-0">
+                <p className="font-medium">Dry run failed, this transaction would not succeed</p>
+                <p className="mt-1 break-all">{summary.error ?? 'Unknown error'}</p>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4 text-sm">
+            {/* Estimated Gas */}
+            <div className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-900 rounded-lg">
+              <span className="flex items-center space-x-2 font-medium">
+                <Fuel className="h-4 w-4" />
+                <span>Estimated Gas</span>
+              </span>
+              <Badge variant="secondary" className="font-mono">
+                {formatSuiAmount(summary.gasCost)} SUI
+              </Badge>
+            </div>
+
+            {/* Balance Changes */}
+            <div className="space-y-2">
+              <p className="font-medium">Balance Changes</p>
+              {summary.balanceChanges.length === 0 ? (
+                <p className="text-muted-foreground">None</p>
+              ) : (
+                summary.balanceChanges.map((change, index) => {
+                  const coin = getCoinInfo(change.coinType);
+                  const isPositive = !change.amount.startsWith('-');
+
+                  return (
+                    <div key={index} className="flex items-center justify-between">
+                      <span className="text-muted-foreground">{formatOwner(change.owner)}</span>
+                      <span className={`font-mono ${isPositive ? 'text-green-600' : 'text-red-600'}`}>
+                        {isPositive ? '+' : '-'}
+                        {formatCoinAmount(change.amount.replace(/^-/, ''), coin.decimals)} {coin.symbol}
+                      </span>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+
+            <Separator />
+
+            {/* Object Changes */}
+            <div className="grid grid-cols-2 gap-4">
+              {([
+                { label: 'Created Objects', objects: summary.createdObjects },
+                { label: 'Mutated Objects', objects: summary.mutatedObjects },
+              ] as const).map(({ label, objects }) => (
+                <div key={label} className="space-y-1">
+                  <p className="font-medium">{label}</p>
+                  {objects.length === 0 ? (
+                    <p className="text-muted-foreground">None</p>
+                  ) : (
+                    groupByType(objects).map(([type, count]) => (
+                      <p key={type} className="font-mono text-xs truncate" title={type}>
+                        {count} × {type}
+                      </p>
+                    ))
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => settle(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => settle(true)} disabled={!summary?.success}>
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            Confirm & Sign
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
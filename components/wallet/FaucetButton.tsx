@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Faucet Button Component
+ *
+ * This component requests SUI for the connected address from the active
+ * network's faucet. While the address is rate-limited it stays disabled and
+ * counts down to when the faucet accepts its requests again.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { ComponentProps } from 'react';
+import { Button } from '@/components/ui/button';
+import { useFaucet } from '@/hooks/useFaucet';
+import { formatCountdown } from '@/lib/utils';
+import { Droplets, Loader2, Timer } from 'lucide-react';
+
+// ============================================================================
+// FAUCET BUTTON COMPONENT
+// ============================================================================
+
+/**
+ * Props for the Faucet Button component
+ */
+interface FaucetButtonProps {
+  /** Button variant */
+  variant?: ComponentProps<typeof Button>['variant'];
+  /** Button size */
+  size?: ComponentProps<typeof Button>['size'];
+  /** Additional CSS classes */
+  className?: string;
+  /** Callback once the faucet's transfer is confirmed */
+  onSuccess?: () => void;
+}
+
+/**
+ * Faucet Button Component
+ *
+ * Features:
+ * - Requests SUI from the active network's faucet for the connected address
+ * - Spinner while the request and its transfer are pending
+ * - Disabled with a countdown while the address is rate-limited
+ * - Renders nothing on networks without a faucet
+ *
+ * @param props - Component props
+ * @returns JSX element containing the faucet button, or null without a faucet
+ *
+ * @example
+ * ```tsx
+ * <FaucetButton variant="outline" size="sm" onSuccess={() => refetch()} />
+ * ```
+ */
+export function FaucetButton({ variant = 'outline', size, className, onSuccess }: FaucetButtonProps) {
+  const { requestSUI, isAvailable, isLoading, isCoolingDown, cooldownRemaining } = useFaucet({ onSuccess });
+
+  if (!isAvailable) return null;
+
+  return (
+    <Button
+      variant={variant}
+      size={size}
+      className={className}
+      onClick={requestSUI}
+      disabled={isLoading || isCoolingDown}
+    >
+      {isLoading ? (
+        <>
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Requesting SUI...
+        </>
+      ) : isCoolingDown ? (
+        <>
+          <Timer className="mr-2 h-4 w-4" />
+          Faucet available in {formatCountdown(cooldownRemaining)}
+        </>
+      ) : (
+        <>
+          <Droplets className="mr-2 h-4 w-4" />
+          Request SUI from Faucet
+        </>
+      )}
+    </Button>
+  );
+}
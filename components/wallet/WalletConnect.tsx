@@ -15,7 +15,7 @@ import {
   ConnectButton, 
   useCurrentAccount, 
   useDisconnectWallet,
-  useSuiClientQuery 
+  useSuiClientContext,
 } from '@mysten/dapp-kit';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -28,9 +28,12 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { SUI_COIN_TYPE } from '@/lib/constants';
-import { formatSuiAmount } from '@/lib/transactionUtils';
-import { formatSUI } from '@/lib/utils';
+import { useCoinRegistry } from '@/hooks/useCoinRegistry';
+import { useFaucet } from '@/hooks/useFaucet';
+import { useSelectedCoinType } from '@/hooks/useSelectedCoinType';
+import { formatCoin, formatCountdown } from '@/lib/utils';
+import { getExplorerLink, NETWORK_NAMES, useNetworkVariable } from '@/lib/suiClient';
+import { SuiNetwork } from '@/types/sui';
 import { 
   Wallet, 
   Copy, 
@@ -39,9 +42,13 @@ import {
   User,
   ExternalLink,
   ChevronDown,
-  Coins
+  Coins,
+  Droplets,
+  Timer
 } from 'lucide-react';
 import { useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
 import { toast } from 'sonner';
 
 // ============================================================================
@@ -54,7 +61,8 @@ import { toast } from 'sonner';
  * This modernized component provides:
  * - Compact header-optimized design
  * - Dropdown menu for wallet actions
- * - Real-time balance display
+ * - Real-time balance display for every coin type the wallet holds
+ * - Faucet requests on networks with a faucet, with a countdown while rate-limited
  * - Smooth animations and transitions
  * - Better visual hierarchy
  * - Improved accessibility
@@ -69,18 +77,14 @@ export function WalletConnect() {
   const { mutate: disconnect } = useDisconnectWallet();
   const [isDisconnecting, setIsDisconnecting] = useState(false);
 
-  // Fetch SUI balance for connected account
-  const { data: balance, isLoading: balanceLoading, error: balanceError } = useSuiClientQuery(
-    'getBalance',
-    {
-      owner: currentAccount?.address ?? '',
-      coinType: SUI_COIN_TYPE,
-    },
-    {
-      enabled: !!currentAccount?.address,
-      refetchInterval: 10000, // Refresh every 10 seconds
-    }
-  );
+  // Fetch balances for every coin type held by the connected account
+  const { coinTypes, getCoinInfo, isLoading: balanceLoading, error: balanceError } = useCoinRegistry();
+  const { coinType, setCoinType } = useSelectedCoinType();
+  const selectedCoin = getCoinInfo(coinType);
+
+  const { network } = useSuiClientContext();
+  const explorerUrl = useNetworkVariable('explorerUrl');
+  const faucet = useFaucet();
 
   /**
    * Copy wallet address to clipboard
@@ -118,8 +122,8 @@ export function WalletConnect() {
    */
   const openInExplorer = () => {
     if (!currentAccount?.address) return;
-    const explorerUrl = `https://suiscan.xyz/testnet/account/${currentAccount.address}`;
-    window.open(explorerUrl, '_blank');
+    const link = getExplorerLink(explorerUrl, 'account', currentAccount.address);
+    if (link) window.open(link, '_blank');
   };
 
   // Show connection button if no wallet is connected
@@ -159,10 +163,8 @@ export function WalletConnect() {
               <span className="text-xs text-muted-foreground font-mono">
                 {balanceLoading 
                   ? '...' 
-                  : balance 
-                    ? formatSUI(formatSuiAmount(balance.totalBalance))
-                    : '0'
-                } SUI
+                  : formatCoin(selectedCoin.totalBalance, selectedCoin.decimals)
+                } {selectedCoin.symbol}
               </span>
             </div>
           </div>
@@ -192,11 +194,11 @@ export function WalletConnect() {
         <DropdownMenuSeparator />
 
         {/* Balance Section */}
-        <div className="p-4 bg-muted/50 rounded-lg m-2">
+        <div className="p-4 bg-muted/50 rounded-lg m-2 space-y-3">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-2">
               <Coins className="h-4 w-4 text-blue-600" />
-              <span className="text-sm font-medium">Balance</span>
+              <span className="text-sm font-medium">Balances</span>
             </div>
             {balanceLoading ? (
               <div className="flex items-center space-x-2">
@@ -207,15 +209,31 @@ export function WalletConnect() {
               <Badge variant="destructive" className="text-xs">
                 Error
               </Badge>
-            ) : (
-              <div className="text-right">
-                <p className="text-lg font-bold font-mono">
-                  {balance ? formatSUI(formatSuiAmount(balance.totalBalance)) : '0'}
-                </p>
-                <p className="text-xs text-muted-foreground">SUI</p>
-              </div>
-            )}
+            ) : null}
           </div>
+          {!balanceLoading && !balanceError && coinTypes.map((coin) => (
+            <button
+              key={coin.coinType}
+              type="button"
+              onClick={() => setCoinType(coin.coinType)}
+              title={coin.coinType}
+              className={`flex w-full items-center justify-between rounded-md px-2 py-1 text-left transition-colors hover:bg-background/80 ${
+                coin.coinType === coinType ? 'bg-background' : ''
+              }`}
+            >
+              <div className="flex items-center space-x-2 min-w-0">
+                {coin.iconUrl ? (
+                  <Image src={coin.iconUrl} alt={coin.symbol} width={16} height={16} className="h-4 w-4 rounded-full" unoptimized />
+                ) : (
+                  <Coins className="h-4 w-4 text-muted-foreground" />
+                )}
+                <span className="text-xs text-muted-foreground truncate">{coin.symbol}</span>
+              </div>
+              <span className="text-sm font-bold font-mono">
+                {formatCoin(coin.totalBalance, coin.decimals)}
+              </span>
+            </button>
+          ))}
         </div>
 
         <DropdownMenuSeparator />
@@ -231,12 +249,47 @@ export function WalletConnect() {
 
         <DropdownMenuItem 
           onClick={openInExplorer}
+          disabled={!explorerUrl}
           className="flex items-center space-x-3 p-3 cursor-pointer hover:bg-muted/50 rounded-lg m-1"
         >
           <ExternalLink className="h-4 w-4" />
           <span className="text-sm">View in Explorer</span>
         </DropdownMenuItem>
 
+        <DropdownMenuItem asChild className="flex items-center space-x-3 p-3 cursor-pointer hover:bg-muted/50 rounded-lg m-1">
+          <Link href={`/address/${currentAccount.address}`}>
+            <User className="h-4 w-4" />
+            <span className="text-sm">View Public Profile</span>
+          </Link>
+        </DropdownMenuItem>
+
+        {faucet.isAvailable && (
+          <DropdownMenuItem
+            onSelect={(event) => {
+              // Keep the menu open to show the request's progress
+              event.preventDefault();
+              faucet.requestSUI();
+            }}
+            disabled={faucet.isLoading || faucet.isCoolingDown}
+            className="flex items-center space-x-3 p-3 cursor-pointer hover:bg-muted/50 rounded-lg m-1"
+          >
+            {faucet.isLoading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : faucet.isCoolingDown ? (
+              <Timer className="h-4 w-4" />
+            ) : (
+              <Droplets className="h-4 w-4" />
+            )}
+            <span className="text-sm">
+              {faucet.isLoading
+                ? 'Requesting SUI...'
+                : faucet.isCoolingDown
+                  ? `Faucet available in ${formatCountdown(faucet.cooldownRemaining)}`
+                  : 'Request SUI from Faucet'}
+            </span>
+          </DropdownMenuItem>
+        )}
+
         <DropdownMenuSeparator />
 
         {/* Network Status */}
@@ -247,7 +300,7 @@ export function WalletConnect() {
               <span className="text-xs text-muted-foreground">Network</span>
             </div>
             <Badge variant="outline" className="text-xs bg-green-50 border-green-200 text-green-700">
-              Sui Testnet
+              Sui {NETWORK_NAMES[network as SuiNetwork] ?? network}
             </Badge>
           </div>
         </div>
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Bulk Minting Hook for Sui DApp
+ *
+ * This file provides a custom React hook for minting every NFT of a manifest,
+ * packed into as few transactions as the size limits allow. Progress is kept
+ * per NFT, so a bulk mint that fails or is cancelled part way can be resumed
+ * without minting the finished NFTs again. The progress lives in a small Zustand
+ * store, so it survives switching tabs while a bulk mint is running.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { create } from 'zustand';
+import { useSuiClientContext } from '@mysten/dapp-kit';
+import { SuiObjectResponse } from '@mysten/sui/client';
+import { createBatchMintTransaction, packMintBatches } from '@/lib/transactionUtils';
+import { isDataUri, uploadDataUri } from '@/lib/images';
+import { matchMintedNFTs } from '@/lib/nft';
+import { useTransactionExecutor } from '@/hooks/useTransactionExecutor';
+import { useContract } from '@/hooks/useContract';
+import { useImageUrlValidation } from '@/hooks/useImageUrlValidation';
+import { BulkMintItem, MintNFTData, UseBulkMintReturn } from '@/types/sui';
+
+/**
+ * Maximum number of object IDs per `multiGetObjects` request
+ */
+const MULTI_GET_OBJECTS_LIMIT = 50;
+
+/**
+ * Format a number of NFTs, e.g. "1 NFT" or "12 NFTs"
+ */
+const formatNFTCount = (count: number) => `${count} NFT${count === 1 ? '' : 's'}`;
+
+/**
+ * State of the bulk mint progress store
+ */
+interface BulkMintState {
+  /** Progress of every NFT in the current bulk mint */
+  items: BulkMintItem[];
+  /** Whether a bulk mint is in progress */
+  isRunning: boolean;
+}
+
+/**
+ * Progress of the current bulk mint, shared by every component using the hook
+ */
+const useBulkMintStore = create<BulkMintState>()(() => ({
+  items: [],
+  isRunning: false,
+}));
+
+// ============================================================================
+// BULK MINTING HOOK
+// ============================================================================
+
+/**
+ * Custom hook for minting many NFTs with as few signatures as possible
+ *
+ * This hook provides:
+ * - Packing of the NFTs into transactions by `packMintBatches`
+ * - Upload of `data:` URI images right before their batch is minted
+ * - One dry run pre-flight and signature per transaction, run one after another
+ * - Per-NFT status with the digest and created object ID of each minted NFT
+ * - A stop at the first failed or cancelled transaction, leaving the rest
+ *   pending so `resume` continues from there
+ *
+ * @returns Object containing the progress and functions to start, resume and reset
+ *
+ * @example
+ * ```tsx
+ * const { items, start, resume, isRunning } = useBulkMint();
+ *
+ * const { rows, errors } = parseMintManifest(manifest);
+ * if (errors.length === 0) await start(rows);
+ * ```
+ */
+export function useBulkMint(): UseBulkMintReturn {
+  const items = useBulkMintStore((state) => state.items);
+  const isRunning = useBulkMintStore((state) => state.isRunning);
+
+  const { client } = useSuiClientContext();
+  const { getTargets } = useContract();
+  const { validate } = useImageUrlValidation();
+
+  const { execute } = useTransactionExecutor({
+    build: (batch: BulkMintItem[]) => createBatchMintTransaction(getTargets(), batch.map((item) => item.data)),
+    preflight: (batch) => ({
+      title: 'Bulk Mint',
+      description: `Mint ${formatNFTCount(batch.length)} (rows ${batch[0].row}–${batch[batch.length - 1].row})`,
+    }),
+    successMessage: (_, batch) => `Minted ${formatNFTCount(batch.length)}`,
+    errorMessage: 'Failed to mint batch',
+  });
+
+  /**
+   * Update the given items, matched by row
+   */
+  const updateItems = (batch: BulkMintItem[], update: (item: BulkMintItem) => Partial<BulkMintItem>) => {
+    const rows = new Set(batch.map((item) => item.row));
+    useBulkMintStore.setState((state) => ({
+      items: state.items.map((item) => (rows.has(item.row) ? { ...item, ...update(item) } : item)),
+    }));
+  };
+
+  /**
+   * Get the object ID minted for each item of a confirmed batch
+   */
+  const findMintedObjects = async (batch: BulkMintItem[], createdObjectIds: string[]) => {
+    const objects: SuiObjectResponse[] = [];
+    for (let i = 0; i < createdObjectIds.length; i += MULTI_GET_OBJECTS_LIMIT) {
+      objects.push(
+        ...(await client.multiGetObjects({
+          ids: createdObjectIds.slice(i, i + MULTI_GET_OBJECTS_LIMIT),
+          options: { showContent: true, showType: true },
+        }))
+      );
+    }
+    return matchMintedNFTs(objects, batch.map((item) => item.data));
+  };
+
+  /**
+   * Upload the `data:` URI images of a batch, which are only stored once they are minted
+   *
+   * The stored URL is checked like any entered URL, so a storage backend that is
+   * not publicly reachable fails the batch instead of being minted.
+   */
+  const uploadDataImages = async (batch: BulkMintItem[]) => {
+    const uploaded: BulkMintItem[] = [];
+    for (const item of batch) {
+      uploaded.push(
+        isDataUri(item.data.image_url)
+          ? {
+              ...item,
+              data: {
+                ...item.data,
+                image_url: (await validate((await uploadDataUri(item.data.image_url)).url)).url,
+              },
+            }
+          : item
+      );
+    }
+    return uploaded;
+  };
+
+  /**
+   * Mint the given items batch by batch, stopping at the first unsuccessful batch
+   */
+  const run = async (queue: BulkMintItem[]) => {
+    useBulkMintStore.setState({ isRunning: true });
+
+    try {
+      for (const queued of packMintBatches(queue, (item) => item.data)) {
+        updateItems(queued, () => ({ status: 'minting', digest: undefined, error: undefined }));
+
+        let batch: BulkMintItem[];
+        try {
+          batch = await uploadDataImages(queued);
+        } catch (err) {
+          const message = err instanceof Error ? err.message : 'Unknown error';
+          updateItems(queued, () => ({ status: 'failed', error: `Failed to upload image: ${message}` }));
+          return;
+        }
+        // Keep the uploaded URLs, so resuming does not upload the images again
+        const dataByRow = new Map(batch.map((item) => [item.row, item.data]));
+        updateItems(batch, (item) => ({ data: dataByRow.get(item.row) ?? item.data }));
+
+        const result = await execute(batch);
+
+        if (result.status === 'cancelled') {
+          updateItems(batch, () => ({ status: 'pending' }));
+          return;
+        }
+        if (!result.success) {
+          updateItems(batch, () => ({ status: 'failed', digest: result.digest, error: result.error }));
+          return;
+        }
+
+        // The NFTs are minted even if their object IDs cannot be looked up
+        const objectIds = await findMintedObjects(batch, result.createdObjectIds).catch((err) => {
+          console.error('Failed to look up minted NFTs:', err);
+          return [];
+        });
+        const objectIdsByRow = new Map(batch.map((item, index) => [item.row, objectIds[index] ?? undefined]));
+
+        updateItems(batch, (item) => ({
+          status: 'minted',
+          digest: result.digest,
+          objectId: objectIdsByRow.get(item.row),
+        }));
+      }
+    } finally {
+      useBulkMintStore.setState({ isRunning: false });
+    }
+  };
+
+  const start = (rows: MintNFTData[]) => {
+    const queue = rows.map((data, index): BulkMintItem => ({ row: index + 1, data, status: 'pending' }));
+    useBulkMintStore.setState({ items: queue });
+    return run(queue);
+  };
+
+  const resume = () => run(items.filter((item) => item.status !== 'minted'));
+
+  return {
+    items,
+    start,
+    resume,
+    reset: () => useBulkMintStore.setState({ items: [] }),
+    isRunning,
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Coin Merging Hook for Sui DApp
+ *
+ * This file provides a custom React hook for merging multiple coin objects
+ * into a single coin. It handles primary coin selection, gas coin conflicts,
+ * transaction creation, and user feedback for cleaning up dust coins.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { createMergeCoinsTransaction } from '@/lib/transactionUtils';
+import { SUI_COIN_TYPE } from '@/lib/constants';
+import { useCoinRegistry } from '@/hooks/useCoinRegistry';
+import { useOwnedCoins } from '@/hooks/useOwnedCoins';
+import { useTransactionExecutor } from '@/hooks/useTransactionExecutor';
+import { UseCoinMergeReturn } from '@/types/sui';
+
+// ============================================================================
+// COIN MERGING HOOK
+// ============================================================================
+
+/**
+ * Custom hook for merging coins on the blockchain
+ *
+ * This hook provides coin merging functionality including:
+ * - Lookup of the selected coin objects in the user's coins of the given type
+ * - Selection of the largest coin as the merge destination
+ * - Gas payment from the destination coin to avoid gas coin conflicts (SUI only)
+ * - Dry run pre-flight confirmed by the user before the wallet is asked to sign
+ * - Wallet integration for signing and execution
+ * - Loading state management and error handling
+ * - Success/failure toast notifications
+ *
+ * The merging process:
+ * 1. Resolves the selected coin IDs against the account's coins
+ * 2. Picks the coin with the largest balance as the primary coin
+ * 3. Merges all other coins into it (using it as gas when merging SUI)
+ * 4. Signs and executes the transaction via wallet and waits until it is indexed
+ *
+ * @param coinType - The type of coin to merge (defaults to SUI)
+ * @returns Object containing merge function and state
+ *
+ * @example
+ * ```tsx
+ * function MergeButton({ selectedCoins }: { selectedCoins: string[] }) {
+ *   const { mergeCoins, isLoading } = useCoinMerge();
+ *
+ *   return (
+ *     <button onClick={() => mergeCoins(selectedCoins)} disabled={isLoading}>
+ *       {isLoading ? 'Merging...' : `Merge ${selectedCoins.length} coins`}
+ *     </button>
+ *   );
+ * }
+ * ```
+ */
+export function useCoinMerge(coinType: string = SUI_COIN_TYPE): UseCoinMergeReturn {
+  const { getCoinInfo } = useCoinRegistry();
+  const coinInfo = getCoinInfo(coinType);
+
+  // Get user's loaded coins of the selected type
+  const { coins } = useOwnedCoins(coinType);
+
+  /**
+   * Resolve the selected coins and build the merge transaction
+   */
+  const buildMergeTransaction = (coinObjectIds: string[]) => {
+    if (coins.length === 0) {
+      throw new Error(`No ${coinInfo.symbol} coins found in your wallet`);
+    }
+
+    // Resolve the selected IDs to full coin objects
+    const selectedCoins = coins.filter((coin) => coinObjectIds.includes(coin.coinObjectId));
+
+    if (selectedCoins.length < 2) {
+      throw new Error('Select at least two coins to merge');
+    }
+
+    // Merge everything into the largest coin, which also pays for gas when merging SUI
+    const primaryCoin = selectedCoins.reduce((largest, coin) =>
+      BigInt(coin.balance) > BigInt(largest.balance) ? coin : largest
+    );
+
+    return createMergeCoinsTransaction(
+      {
+        objectId: primaryCoin.coinObjectId,
+        version: primaryCoin.version,
+        digest: primaryCoin.digest,
+      },
+      selectedCoins.map((coin) => coin.coinObjectId),
+      coinType
+    );
+  };
+
+  const { execute, isLoading, error } = useTransactionExecutor({
+    build: buildMergeTransaction,
+    preflight: (coinObjectIds: string[]) => ({
+      title: 'Merge Coins',
+      description: `Merge ${coinObjectIds.length} ${coinInfo.symbol} coins into one`,
+    }),
+    successMessage: (_, coinObjectIds) => `Successfully merged ${coinObjectIds.length} ${coinInfo.symbol} coins`,
+    errorMessage: 'Failed to merge coins',
+  });
+
+  return {
+    mergeCoins: execute,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Coin Type Registry Hook for Sui DApp
+ *
+ * This file provides a custom React hook that lists every fungible coin type the
+ * connected user holds. Balances come from `getAllBalances` and display details
+ * (decimals, symbol, icon) from `getCoinMetadata`.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { useCurrentAccount, useSuiClientQueries, useSuiClientQuery } from '@mysten/dapp-kit';
+import { normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
+import { createCoinTypeInfo, isSuiCoinType } from '@/lib/coinRegistry';
+import { SUI_COIN_TYPE } from '@/lib/constants';
+import { CoinTypeInfo, UseCoinRegistryReturn } from '@/types/sui';
+
+// ============================================================================
+// COIN REGISTRY HOOK
+// ============================================================================
+
+/**
+ * Custom hook for the registry of coin types held by an address
+ *
+ * This hook provides:
+ * - All coin types with a balance, SUI first and then by symbol
+ * - Decimals, symbol, name and icon from each coin's metadata
+ * - Lookup of any coin type with fallbacks when it is not held
+ * - Live balance updates for the connected account, and a refresh every 10 seconds
+ *   for other addresses
+ *
+ * Coin metadata rarely changes, so it is cached for the lifetime of the session.
+ *
+ * @param owner - The address to load balances for (defaults to the connected account)
+ * @returns Object containing the registry entries and lookup helpers
+ *
+ * @example
+ * ```tsx
+ * function Balances() {
+ *   const { coinTypes } = useCoinRegistry();
+ *
+ *   return (
+ *     <ul>
+ *       {coinTypes.map((coin) => (
+ *         <li key={coin.coinType}>
+ *           {formatCoinAmount(coin.totalBalance, coin.decimals)} {coin.symbol}
+ *         </li>
+ *       ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ */
+export function useCoinRegistry(owner?: string): UseCoinRegistryReturn {
+  const currentAccount = useCurrentAccount();
+  const address = owner ?? currentAccount?.address;
+  const isConnectedAccount =
+    !!address && !!currentAccount && normalizeSuiAddress(address) === normalizeSuiAddress(currentAccount.address);
+
+  // Fetch balances for every coin type owned by the address
+  const { data: balances, isLoading: balancesLoading, error, refetch } = useSuiClientQuery(
+    'getAllBalances',
+    {
+      owner: address ?? '',
+    },
+    {
+      enabled: !!address,
+      refetchInterval: isConnectedAccount ? false : 10000, // Refresh other addresses every 10 seconds
+    }
+  );
+
+  // Always include SUI so the gas coin has an entry even with a zero balance
+  const coinTypeIds = useMemo(() => {
+    const types = (balances ?? []).map((balance) => balance.coinType);
+    return types.some(isSuiCoinType) ? types : [SUI_COIN_TYPE, ...types];
+  }, [balances]);
+
+  // Fetch metadata for each coin type
+  const { metadata, metadataLoading } = useSuiClientQueries({
+    queries: coinTypeIds.map((coinType) => ({
+      method: 'getCoinMetadata' as const,
+      params: { coinType },
+      options: { staleTime: Infinity },
+    })),
+    combine: (results) => ({
+      metadata: results.map((result) => result.data),
+      metadataLoading: results.some((result) => result.isLoading),
+    }),
+  });
+
+  const coinTypes = useMemo((): CoinTypeInfo[] => {
+    return coinTypeIds
+      .map((coinType, index) =>
+        createCoinTypeInfo(
+          coinType,
+          balances?.find((balance) => balance.coinType === coinType),
+          metadata[index]
+        )
+      )
+      .sort((a, b) => {
+        if (isSuiCoinType(a.coinType)) return -1;
+        if (isSuiCoinType(b.coinType)) return 1;
+        return a.symbol.localeCompare(b.symbol);
+      });
+  }, [coinTypeIds, balances, metadata]);
+
+  // Coin types are compared in normalized form, as they may be written with short addresses
+  const getCoinInfo = useCallback(
+    (coinType: string): CoinTypeInfo => {
+      const normalized = normalizeStructTag(coinType);
+      return (
+        coinTypes.find((coin) => normalizeStructTag(coin.coinType) === normalized) ??
+        createCoinTypeInfo(coinType)
+      );
+    },
+    [coinTypes]
+  );
+
+  return {
+    coinTypes,
+    getCoinInfo,
+    isLoading: balancesLoading || metadataLoading,
+    error: error?.message ?? null,
+    refetch,
+  };
+}
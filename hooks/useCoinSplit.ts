@@ -1,7 +1,7 @@
 /**
  * @fileoverview Coin Splitting Hook for Sui DApp
  * 
- * This file provides a custom React hook for splitting SUI coins on the blockchain.
+ * This file provides a custom React hook for splitting SUI (or any other) coins on the blockchain.
  * It handles automatic coin selection, transaction creation, and provides user feedback
  * for the coin splitting functionality useful for creating exact payment amounts.
  * 
@@ -11,43 +11,49 @@
 
 'use client';
 
-import { useState } from 'react';
-import { useSignAndExecuteTransaction, useSuiClientQuery } from '@mysten/dapp-kit';
 import { useCurrentAccount } from '@mysten/dapp-kit';
-import { createCoinSplitTransaction, handleTransactionError, suiToMist } from '@/lib/transactionUtils';
+import { createCoinSplitTransaction, parseCoinAmount } from '@/lib/transactionUtils';
+import { isSuiCoinType } from '@/lib/coinRegistry';
 import { SUI_COIN_TYPE } from '@/lib/constants';
-import { CoinSplitData, TransactionResponse, UseCoinSplitReturn } from '@/types/sui';
-import { toast } from 'sonner';
+import { useCoinRegistry } from '@/hooks/useCoinRegistry';
+import { useOwnedCoins } from '@/hooks/useOwnedCoins';
+import { useTransactionExecutor } from '@/hooks/useTransactionExecutor';
+import { CoinSplitData, UseCoinSplitReturn } from '@/types/sui';
 
 // ============================================================================
 // COIN SPLITTING HOOK
 // ============================================================================
 
 /**
- * Custom hook for splitting SUI coins on the blockchain
+ * Custom hook for splitting coins on the blockchain
  * 
  * This hook provides comprehensive coin splitting functionality including:
- * - Automatic fetching of user's available SUI coins
+ * - Automatic fetching of user's available coins of the given type
  * - Intelligent coin selection based on balance requirements
- * - Amount conversion from SUI to MIST (smallest unit)
+ * - Amount conversion to the smallest unit using the coin's decimals
  * - Transaction creation for coin splitting operations
+ * - Dry run pre-flight confirmed by the user before the wallet is asked to sign
  * - Wallet integration for signing and execution
  * - Loading state management and error handling
  * - Success/failure toast notifications
  * 
  * The coin splitting process:
- * 1. Fetches all available SUI coins for the connected account
- * 2. Converts the requested amount from SUI to MIST
+ * 1. Fetches all available coins of the given type for the connected account
+ * 2. Converts the requested amount (or list of amounts) to the smallest unit
  * 3. Finds a suitable coin object with sufficient balance
  * 4. Creates a splitCoins transaction targeting the selected coin
- * 5. Signs and executes the transaction via wallet
- * 6. Creates new coin objects with the specified amounts
+ * 5. Dry runs it and waits for the user to confirm the estimated gas and effects
+ * 6. Signs and executes the transaction via wallet and waits until it is indexed
+ * 7. Creates one new coin object per requested amount
  * 
  * This is useful for:
  * - Creating exact payment amounts for transactions
  * - Breaking down large coin objects into smaller denominations
  * - Preparing coins for complex multi-transaction operations
  * 
+ * Non-SUI coins are split from the largest coin object while gas is paid in SUI.
+ * 
+ * @param coinType - The type of coin to split (defaults to SUI)
  * @returns Object containing split function and state
  * 
  * @example
@@ -82,103 +88,80 @@ import { toast } from 'sonner';
  * }
  * ```
  */
-export function useCoinSplit(): UseCoinSplitReturn {
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  
+export function useCoinSplit(coinType: string = SUI_COIN_TYPE): UseCoinSplitReturn {
   const currentAccount = useCurrentAccount();
-  const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransaction();
-
-  // Get user's SUI coins
-  const { data: coins } = useSuiClientQuery(
-    'getCoins',
-    {
-      owner: currentAccount?.address ?? '',
-      coinType: SUI_COIN_TYPE,
-    },
-    {
-      enabled: !!currentAccount?.address,
+  const { getCoinInfo } = useCoinRegistry();
+  const coinInfo = getCoinInfo(coinType);
+  const isSui = isSuiCoinType(coinType);
+
+  // Get user's loaded coins of the selected type
+  const { coins } = useOwnedCoins(coinType);
+
+  /**
+   * Validate the split against the user's coins and build the transaction
+   */
+  const buildSplitTransaction = (data: CoinSplitData) => {
+    // Amounts cannot be converted until the coin's decimals are known
+    if (!coinInfo.decimalsResolved) {
+      throw new Error(`${coinInfo.symbol} metadata is still loading`);
     }
-  );
-
-  const splitCoin = async (data: CoinSplitData): Promise<TransactionResponse> => {
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      // Convert SUI amount to MIST
-      const amountInMist = suiToMist(data.amount);
-
-      // Check if we have enough coins and balance for the operation
-      if (!coins?.data || coins.data.length === 0) {
-        throw new Error('No SUI coins found in your wallet');
-      }
-
-      // Calculate total balance
-      const totalBalance = coins.data.reduce((sum, coin) => sum + parseInt(coin.balance), 0);
-      const requiredAmount = parseInt(amountInMist);
-      const estimatedGas = 10000000; // ~0.01 SUI for gas estimate
 
-      if (totalBalance < requiredAmount + estimatedGas) {
-        throw new Error('Insufficient balance for split amount plus gas fees');
-      }
+    // Convert amounts to the smallest unit (a single split is a one-element list)
+    const amounts = data.amounts ?? [data.amount];
+    const baseAmounts = amounts.map((amount) => parseCoinAmount(amount, coinInfo.decimals));
 
-      // Find the largest coin to use as gas coin (it will be used for both gas and splitting)
-      const suitableCoin = coins.data.reduce((largest, coin) => 
-        parseInt(coin.balance) > parseInt(largest.balance) ? coin : largest
-      );
-
-      // Check if the largest coin has enough for both the split amount and gas
-      if (parseInt(suitableCoin.balance) < requiredAmount + estimatedGas) {
-        throw new Error('Largest coin does not have sufficient balance for split amount plus gas fees');
-      }
+    // Check if we have enough coins and balance for the operation
+    if (coins.length === 0) {
+      throw new Error(`No ${coinInfo.symbol} coins found in your wallet`);
+    }
 
-      // Create the transaction - the function will use tx.gas (auto-selected by SDK)
-      // but we need to ensure the gas coin has enough balance
-      const transaction = createCoinSplitTransaction(
-        suitableCoin.coinObjectId, // This parameter is now unused but kept for compatibility
-        amountInMist, 
-        currentAccount?.address
-      );
+    // Total balance across all coins, including pages that are not loaded
+    const totalBalance = BigInt(coinInfo.totalBalance);
+    const requiredAmount = baseAmounts.reduce((sum, amount) => sum + BigInt(amount), BigInt(0));
 
-      // Sign and execute the transaction with automatic gas coin selection
-      const result = await new Promise<{ digest: string }>((resolve, reject) => {
-        signAndExecuteTransaction(
-          {
-            transaction,
-          },
-          {
-            onSuccess: (result) => resolve(result),
-            onError: (error) => reject(error),
-          }
-        );
-      });
+    // Gas is checked by the pre-flight dry run, which uses the real gas cost
+    if (totalBalance < requiredAmount) {
+      throw new Error('Insufficient balance for split amount');
+    }
 
-      toast.success(`Successfully split ${data.amount} SUI`);
-      
-      return {
-        success: true,
-        digest: result.digest,
-        data: result,
-      };
+    // Find the largest coin to split from (for SUI it is also used as the gas coin)
+    const suitableCoin = coins.reduce((largest, coin) => 
+      BigInt(coin.balance) > BigInt(largest.balance) ? coin : largest
+    );
 
-    } catch (err) {
-      const suiError = handleTransactionError(err);
-      setError(suiError.message);
-      toast.error(`Failed to split coin: ${suiError.message}`);
-      
-      return {
-        success: false,
-        error: suiError.message,
-      };
-    } finally {
-      setIsLoading(false);
+    // Non-SUI coins are split from a single coin object, which must cover the amount
+    if (!isSui && BigInt(suitableCoin.balance) < requiredAmount) {
+      throw new Error('Largest coin does not have sufficient balance for split amount');
     }
+
+    // Create the transaction - SUI is split from tx.gas (auto-selected by SDK),
+    // any other coin type is split from the largest coin object
+    return createCoinSplitTransaction(
+      suitableCoin.coinObjectId,
+      baseAmounts,
+      currentAccount?.address,
+      coinType
+    );
   };
 
+  const { execute, isLoading, error } = useTransactionExecutor({
+    build: buildSplitTransaction,
+    preflight: (data: CoinSplitData) => ({
+      title: 'Split Coins',
+      description: data.amounts && data.amounts.length > 1
+        ? `Split ${data.amounts.length} ${coinInfo.symbol} coins from your balance`
+        : `Split ${data.amount} ${coinInfo.symbol} into a new coin`,
+    }),
+    successMessage: (_, data) =>
+      data.amounts && data.amounts.length > 1
+        ? `Successfully split ${data.amounts.length} coins`
+        : `Successfully split ${data.amount} ${coinInfo.symbol}`,
+    errorMessage: 'Failed to split coin',
+  });
+
   return {
-    splitCoin,
+    splitCoin: execute,
     isLoading,
     error,
   };
-} 
\ No newline at end of file
+}
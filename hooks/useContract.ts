@@ -0,0 +1,68 @@
+/**
+ * @fileoverview NFT Contract Hook for Sui DApp
+ *
+ * This file provides a custom React hook for resolving the NFT contract
+ * deployment of the active network. Transaction hooks use it to get the Move
+ * call targets they pass to the transaction builders.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import { useSuiClientContext } from '@mysten/dapp-kit';
+import { getContractTargets, getNFTType } from '@/lib/contracts';
+import { NETWORK_NAMES, useNetworkVariable } from '@/lib/suiClient';
+import { SuiNetwork, UseContractReturn } from '@/types/sui';
+
+// ============================================================================
+// NFT CONTRACT HOOK
+// ============================================================================
+
+/**
+ * Custom hook for the NFT contract on the active network
+ *
+ * This hook provides:
+ * - The contract deployment from `useNetworkVariable('contract')`
+ * - Resolved Move call targets for the contract functions, at the latest package version
+ * - The NFT struct type, at the original package version NFTs keep across upgrades
+ * - A clear error when the contract is not deployed or misconfigured on the active network
+ *
+ * @returns Object containing the deployment and its targets
+ *
+ * @example
+ * ```tsx
+ * const { getTargets } = useContract();
+ *
+ * const { execute } = useTransactionExecutor({
+ *   build: (data: MintNFTData) => createMintNFTTransaction(getTargets(), data),
+ * });
+ * ```
+ */
+export function useContract(): UseContractReturn {
+  const { network } = useSuiClientContext();
+  const deployment = useNetworkVariable('contract');
+
+  const networkName = NETWORK_NAMES[network as SuiNetwork] ?? network;
+  const getTargets = () => getContractTargets(deployment, networkName);
+
+  // The error is reported here rather than when the network configuration is loaded
+  const { targets, error } = useMemo(() => {
+    try {
+      return { targets: getContractTargets(deployment, networkName), error: null };
+    } catch (err) {
+      return { targets: null, error: err instanceof Error ? err.message : 'The NFT contract cannot be used' };
+    }
+  }, [deployment, networkName]);
+
+  return {
+    deployment,
+    targets,
+    nftType: deployment ? getNFTType(deployment) : null,
+    isDeployed: !!targets,
+    error,
+    getTargets,
+  };
+}
@@ -1,17 +1,26 @@
 /**
- * @fileoverview Faucet Hook for Testnet SUI Requests
+ * @fileoverview Faucet Hook for SUI Requests
  *
- * This hook provides functionality to request testnet SUI tokens from the Sui faucet
- * using the official Sui SDK. It handles loading states, error handling, and success
- * notifications for a seamless user experience.
+ * This hook provides functionality to request SUI tokens from the active network's
+ * faucet using the official Sui SDK. It handles loading states, error handling, and
+ * success notifications for a seamless user experience. Addresses the faucet
+ * rate-limits are put on a cooldown, so the request is not sent again until it ends.
  *
  * @author Rijad Kuloglija
  * @version 1.0.0
  */
 
-import { useState } from "react";
-import { useCurrentAccount } from "@mysten/dapp-kit";
-import { getFaucetHost, requestSuiFromFaucetV2 } from "@mysten/sui/faucet";
+import { useEffect, useState } from "react";
+import { useCurrentAccount, useSuiClientContext } from "@mysten/dapp-kit";
+import { useQueryClient } from "@tanstack/react-query";
+import { FaucetRateLimitError, requestSuiFromFaucetV2 } from "@mysten/sui/faucet";
+import { getFaucetCooldownKey, useFaucetCooldowns } from "@/hooks/useFaucetCooldowns";
+import { FAUCET_RATE_LIMIT_COOLDOWN } from "@/lib/constants";
+import { applyTransactionToCache } from "@/lib/queryCache";
+import { NETWORK_NAMES, useNetworkVariable } from "@/lib/suiClient";
+import { waitForTransaction } from "@/lib/transactionUtils";
+import { formatCountdown } from "@/lib/utils";
+import { SuiNetwork } from "@/types/sui";
 import { toast } from "sonner";
 
 // ============================================================================
@@ -22,7 +31,7 @@ import { toast } from "sonner";
  * Configuration options for the faucet hook
  */
 interface UseFaucetOptions {
-  /** Optional callback to execute after successful faucet request */
+  /** Optional callback to execute once the faucet's transfer is confirmed */
   onSuccess?: () => void;
 }
 
@@ -32,12 +41,18 @@ interface UseFaucetOptions {
 interface UseFaucetReturn {
   /** Whether a faucet request is currently in progress */
   isLoading: boolean;
-  /** Function to request SUI from the testnet faucet */
+  /** Function to request SUI from the active network's faucet */
   requestSUI: () => Promise<void>;
+  /** Whether the active network has a faucet */
+  isAvailable: boolean;
   /** Whether the last request was successful */
   isSuccess: boolean;
   /** Any error that occurred during the last request */
   error: string | null;
+  /** Whether the connected address is rate-limited on the active network's faucet */
+  isCoolingDown: boolean;
+  /** Seconds until the connected address may request again, 0 when it may request now */
+  cooldownRemaining: number;
 }
 
 // ============================================================================
@@ -45,29 +60,33 @@ interface UseFaucetReturn {
 // ============================================================================
 
 /**
- * Custom hook for requesting testnet SUI tokens from the faucet
+ * Custom hook for requesting SUI tokens from the faucet
  *
- * This hook provides a simple interface to request SUI tokens from the Sui testnet
- * faucet. It handles all the complexity of making the request, managing loading
- * states, and providing user feedback through toast notifications.
+ * This hook provides a simple interface to request SUI tokens from the faucet of
+ * the active network, resolved through `useNetworkVariable('faucetHost')`. It
+ * handles all the complexity of making the request, managing loading states, and
+ * providing user feedback through toast notifications.
  *
  * Features:
  * - Automatic wallet address detection
  * - Loading state management
  * - Error handling with user-friendly messages
  * - Success notifications
- * - Rate limiting awareness
- * - Testnet network targeting
+ * - Per-address cooldown after a rate limit, persisted across reloads, with the
+ *   remaining seconds updated every second for countdowns
+ * - Waits for the faucet's transfer and applies it to the query cache, so the
+ *   new coins are listed as soon as the success callback runs
+ * - Per-network faucet host, unavailable on mainnet
  *
  * @returns Object containing request function and state
  *
  * @example
  * ```tsx
- * const { requestSUI, isLoading, isSuccess, error } = useFaucet();
+ * const { requestSUI, isAvailable, isLoading, isCoolingDown, cooldownRemaining } = useFaucet();
  * 
- * const handleFaucetRequest = async () => {
- *   await requestSUI();
- * };
+ * <button onClick={requestSUI} disabled={!isAvailable || isLoading || isCoolingDown}>
+ *   {isCoolingDown ? `Retry in ${formatCountdown(cooldownRemaining)}` : 'Request SUI'}
+ * </button>
  * ```
  */
 export function useFaucet(options?: UseFaucetOptions): UseFaucetReturn {
@@ -75,6 +94,32 @@ export function useFaucet(options?: UseFaucetOptions): UseFaucetReturn {
   const [isSuccess, setIsSuccess] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const currentAccount = useCurrentAccount();
+  const { client, network } = useSuiClientContext();
+  const queryClient = useQueryClient();
+  const faucetHost = useNetworkVariable("faucetHost");
+  const networkName = NETWORK_NAMES[network as SuiNetwork] ?? network;
+
+  const cooldownKey = currentAccount ? getFaucetCooldownKey(network, currentAccount.address) : null;
+  const cooldownUntil = useFaucetCooldowns((state) => (cooldownKey ? state.cooldowns[cooldownKey] : undefined));
+  const startCooldown = useFaucetCooldowns((state) => state.startCooldown);
+  const clearCooldown = useFaucetCooldowns((state) => state.clearCooldown);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick every second while a cooldown is running, so countdowns stay current
+  useEffect(() => {
+    if (!cooldownUntil) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => {
+      const time = Date.now();
+      setNow(time);
+      if (time >= cooldownUntil) clearInterval(interval);
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [cooldownUntil]);
+
+  const cooldownRemaining = cooldownUntil ? Math.max(0, Math.ceil((cooldownUntil - now) / 1000)) : 0;
 
   const requestSUI = async (): Promise<void> => {
     // Check if wallet is connected
@@ -84,38 +129,60 @@ export function useFaucet(options?: UseFaucetOptions): UseFaucetReturn {
       return;
     }
 
+    // Check that the active network has a faucet
+    if (!faucetHost) {
+      toast.error(`No faucet is available on ${networkName}`);
+      setError("Faucet not available");
+      return;
+    }
+
+    // Don't send a request the faucet would rate-limit again
+    if (cooldownUntil && cooldownUntil > Date.now()) {
+      toast.error("Faucet rate limit", {
+        description: `You can request SUI again in ${formatCountdown((cooldownUntil - Date.now()) / 1000)}.`,
+      });
+      return;
+    }
+
+    const key = getFaucetCooldownKey(network, currentAccount.address);
+
     setIsLoading(true);
     setError(null);
     setIsSuccess(false);
 
     try {
       // Show initial loading toast
-      const loadingToast = toast.loading("Requesting SUI from testnet faucet...");
+      const loadingToast = toast.loading(`Requesting SUI from ${networkName} faucet...`);
 
-      // Request SUI from testnet faucet
-      await requestSuiFromFaucetV2({
-        host: getFaucetHost('testnet'),
+      // Request SUI from the active network's faucet
+      const response = await requestSuiFromFaucetV2({
+        host: faucetHost,
         recipient: currentAccount.address,
       });
 
+      // Wait for the faucet's transfers and show the new coins right away
+      const digests = [...new Set((response.coins_sent ?? []).map((coin) => coin.transferTxDigest))];
+      await Promise.all(
+        digests.map(async (digest) => {
+          const confirmed = await waitForTransaction(client, digest);
+          await applyTransactionToCache(queryClient, client, network, confirmed, { invalidateBalances: true });
+        })
+      );
+
       // Dismiss loading toast
       toast.dismiss(loadingToast);
+      clearCooldown(key);
 
       // Show success notification
-      toast.success("SUI tokens requested successfully!", {
-        description: "Tokens should appear in your wallet shortly. This may take a few moments.",
+      toast.success("SUI tokens received!", {
+        description: `The ${networkName} faucet's transfer has been confirmed.`,
         duration: 5000,
       });
 
       setIsSuccess(true);
 
       // Call success callback if provided
-      if (options?.onSuccess) {
-        // Add a small delay to allow the transaction to be processed
-        setTimeout(() => {
-          options.onSuccess?.();
-        }, 2000);
-      }
+      options?.onSuccess?.();
 
     } catch (err) {
       // Dismiss any loading toasts
@@ -128,8 +195,13 @@ export function useFaucet(options?: UseFaucetOptions): UseFaucetReturn {
       if (err instanceof Error) {
         const errorText = err.message.toLowerCase();
         
-        if (errorText.includes("rate limit") || errorText.includes("too many requests")) {
-          errorMessage = "Rate limit exceeded. Please wait a few minutes before requesting again.";
+        if (
+          err instanceof FaucetRateLimitError ||
+          errorText.includes("rate limit") ||
+          errorText.includes("too many requests")
+        ) {
+          startCooldown(key, Date.now() + FAUCET_RATE_LIMIT_COOLDOWN);
+          errorMessage = `Rate limit exceeded. You can request again in ${formatCountdown(FAUCET_RATE_LIMIT_COOLDOWN / 1000)}.`;
         } else if (errorText.includes("network") || errorText.includes("connection") || errorText.includes("failed to fetch")) {
           errorMessage = "Faucet service is temporarily unavailable. Try alternative methods below.";
           showFallbackOptions = true;
@@ -164,7 +236,10 @@ export function useFaucet(options?: UseFaucetOptions): UseFaucetReturn {
   return {
     isLoading,
     requestSUI,
+    isAvailable: !!faucetHost,
     isSuccess,
     error,
+    isCoolingDown: cooldownRemaining > 0,
+    cooldownRemaining,
   };
 } 
\ No newline at end of file
@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Faucet Cooldown Store for Sui DApp
+ *
+ * This file provides a small persisted Zustand store holding when each address
+ * may request from a network's faucet again after being rate-limited. Faucet
+ * buttons read it to show a countdown instead of sending requests that would
+ * only fail again, including after a page reload.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+
+// ============================================================================
+// FAUCET COOLDOWN STORE
+// ============================================================================
+
+/**
+ * State and actions of the faucet cooldown store
+ */
+interface FaucetCooldownsState {
+  /** Time each address may request again, in milliseconds since epoch, by `network:address` */
+  cooldowns: Record<string, number>;
+  /** Record that an address may not request from a network's faucet until the given time */
+  startCooldown: (key: string, until: number) => void;
+  /** Remove an address's cooldown, such as after a successful request */
+  clearCooldown: (key: string) => void;
+}
+
+/**
+ * Get the cooldown store key of an address on a network
+ *
+ * @param network - The network whose faucet was requested
+ * @param address - The recipient address
+ * @returns Key for the address's cooldown
+ */
+export const getFaucetCooldownKey = (network: string, address: string) =>
+  `${network}:${normalizeSuiAddress(address)}`;
+
+/**
+ * Hook for reading and changing faucet cooldowns
+ *
+ * The cooldowns are persisted to localStorage. Expired cooldowns are dropped
+ * whenever a new one is started.
+ *
+ * @returns The cooldowns and functions to change them
+ *
+ * @example
+ * ```tsx
+ * const until = useFaucetCooldowns((state) => state.cooldowns[getFaucetCooldownKey(network, address)]);
+ * ```
+ */
+export const useFaucetCooldowns = create<FaucetCooldownsState>()(
+  persist(
+    (set) => ({
+      cooldowns: {},
+      startCooldown: (key, until) =>
+        set((state) => ({
+          cooldowns: {
+            ...Object.fromEntries(Object.entries(state.cooldowns).filter(([, time]) => time > Date.now())),
+            [key]: until,
+          },
+        })),
+      clearCooldown: (key) =>
+        set((state) => {
+          const cooldowns = { ...state.cooldowns };
+          delete cooldowns[key];
+          return { cooldowns };
+        }),
+    }),
+    {
+      name: 'faucet-cooldowns',
+    }
+  )
+);
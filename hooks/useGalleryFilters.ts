@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Gallery Filters Hook for Sui DApp
+ *
+ * This file provides a custom React hook for the NFT gallery's search, sort and
+ * level filter. The state lives in the URL's query params, so a filtered view
+ * can be shared by copying the link.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { DEFAULT_GALLERY_FILTERS, parseGalleryFilters, toGallerySearchParams } from '@/lib/nft';
+import { GalleryFilters, UseGalleryFiltersReturn } from '@/types/sui';
+
+// ============================================================================
+// GALLERY FILTERS HOOK
+// ============================================================================
+
+/**
+ * Custom hook for the gallery filters stored in the URL
+ *
+ * This hook provides:
+ * - Filters parsed from the `q`, `sort`, `min` and `max` query params
+ * - Updates that replace the URL without adding history entries or scrolling
+ * - A reset back to the defaults, keeping unrelated query params
+ *
+ * Components using this hook read `useSearchParams`, so statically rendered
+ * pages must wrap them in a `<Suspense>` boundary.
+ *
+ * @returns Object containing the filters and functions to change them
+ *
+ * @example
+ * ```tsx
+ * const { filters, setFilters } = useGalleryFilters();
+ * setFilters({ sort: 'level-desc' });
+ * ```
+ */
+export function useGalleryFilters(): UseGalleryFiltersReturn {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const filters = useMemo(() => parseGalleryFilters(new URLSearchParams(searchParams)), [searchParams]);
+
+  /**
+   * Replace the URL's query params with the given filters
+   */
+  const replaceFilters = useCallback(
+    (next: GalleryFilters) => {
+      const query = toGallerySearchParams(next, new URLSearchParams(searchParams)).toString();
+      router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+    },
+    [router, pathname, searchParams]
+  );
+
+  const setFilters = useCallback(
+    (update: Partial<GalleryFilters>) => replaceFilters({ ...filters, ...update }),
+    [filters, replaceFilters]
+  );
+
+  const resetFilters = useCallback(() => replaceFilters(DEFAULT_GALLERY_FILTERS), [replaceFilters]);
+
+  return {
+    filters,
+    isFiltered: filters.query.trim() !== '' || filters.minLevel !== null || filters.maxLevel !== null,
+    setFilters,
+    resetFilters,
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Image Upload Hook for Sui DApp
+ *
+ * This file provides a custom React hook for uploading NFT images through the
+ * app's `/api/images` route, so users without their own image hosting can mint
+ * from a local file.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { uploadImage, validateImageFile } from '@/lib/images';
+import { StoredImage, UseImageUploadReturn } from '@/types/sui';
+import { toast } from 'sonner';
+
+// ============================================================================
+// IMAGE UPLOAD HOOK
+// ============================================================================
+
+/**
+ * Custom hook for uploading NFT images
+ *
+ * This hook provides:
+ * - Validation against the supported image types and maximum file size before
+ *   anything is sent
+ * - Upload to the server's configured storage backend
+ * - The stored image's public URL, ready to be minted
+ * - Loading and error state, with failures reported as toasts
+ *
+ * @returns Object containing the upload function and its state
+ *
+ * @example
+ * ```tsx
+ * const { upload, isUploading } = useImageUpload();
+ *
+ * const image = await upload(file);
+ * if (image) form.setValue('image_url', image.url);
+ * ```
+ */
+export function useImageUpload(): UseImageUploadReturn {
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const upload = async (file: File): Promise<StoredImage | null> => {
+    setError(null);
+
+    const validation = validateImageFile(file);
+    if (!validation.isValid) {
+      const message = validation.error ?? 'Invalid image';
+      setError(message);
+      toast.error(message);
+      return null;
+    }
+
+    setIsUploading(true);
+
+    try {
+      const result = await uploadImage(file);
+
+      toast.success('Image uploaded', { description: result.url });
+      return result;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to upload image';
+      setError(message);
+      toast.error('Failed to upload image', { description: message });
+      return null;
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return {
+    upload,
+    isUploading,
+    error,
+    reset: () => setError(null),
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Image URL Validation Hook for Sui DApp
+ *
+ * This file provides a custom React hook for checking the image URL entered in
+ * the mint form through the app's `/api/images/validate` route, so images that
+ * cannot be loaded are caught before they are minted permanently.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { IMAGE_URL_VALIDATION_CACHE_TIME } from '@/lib/constants';
+import { ImageUrlValidationResponse, UseImageUrlValidationReturn, ValidatedImageUrl } from '@/types/sui';
+
+/**
+ * Time to wait after the URL stops changing before checking it
+ */
+const VALIDATION_DEBOUNCE = 500;
+
+/**
+ * Query key of the check of one image URL
+ */
+const getValidationQueryKey = (url: string) => ['imageUrlValidation', url];
+
+/**
+ * Check an image URL on the server
+ *
+ * @throws Error with the reason the URL is invalid
+ */
+async function requestImageUrlValidation(url: string): Promise<ValidatedImageUrl> {
+  const response = await fetch('/api/images/validate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url }),
+  });
+  const result = (await response.json().catch(() => ({
+    error: `Validation failed with status ${response.status}`,
+  }))) as ImageUrlValidationResponse;
+
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+  return result;
+}
+
+// ============================================================================
+// IMAGE URL VALIDATION HOOK
+// ============================================================================
+
+/**
+ * Custom hook for checking an NFT image URL before it is minted
+ *
+ * This hook provides:
+ * - A check of the URL once it stops changing, confirming it serves a JPEG,
+ *   PNG, GIF or WebP image within the maximum file size
+ * - The normalized URL to mint, e.g. an HTTPS gateway URL for `ipfs://` URIs
+ * - `validate` for checking a URL on submit, sharing the cached results; call
+ *   the hook without a URL to only use `validate`, e.g. for a bulk mint manifest
+ *
+ * @param url - The image URL as entered, none to skip the automatic check
+ * @returns Object containing the validated image, check state and error
+ *
+ * @example
+ * ```tsx
+ * const { image, error, validate } = useImageUrlValidation(form.watch('image_url'));
+ *
+ * const { url } = await validate(data.image_url);
+ * await mintNFT({ ...data, image_url: url });
+ * ```
+ */
+export function useImageUrlValidation(url: string = ''): UseImageUrlValidationReturn {
+  const queryClient = useQueryClient();
+  const value = url.trim();
+  const [debouncedUrl, setDebouncedUrl] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedUrl(value), VALIDATION_DEBOUNCE);
+    return () => clearTimeout(timeout);
+  }, [value]);
+
+  const { data, isFetching, error } = useQuery({
+    queryKey: getValidationQueryKey(debouncedUrl),
+    queryFn: () => requestImageUrlValidation(debouncedUrl),
+    enabled: debouncedUrl !== '',
+    staleTime: IMAGE_URL_VALIDATION_CACHE_TIME,
+    retry: false,
+  });
+
+  const isCurrent = value !== '' && value === debouncedUrl;
+
+  return {
+    image: isCurrent ? data ?? null : null,
+    isValidating: value !== '' && (!isCurrent || isFetching),
+    error: isCurrent && error ? error.message : null,
+    validate: (input: string) =>
+      queryClient.fetchQuery({
+        queryKey: getValidationQueryKey(input.trim()),
+        queryFn: () => requestImageUrlValidation(input.trim()),
+        staleTime: IMAGE_URL_VALIDATION_CACHE_TIME,
+        retry: false,
+      }),
+  };
+}
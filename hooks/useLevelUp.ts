@@ -3,7 +3,8 @@
  * 
  * This file provides a custom React hook for upgrading NFT levels on the Sui blockchain.
  * It handles transaction creation, execution, and provides user feedback for the
- * level-up functionality of the smart contract.
+ * level-up functionality of the smart contract, for single NFTs and for batches of
+ * NFTs leveled up in one programmable transaction.
  * 
  * @author Rijad Kuloglija
  * @version 1.0.0
@@ -12,10 +13,11 @@
 'use client';
 
 import { useState } from 'react';
-import { useSignAndExecuteTransaction } from '@mysten/dapp-kit';
-import { createLevelUpTransaction, handleTransactionError } from '@/lib/transactionUtils';
-import { TransactionResponse, UseLevelUpReturn } from '@/types/sui';
-import { toast } from 'sonner';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { createBatchLevelUpTransaction } from '@/lib/transactionUtils';
+import { useTransactionExecutor } from '@/hooks/useTransactionExecutor';
+import { useContract } from '@/hooks/useContract';
+import { LevelUpProgress, NFTLevelUp, TransactionResponse, UseLevelUpReturn } from '@/types/sui';
 
 // ============================================================================
 // NFT LEVEL-UP HOOK
@@ -26,6 +28,9 @@ import { toast } from 'sonner';
  * 
  * This hook provides NFT upgrade functionality including:
  * - Transaction creation for smart contract level_up function
+ * - Batch level-ups with several level_up calls per NFT in one transaction
+ * - Per-NFT progress resolved from the confirmed transaction effects
+ * - Dry run pre-flight confirmed by the user before the wallet is asked to sign
  * - Wallet integration for signing and execution
  * - Loading state management during upgrade process
  * - Error handling with user-friendly messages
@@ -33,10 +38,10 @@ import { toast } from 'sonner';
  * - Standardized response format
  * 
  * The level-up process:
- * 1. Creates a Move call transaction targeting the NFT object
+ * 1. Creates one Move call per requested level for every NFT
  * 2. Signs the transaction using the connected wallet
  * 3. Executes the transaction on the blockchain
- * 4. Updates the NFT's level property via smart contract
+ * 4. Waits for confirmation and marks every NFT mutated by the effects as confirmed
  * 5. Provides user feedback through toast notifications
  * 
  * @returns Object containing level-up function and state
@@ -67,57 +72,68 @@ import { toast } from 'sonner';
  * ```
  */
 export function useLevelUp(): UseLevelUpReturn {
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  
-  const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransaction();
+  const [progress, setProgress] = useState<Record<string, LevelUpProgress>>({});
 
-  const levelUp = async (nftId: string): Promise<TransactionResponse> => {
-    setIsLoading(true);
-    setError(null);
+  const { getTargets } = useContract();
 
-    try {
-      // Create the transaction
-      const transaction = createLevelUpTransaction(nftId);
+  const { execute, isLoading, error } = useTransactionExecutor({
+    build: (levelUps: NFTLevelUp[]) => {
+      if (levelUps.length === 0 || levelUps.some((levelUp) => levelUp.levels < 1)) {
+        throw new Error('Select at least one NFT and one level to add');
+      }
+      return createBatchLevelUpTransaction(getTargets(), levelUps);
+    },
+    preflight: () => ({ title: 'Level Up' }),
+    successMessage: (_, levelUps) => {
+      const totalLevels = levelUps.reduce((sum, levelUp) => sum + levelUp.levels, 0);
+      return levelUps.length === 1 && totalLevels === 1
+        ? 'NFT leveled up successfully! 🚀'
+        : `Added ${totalLevels} level${totalLevels === 1 ? '' : 's'} across ${levelUps.length} NFT${levelUps.length === 1 ? '' : 's'} 🚀`;
+    },
+    errorMessage: 'Failed to level up',
+  });
 
-      // Sign and execute the transaction
-      const result = await new Promise<{ digest: string }>((resolve, reject) => {
-        signAndExecuteTransaction(
-          {
-            transaction,
-          },
-          {
-            onSuccess: (result) => resolve(result),
-            onError: (error) => reject(error),
-          }
-        );
-      });
+  /**
+   * Set the progress of every NFT in a level-up
+   */
+  const setBatchProgress = (
+    levelUps: NFTLevelUp[],
+    getStatus: (levelUp: NFTLevelUp) => LevelUpProgress['status']
+  ) => {
+    setProgress(
+      Object.fromEntries(
+        levelUps.map((levelUp) => [levelUp.nftId, { status: getStatus(levelUp), levels: levelUp.levels }])
+      )
+    );
+  };
+
+  const batchLevelUp = async (levelUps: NFTLevelUp[]): Promise<TransactionResponse> => {
+    setBatchProgress(levelUps, () => 'pending');
 
-      toast.success('NFT leveled up successfully! 🚀 Level will update shortly.');
-      
-      return {
-        success: true,
-        digest: result.digest,
-        data: result,
-      };
+    const result = await execute(levelUps);
 
-    } catch (err) {
-      const suiError = handleTransactionError(err);
-      setError(suiError.message);
-      toast.error(`Failed to level up NFT: ${suiError.message}`);
-      
-      return {
-        success: false,
-        error: suiError.message,
-      };
-    } finally {
-      setIsLoading(false);
+    if (result.status === 'cancelled') {
+      setProgress({});
+    } else {
+      // Every NFT the effects report as mutated has received its level-ups
+      const mutatedIds = new Set(
+        (result.effects?.mutated ?? []).map((object) => normalizeSuiAddress(object.reference.objectId))
+      );
+      setBatchProgress(levelUps, (levelUp) =>
+        mutatedIds.has(normalizeSuiAddress(levelUp.nftId)) ? 'confirmed' : 'failed'
+      );
     }
+
+    return result;
   };
 
+  const levelUp = (nftId: string): Promise<TransactionResponse> => batchLevelUp([{ nftId, levels: 1 }]);
+
   return {
     levelUp,
+    batchLevelUp,
+    progress,
     isLoading,
     error,
   };
-} 
\ No newline at end of file
+}
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Live Updates Hook for Sui DApp
+ *
+ * This file provides a custom React hook that keeps cached queries current
+ * without fixed-interval polling. It follows the contract's Move events and the
+ * connected account's transactions, and applies each new transaction to the
+ * query cache, so mints, level-ups and transfers made in other sessions show up
+ * almost immediately.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { useCurrentAccount, useSuiClientContext } from '@mysten/dapp-kit';
+import { useQueryClient } from '@tanstack/react-query';
+import { useContract } from '@/hooks/useContract';
+import { startLiveUpdates } from '@/lib/liveUpdates';
+import { applyTransactionToCache } from '@/lib/queryCache';
+
+// ============================================================================
+// LIVE UPDATES HOOK
+// ============================================================================
+
+/**
+ * Custom hook for following on-chain activity and updating the query cache
+ *
+ * This hook provides:
+ * - A subscription (or poller) for the contract module's Move events, so mints
+ *   and level-ups by any address refresh the NFTs they changed
+ * - A subscription (or poller) for transactions sent or received by the
+ *   connected account, so its coins, balances and NFTs stay current
+ * - Cache updates limited to the objects each transaction changed, with
+ *   balances refetched for the affected network
+ *
+ * Transactions already applied by the transaction executor are skipped. The
+ * hook restarts whenever the network, contract or connected account changes.
+ * Mount it once, inside the Sui client and wallet providers.
+ *
+ * @example
+ * ```tsx
+ * function LiveUpdates() {
+ *   useLiveUpdates();
+ *   return null;
+ * }
+ * ```
+ */
+export function useLiveUpdates(): void {
+  const { client, network } = useSuiClientContext();
+  const queryClient = useQueryClient();
+  const { deployment } = useContract();
+  const currentAccount = useCurrentAccount();
+  const address = currentAccount?.address;
+
+  useEffect(() => {
+    if (!deployment && !address) return;
+
+    return startLiveUpdates({
+      client,
+      eventFilters: deployment
+        ? [{ MoveEventModule: { package: deployment.originalPackageId, module: deployment.moduleName } }]
+        : [],
+      transactionFilters: address ? [{ FromAddress: address }, { ToAddress: address }] : [],
+      onTransaction: async (digest) => {
+        try {
+          const response = await client.getTransactionBlock({
+            digest,
+            options: { showEffects: true, showObjectChanges: true, showBalanceChanges: true },
+          });
+          await applyTransactionToCache(queryClient, client, network, response, { invalidateBalances: true });
+        } catch (err) {
+          console.error('Failed to apply live update:', err);
+        }
+      },
+    });
+  }, [client, network, queryClient, deployment, address]);
+}
@@ -11,11 +11,10 @@
 
 'use client';
 
-import { useState } from 'react';
-import { useSignAndExecuteTransaction } from '@mysten/dapp-kit';
-import { createMintNFTTransaction, handleTransactionError } from '@/lib/transactionUtils';
-import { MintNFTData, TransactionResponse, UseMintNFTReturn } from '@/types/sui';
-import { toast } from 'sonner';
+import { createMintNFTTransaction } from '@/lib/transactionUtils';
+import { useTransactionExecutor } from '@/hooks/useTransactionExecutor';
+import { useContract } from '@/hooks/useContract';
+import { MintNFTData, UseMintNFTReturn } from '@/types/sui';
 
 // ============================================================================
 // NFT MINTING HOOK
@@ -26,6 +25,7 @@ import { toast } from 'sonner';
  * 
  * This hook provides a complete NFT minting solution including:
  * - Transaction creation with smart contract interaction
+ * - Dry run pre-flight confirmed by the user before the wallet is asked to sign
  * - Wallet integration for signing and execution
  * - Loading state management during minting process
  * - Error handling with user-friendly messages
@@ -35,7 +35,7 @@ import { toast } from 'sonner';
  * The minting process:
  * 1. Creates a Move call transaction with NFT metadata
  * 2. Signs the transaction using the connected wallet
- * 3. Executes the transaction on the blockchain
+ * 3. Executes the transaction on the blockchain and waits until it is indexed
  * 4. Provides user feedback through toast notifications
  * 5. Returns success/failure status with transaction details
  * 
@@ -67,57 +67,21 @@ import { toast } from 'sonner';
  * ```
  */
 export function useMintNFT(): UseMintNFTReturn {
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  
-  const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransaction();
+  const { getTargets } = useContract();
 
-  const mintNFT = async (data: MintNFTData): Promise<TransactionResponse> => {
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      // Create the transaction
-      const transaction = createMintNFTTransaction(data);
-
-      // Sign and execute the transaction
-      const result = await new Promise<{ digest: string }>((resolve, reject) => {
-        signAndExecuteTransaction(
-          {
-            transaction,
-          },
-          {
-            onSuccess: (result) => resolve(result),
-            onError: (error) => reject(error),
-          }
-        );
-      });
-
-      toast.success('NFT minted successfully!');
-      
-      return {
-        success: true,
-        digest: result.digest,
-        data: result,
-      };
-
-    } catch (err) {
-      const suiError = handleTransactionError(err);
-      setError(suiError.message);
-      toast.error(`Failed to mint NFT: ${suiError.message}`);
-      
-      return {
-        success: false,
-        error: suiError.message,
-      };
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const { execute, isLoading, error } = useTransactionExecutor({
+    build: (data: MintNFTData) => createMintNFTTransaction(getTargets(), data),
+    preflight: (data) => ({
+      title: 'Mint NFT',
+      description: `Mint "${data.name}" to ${data.recipient || 'your wallet'}`,
+    }),
+    successMessage: () => 'NFT minted successfully!',
+    errorMessage: 'Failed to mint NFT',
+  });
 
   return {
-    mintNFT,
+    mintNFT: execute,
     isLoading,
     error,
   };
-} 
\ No newline at end of file
+}
@@ -0,0 +1,100 @@
+/**
+ * @fileoverview NFT Details Hook for Sui DApp
+ *
+ * This file provides a custom React hook for loading a single NFT by object ID,
+ * whoever owns it. It backs the shareable `/nft/[id]` page.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import { useCurrentAccount, useSuiClientQuery } from '@mysten/dapp-kit';
+import { isValidSuiObjectId, normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
+import { useContract } from '@/hooks/useContract';
+import { parseNFTObject } from '@/lib/nft';
+import { UseNFTDetailsReturn } from '@/types/sui';
+
+// ============================================================================
+// NFT DETAILS HOOK
+// ============================================================================
+
+/**
+ * Custom hook for a single NFT loaded by object ID
+ *
+ * This hook provides:
+ * - The NFT's metadata, parsed and validated like the gallery's NFTs
+ * - The object's owner, version and previous transaction
+ * - Whether the connected account owns the NFT
+ * - Errors for invalid IDs, missing objects and objects of another type
+ *
+ * @param id - Object ID of the NFT
+ * @returns Object containing the NFT, its object metadata and loading state
+ *
+ * @example
+ * ```tsx
+ * const { nft, owner, isOwner, error } = useNFTDetails(params.id);
+ * ```
+ */
+export function useNFTDetails(id: string): UseNFTDetailsReturn {
+  const currentAccount = useCurrentAccount();
+  const { nftType } = useContract();
+  const isValidId = isValidSuiObjectId(id);
+
+  const { data, isLoading, error, refetch } = useSuiClientQuery(
+    'getObject',
+    {
+      id,
+      options: {
+        showContent: true,
+        showType: true,
+        showOwner: true,
+        showDisplay: true,
+        showPreviousTransaction: true,
+      },
+    },
+    {
+      enabled: isValidId && !!nftType,
+    }
+  );
+
+  const details = useMemo(() => {
+    if (!data) return null;
+    if (!data.data) {
+      return { nft: null, error: `Object ${id} does not exist on this network` };
+    }
+    if (!data.data.type || normalizeStructTag(data.data.type) !== nftType) {
+      return { nft: null, error: `Object ${id} is not an NFT from this collection` };
+    }
+
+    const result = parseNFTObject(data);
+    return result.success ? { nft: result.nft, error: null } : { nft: null, error: result.invalid.error };
+  }, [data, id, nftType]);
+
+  const owner = data?.data?.owner ?? null;
+  const isOwner =
+    !!currentAccount &&
+    !!owner &&
+    typeof owner === 'object' &&
+    'AddressOwner' in owner &&
+    normalizeSuiAddress(owner.AddressOwner) === normalizeSuiAddress(currentAccount.address);
+
+  const getError = () => {
+    if (!isValidId) return `${id} is not a valid object ID`;
+    if (!nftType) return 'The NFT contract is not deployed on this network';
+    return error?.message ?? details?.error ?? null;
+  };
+
+  return {
+    nft: details?.nft ?? null,
+    owner,
+    version: data?.data?.version ?? null,
+    previousTransaction: data?.data?.previousTransaction ?? null,
+    isOwner,
+    isLoading: isValidId && !!nftType && isLoading,
+    error: getError(),
+    refetch,
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview NFT History Hook for Sui DApp
+ *
+ * This file provides a custom React hook for the transactions that changed one
+ * NFT: its mint, level-ups and transfers. It pages through
+ * `queryTransactionBlocks` with the `ChangedObject` filter.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import { useSuiClientInfiniteQuery } from '@mysten/dapp-kit';
+import { isValidSuiObjectId } from '@mysten/sui/utils';
+import { HISTORY_PAGE_SIZE } from '@/lib/constants';
+import { countLevelUps, HISTORY_QUERY_OPTIONS, toHistoryEntry } from '@/lib/transactionHistory';
+import { useContract } from '@/hooks/useContract';
+import { NFTLevelUpRecord, UseNFTHistoryReturn } from '@/types/sui';
+
+// ============================================================================
+// NFT HISTORY HOOK
+// ============================================================================
+
+/**
+ * Custom hook for the transaction history of one NFT
+ *
+ * This hook provides:
+ * - Transactions that created or mutated the NFT, newest first
+ * - Cursor pagination over the history
+ * - Level-ups decoded from the loaded transactions, with the number of levels
+ *   each one added to this NFT
+ *
+ * @param nftId - Object ID of the NFT (disabled when it is not a valid ID)
+ * @returns Object containing history entries, level-ups and pagination controls
+ *
+ * @example
+ * ```tsx
+ * const { transactions, levelUps, hasMore, loadMore } = useNFTHistory(nftId);
+ * ```
+ */
+export function useNFTHistory(nftId: string): UseNFTHistoryReturn {
+  const { deployment } = useContract();
+
+  const { data, isLoading, isFetchingNextPage, hasNextPage, fetchNextPage, error, refetch } =
+    useSuiClientInfiniteQuery(
+      'queryTransactionBlocks',
+      {
+        filter: { ChangedObject: nftId },
+        options: HISTORY_QUERY_OPTIONS,
+        limit: HISTORY_PAGE_SIZE,
+        order: 'descending',
+      },
+      {
+        enabled: isValidSuiObjectId(nftId),
+      }
+    );
+
+  const { transactions, levelUps } = useMemo(() => {
+    const items = data?.pages.flatMap((page) => page.data) ?? [];
+
+    const levelUps = deployment
+      ? items.flatMap((tx): NFTLevelUpRecord[] => {
+          const levels = tx.effects?.status.status === 'success' ? countLevelUps(tx, deployment, nftId) : 0;
+          if (levels === 0) return [];
+
+          return [
+            {
+              digest: tx.digest,
+              levels,
+              sender: tx.transaction?.data.sender ?? null,
+              timestampMs: tx.timestampMs ? Number(tx.timestampMs) : null,
+            },
+          ];
+        })
+      : [];
+
+    return { transactions: items.map((tx) => toHistoryEntry(tx, deployment)), levelUps };
+  }, [data, deployment, nftId]);
+
+  return {
+    transactions,
+    levelUps,
+    isLoading,
+    isFetchingMore: isFetchingNextPage,
+    hasMore: hasNextPage,
+    loadMore: () => fetchNextPage(),
+    error: error?.message ?? null,
+    refetch,
+  };
+}
@@ -11,10 +11,12 @@
 
 'use client';
 
-import { useSuiClientQuery } from '@mysten/dapp-kit';
+import { useSuiClientInfiniteQuery } from '@mysten/dapp-kit';
 import { useCurrentAccount } from '@mysten/dapp-kit';
-import { PACKAGE_ID } from '@/lib/constants';
-import { SimpleNFT } from '@/types/sui';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { useContract } from '@/hooks/useContract';
+import { parseNFTObject } from '@/lib/nft';
+import { InvalidNFTObject, SimpleNFT, UseNFTsReturn } from '@/types/sui';
 import { useMemo } from 'react';
 
 // ============================================================================
@@ -22,85 +24,79 @@ import { useMemo } from 'react';
 // ============================================================================
 
 /**
- * Custom hook for fetching and managing user's NFT collection
+ * Custom hook for fetching and managing the NFT collection of an address
  * 
  * This hook provides comprehensive NFT collection management including:
- * - Real-time fetching of user's owned NFTs from the blockchain
- * - Automatic filtering for NFTs from the specific smart contract
- * - Data transformation from raw blockchain objects to standardized format
+ * - Real-time fetching of the address's owned NFTs from the blockchain
+ * - Cursor pagination, with every loaded page merged into one list
+ * - Server-side filtering for NFTs of the contract's original struct type on the active
+ *   network, so NFTs minted before a package upgrade are still found
+ * - Schema-validated transformation from raw blockchain objects to standardized format,
+ *   with objects of the wrong shape reported in `invalidObjects`
  * - Support for NFT display metadata and custom fields
- * - Automatic refresh every 30 seconds to stay current
+ * - Live updates for the connected account, and a refresh every 30 seconds for
+ *   other addresses, whose transfers are not followed by `useLiveUpdates`
  * - Loading states and error handling
  * 
- * @returns Object containing NFT collection and state
+ * @param owner - The address whose NFTs to load (defaults to the connected account)
+ * @returns Object containing NFT collection, pagination controls and state
  */
-export function useNFTs() {
+export function useNFTs(owner?: string): UseNFTsReturn {
   const currentAccount = useCurrentAccount();
+  const address = owner ?? currentAccount?.address;
+  const { nftType } = useContract();
+  const isConnectedAccount =
+    !!address && !!currentAccount && normalizeSuiAddress(address) === normalizeSuiAddress(currentAccount.address);
 
-  // Fetch all objects owned by the user
-  const { data: ownedObjects, isLoading, error, refetch } = useSuiClientQuery(
-    'getOwnedObjects',
-    {
-      owner: currentAccount?.address ?? '',
-      filter: {
-        Package: PACKAGE_ID,
+  // Fetch the address's NFTs, filtered by struct type on the server, one page at a time
+  const { data, isLoading, error, refetch, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useSuiClientInfiniteQuery(
+      'getOwnedObjects',
+      {
+        owner: address ?? '',
+        filter: {
+          StructType: nftType ?? '',
+        },
+        options: {
+          showContent: true,
+          showType: true,
+          showOwner: true,
+          showDisplay: true,
+        },
       },
-      options: {
-        showContent: true,
-        showType: true,
-        showOwner: true,
-        showDisplay: true,
-      },
-    },
-    {
-      enabled: !!currentAccount?.address,
-      refetchInterval: 30000, // Refresh every 30 seconds
-    }
-  );
-
-  // Transform the raw object data into SimpleNFT format
-  const nfts = useMemo((): SimpleNFT[] => {
-    if (!ownedObjects?.data) return [];
-
-    // Debug: Log all owned objects to see what we're getting
-    console.log('All owned objects:', ownedObjects.data);
-    
-    // Filter for objects from our package (temporarily removing type filter for debugging)
-    const packageObjects = ownedObjects.data.filter((obj) => {
-      const hasPackageId = obj.data?.type?.includes(PACKAGE_ID);
-      console.log('Object type:', obj.data?.type, 'Has package ID:', hasPackageId);
-      return hasPackageId;
-    });
-    
-    console.log('Objects from our package:', packageObjects);
+      {
+        enabled: !!address && !!nftType,
+        refetchInterval: isConnectedAccount ? false : 30000, // Refresh other addresses every 30 seconds
+      }
+    );
 
-    return packageObjects
-      .map((obj): SimpleNFT => {
-        const content = obj.data?.content;
-        const fields = content && 'fields' in content ? (content.fields as Record<string, unknown>) : {};
-        const display = obj.data?.display?.data;
+  // Parse the raw objects into SimpleNFT format, keeping the ones that do not match the schema
+  const { nfts, invalidObjects } = useMemo(() => {
+    const nfts: SimpleNFT[] = [];
+    const invalidObjects: InvalidNFTObject[] = [];
 
-        console.log('Processing object:', {
-          id: obj.data?.objectId,
-          type: obj.data?.type,
-          fields,
-          display
-        });
-
-        return {
-          id: { id: obj.data?.objectId ?? '' },
-          name: display?.name || (typeof fields?.name === 'string' ? fields.name : '') || 'Unknown NFT',
-          description: display?.description || (typeof fields?.description === 'string' ? fields.description : '') || 'No description',
-          image_url: display?.image_url || (typeof fields?.image_url === 'string' ? fields.image_url : '') || '',
-          level: typeof fields?.level === 'number' ? fields.level : 1,
-        };
+    data?.pages
+      .flatMap((page) => page.data)
+      .forEach((object) => {
+        const result = parseNFTObject(object);
+        if (result.success) {
+          nfts.push(result.nft);
+        } else {
+          invalidObjects.push(result.invalid);
+        }
       });
-  }, [ownedObjects, currentAccount?.address]);
+
+    return { nfts, invalidObjects };
+  }, [data]);
 
   return {
     nfts,
+    invalidObjects,
     isLoading,
-    error: error?.message ?? null,
+    error: nftType ? error?.message ?? null : 'The NFT contract is not deployed on this network',
     refetch,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
   };
 } 
\ No newline at end of file
@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Network Mismatch Hook for Sui DApp
+ *
+ * This file provides a custom React hook for detecting when the connected wallet
+ * is on a different chain than the app's active network. Signing in that state
+ * fails with an opaque wallet error, so the header warns about it and the
+ * transaction executor refuses to build transactions until it is resolved.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useCurrentAccount, useSuiClientContext } from '@mysten/dapp-kit';
+import { SuiNetwork, UseNetworkMismatchReturn } from '@/types/sui';
+
+// ============================================================================
+// NETWORK MISMATCH HOOK
+// ============================================================================
+
+/**
+ * Custom hook for comparing the wallet's chain with the app's network
+ *
+ * This hook provides:
+ * - The `sui:<network>` chains reported by the connected wallet account
+ * - Whether none of them match the app's active network
+ * - The configured app network the wallet is on, and a function to switch to it
+ *
+ * Accounts that report no Sui chains are treated as matching, since the
+ * active chain cannot be determined.
+ *
+ * @returns Object containing the mismatch state and switch function
+ *
+ * @example
+ * ```tsx
+ * const { isMismatch, walletNetwork, switchToWalletNetwork } = useNetworkMismatch();
+ *
+ * if (isMismatch && walletNetwork) {
+ *   return <button onClick={switchToWalletNetwork}>Switch to {walletNetwork}</button>;
+ * }
+ * ```
+ */
+export function useNetworkMismatch(): UseNetworkMismatchReturn {
+  const currentAccount = useCurrentAccount();
+  const { network, networks, selectNetwork } = useSuiClientContext();
+
+  const walletChains = (currentAccount?.chains ?? []).filter((chain) => chain.startsWith('sui:'));
+  const isMismatch = walletChains.length > 0 && !walletChains.includes(`sui:${network}`);
+
+  // The first wallet chain the app has a network configured for
+  const walletNetwork =
+    (walletChains.map((chain) => chain.slice('sui:'.length)).find((name) => name in networks) as SuiNetwork) ??
+    null;
+
+  const switchToWalletNetwork = () => {
+    if (walletNetwork) selectNetwork(walletNetwork);
+  };
+
+  return {
+    isMismatch,
+    walletNetwork,
+    walletChains,
+    switchToWalletNetwork,
+  };
+}
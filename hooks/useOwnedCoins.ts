@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Owned Coins Hook for Sui DApp
+ *
+ * This file provides a custom React hook for the connected account's coin
+ * objects of one coin type. Every component and hook that lists coins shares
+ * this cursor-paginated query, so pages loaded in one place are visible in all
+ * of them and confirmed transactions patch a single cache entry.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import { useCurrentAccount, useSuiClientInfiniteQuery } from '@mysten/dapp-kit';
+import { SUI_COIN_TYPE } from '@/lib/constants';
+import { UseOwnedCoinsReturn } from '@/types/sui';
+
+// ============================================================================
+// OWNED COINS HOOK
+// ============================================================================
+
+/**
+ * Custom hook for the user's coin objects of one coin type
+ *
+ * This hook provides:
+ * - Cursor pagination over `getCoins`, with every loaded page flattened
+ * - Loading, next-page and error state
+ * - Kept current by the live update layer instead of polling
+ *
+ * Coin counts and totals should come from `useCoinRegistry`, which is exact
+ * even while later pages are not loaded.
+ *
+ * @param coinType - The coin type to list (defaults to SUI)
+ * @returns Object containing the loaded coins and pagination controls
+ *
+ * @example
+ * ```tsx
+ * const { coins, hasNextPage, fetchNextPage } = useOwnedCoins(coinType);
+ * ```
+ */
+export function useOwnedCoins(coinType: string = SUI_COIN_TYPE): UseOwnedCoinsReturn {
+  const currentAccount = useCurrentAccount();
+
+  const { data, isLoading, error, refetch, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useSuiClientInfiniteQuery(
+      'getCoins',
+      {
+        owner: currentAccount?.address ?? '',
+        coinType,
+      },
+      {
+        enabled: !!currentAccount?.address,
+      }
+    );
+
+  const coins = useMemo(() => data?.pages.flatMap((page) => page.data) ?? [], [data]);
+
+  return {
+    coins,
+    isLoading,
+    error: error?.message ?? null,
+    refetch,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Transaction Pre-flight Hook for Sui DApp
+ *
+ * This file provides the shared pre-flight step that runs before every wallet
+ * signature. A transaction is dry run, its expected effects are shown in the
+ * pre-flight dialog, and signing only continues once the user confirms a
+ * successful dry run.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { create } from 'zustand';
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
+import { Transaction } from '@mysten/sui/transactions';
+import { dryRunTransaction } from '@/lib/transactionUtils';
+import { PreflightDetails, PreflightSummary, UsePreflightReturn } from '@/types/sui';
+
+// ============================================================================
+// PRE-FLIGHT STORE
+// ============================================================================
+
+/** Source of unique pre-flight request IDs */
+let requestCount = 0;
+
+/**
+ * State and actions of the pre-flight store
+ */
+interface PreflightState {
+  /** The pending pre-flight request, null when the dialog is closed */
+  request: (PreflightDetails & { id: number; summary: PreflightSummary | null }) | null;
+  /** Resolves the pending request with the user's decision */
+  resolve: ((confirmed: boolean) => void) | null;
+  /** Open the dialog for a new request, cancelling any pending one; returns the request ID */
+  open: (details: PreflightDetails, resolve: (confirmed: boolean) => void) => number;
+  /** Attach the dry run result to the request, if it is still pending */
+  setSummary: (id: number, summary: PreflightSummary) => void;
+  /** Close the dialog with the user's decision */
+  settle: (confirmed: boolean) => void;
+}
+
+/**
+ * Store backing the pre-flight dialog
+ *
+ * Read by `PreflightDialog`; hooks should go through `usePreflight` instead.
+ */
+export const usePreflightStore = create<PreflightState>()((set, get) => ({
+  request: null,
+  resolve: null,
+  open: (details, resolve) => {
+    const id = ++requestCount;
+    get().resolve?.(false);
+    set({ request: { ...details, id, summary: null }, resolve });
+    return id;
+  },
+  setSummary: (id, summary) => {
+    const { request } = get();
+    if (request?.id === id) set({ request: { ...request, summary } });
+  },
+  settle: (confirmed) => {
+    const { resolve, request } = get();
+    // A failed dry run can never be confirmed
+    resolve?.(confirmed && !!request?.summary?.success);
+    set({ request: null, resolve: null });
+  },
+}));
+
+// ============================================================================
+// PRE-FLIGHT HOOK
+// ============================================================================
+
+/**
+ * Custom hook for confirming transactions before they are signed
+ *
+ * This hook provides:
+ * - A dry run of the transaction for the connected address
+ * - The pre-flight dialog with estimated gas, balance changes and object changes
+ * - Blocking of signing when the dry run fails, showing the abort reason instead
+ *
+ * @returns Object containing the confirm function
+ *
+ * @example
+ * ```tsx
+ * const { confirmTransaction } = usePreflight();
+ *
+ * const transaction = createMintNFTTransaction(targets, data);
+ * if (!(await confirmTransaction(transaction, { title: 'Mint NFT' }))) return;
+ * signAndExecuteTransaction({ transaction });
+ * ```
+ */
+export function usePreflight(): UsePreflightReturn {
+  const currentAccount = useCurrentAccount();
+  const suiClient = useSuiClient();
+  const open = usePreflightStore((state) => state.open);
+  const setSummary = usePreflightStore((state) => state.setSummary);
+
+  const confirmTransaction = async (transaction: Transaction, details: PreflightDetails): Promise<boolean> => {
+    if (!currentAccount?.address) {
+      throw new Error('Please connect your wallet first');
+    }
+
+    let id = 0;
+    const confirmed = new Promise<boolean>((resolve) => {
+      id = open(details, resolve);
+    });
+    setSummary(id, await dryRunTransaction(suiClient, transaction, currentAccount.address));
+
+    return confirmed;
+  };
+
+  return {
+    confirmTransaction,
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Address Resolution Hook for Sui DApp
+ *
+ * This file provides a custom React hook for turning an address or SuiNS name
+ * from a URL into a normalized address. Names are resolved through the network's
+ * RPC, which not every network supports.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useSuiClientQuery } from '@mysten/dapp-kit';
+import { isValidSuiAddress, isValidSuiNSName, normalizeSuiAddress, normalizeSuiNSName } from '@mysten/sui/utils';
+import { UseResolvedAddressReturn } from '@/types/sui';
+
+// ============================================================================
+// ADDRESS RESOLUTION HOOK
+// ============================================================================
+
+/**
+ * Custom hook for resolving an address or SuiNS name
+ *
+ * This hook provides:
+ * - Normalized addresses as-is, with their SuiNS name when the RPC knows one
+ * - SuiNS names (`alice.sui` or `@alice`) resolved to their target address
+ * - Errors for invalid input, unregistered names and RPCs without SuiNS support
+ *
+ * Reverse lookups only add the name to the result, so their failures are ignored.
+ *
+ * @param input - An address or SuiNS name
+ * @returns Object containing the resolved address, its name and resolution state
+ *
+ * @example
+ * ```tsx
+ * const { address, name, error } = useResolvedAddress('alice.sui');
+ * ```
+ */
+export function useResolvedAddress(input: string): UseResolvedAddressReturn {
+  const value = input.trim();
+  const isAddress = isValidSuiAddress(value);
+  const isName = !isAddress && isValidSuiNSName(value);
+
+  const { data: resolved, isLoading, error } = useSuiClientQuery(
+    'resolveNameServiceAddress',
+    {
+      name: isName ? normalizeSuiNSName(value, 'dot') : '',
+    },
+    {
+      enabled: isName,
+      retry: false,
+    }
+  );
+
+  const address = isAddress ? normalizeSuiAddress(value) : resolved ? normalizeSuiAddress(resolved) : null;
+
+  const { data: names } = useSuiClientQuery(
+    'resolveNameServiceNames',
+    {
+      address: address ?? '',
+      format: 'at',
+      limit: 1,
+    },
+    {
+      enabled: isAddress,
+      retry: false,
+    }
+  );
+
+  const getError = () => {
+    if (!isAddress && !isName) return `"${value}" is not a valid Sui address or SuiNS name`;
+    if (error) return `Could not resolve ${value}, this network may not support SuiNS: ${error.message}`;
+    if (isName && resolved === null) return `${value} is not registered on SuiNS on this network`;
+    return null;
+  };
+
+  return {
+    address,
+    name: isName ? normalizeSuiNSName(value, 'at') : names?.data[0] ?? null,
+    isLoading: isName && isLoading,
+    error: getError(),
+  };
+}
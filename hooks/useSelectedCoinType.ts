@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Selected Coin Type Store for Sui DApp
+ *
+ * This file provides a small persisted Zustand store holding the coin type the
+ * user is currently working with. The header balance, coin management and split
+ * flow all read from it, so switching coin type in one place updates the others.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { SUI_COIN_TYPE } from '@/lib/constants';
+
+// ============================================================================
+// SELECTED COIN TYPE STORE
+// ============================================================================
+
+/**
+ * State and actions of the selected coin type store
+ */
+interface SelectedCoinTypeState {
+  /** The coin type currently selected in the UI */
+  coinType: string;
+  /** Select a different coin type */
+  setCoinType: (coinType: string) => void;
+}
+
+/**
+ * Hook for reading and changing the selected coin type
+ *
+ * The selection is persisted to localStorage and defaults to native SUI.
+ *
+ * @returns The selected coin type and a setter
+ *
+ * @example
+ * ```tsx
+ * const { coinType, setCoinType } = useSelectedCoinType();
+ * ```
+ */
+export const useSelectedCoinType = create<SelectedCoinTypeState>()(
+  persist(
+    (set) => ({
+      coinType: SUI_COIN_TYPE,
+      setCoinType: (coinType) => set({ coinType }),
+    }),
+    {
+      name: 'selected-coin-type',
+    }
+  )
+);
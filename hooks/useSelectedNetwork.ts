@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Selected Network Store for Sui DApp
+ *
+ * This file provides a small persisted Zustand store holding the Sui network the
+ * app is connected to. `SuiProvider` passes it to `SuiClientProvider`, so a
+ * network picked in the header survives page reloads.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { defaultNetwork } from '@/lib/suiClient';
+import { SuiNetwork } from '@/types/sui';
+
+// ============================================================================
+// SELECTED NETWORK STORE
+// ============================================================================
+
+/**
+ * State and actions of the selected network store
+ */
+interface SelectedNetworkState {
+  /** The network the app is connected to */
+  network: SuiNetwork;
+  /** Select a different network */
+  setNetwork: (network: SuiNetwork) => void;
+}
+
+/**
+ * Hook for reading and changing the selected network
+ *
+ * The selection is persisted to localStorage and defaults to `NEXT_PUBLIC_SUI_NETWORK`.
+ * The saved selection is not read on creation, since the server always renders
+ * the default network: `SuiProvider` calls `useSelectedNetwork.persist.rehydrate()`
+ * once mounted, so the first client render matches the server's HTML.
+ * Components should switch networks through `useSuiClientContext().selectNetwork`,
+ * which updates this store via the provider.
+ *
+ * @returns The selected network and a setter
+ *
+ * @example
+ * ```tsx
+ * const { network } = useSelectedNetwork();
+ * ```
+ */
+export const useSelectedNetwork = create<SelectedNetworkState>()(
+  persist(
+    (set) => ({
+      network: defaultNetwork,
+      setNetwork: (network) => set({ network }),
+    }),
+    {
+      name: 'selected-network',
+      skipHydration: true,
+    }
+  )
+);
@@ -0,0 +1,171 @@
+/**
+ * @fileoverview SUI Transfer Hook for Sui DApp
+ *
+ * This file provides a custom React hook for sending SUI to other addresses.
+ * It supports single transfers and batch payouts in one programmable transaction,
+ * a dry run pre-flight confirmation, and per-recipient result reporting.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { createSendSuiTransaction, suiToMist } from '@/lib/transactionUtils';
+import { SUI_COIN_TYPE } from '@/lib/constants';
+import { useCoinRegistry } from '@/hooks/useCoinRegistry';
+import { useOwnedCoins } from '@/hooks/useOwnedCoins';
+import { useTransactionExecutor } from '@/hooks/useTransactionExecutor';
+import { PaymentResult, SuiPayment, TransactionResponse, UseSendSuiReturn } from '@/types/sui';
+
+// ============================================================================
+// SUI TRANSFER HOOK
+// ============================================================================
+
+/**
+ * Custom hook for sending SUI to one or more recipients
+ *
+ * This hook provides SUI transfer functionality including:
+ * - Single transfers and batch payouts in one programmable transaction
+ * - A dry run pre-flight confirmation showing gas and balance changes
+ * - Balance checks against the user's total SUI balance
+ * - Wallet integration for signing and execution
+ * - Per-recipient results resolved from the confirmed object changes
+ * - Success/failure toast notifications
+ *
+ * The send process:
+ * 1. Converts every payment amount from SUI to MIST
+ * 2. Splits all amounts from the gas coin in one splitCoins command
+ * 3. Transfers each new coin to its recipient
+ * 4. Dry runs the transaction and asks the user to confirm it
+ * 5. Signs and executes the transaction via wallet
+ * 6. Waits for confirmation and matches created coins to recipients
+ *
+ * @returns Object containing the send function and state
+ *
+ * @example
+ * ```tsx
+ * function PayButton({ recipient }: { recipient: string }) {
+ *   const { sendSui, isLoading } = useSendSui();
+ *
+ *   return (
+ *     <button onClick={() => sendSui([{ recipient, amount: '1' }])} disabled={isLoading}>
+ *       {isLoading ? 'Sending...' : 'Send 1 SUI'}
+ *     </button>
+ *   );
+ * }
+ * ```
+ */
+export function useSendSui(): UseSendSuiReturn {
+  const [results, setResults] = useState<PaymentResult[]>([]);
+
+  // Get user's loaded SUI coins and total balance
+  const { coins } = useOwnedCoins();
+  const { getCoinInfo } = useCoinRegistry();
+  const coinInfo = getCoinInfo(SUI_COIN_TYPE);
+
+  /**
+   * Validate the payout against the user's coins and build the transaction
+   */
+  const buildPayoutTransaction = (payments: SuiPayment[]) => {
+    if (payments.length === 0) {
+      throw new Error('Add at least one recipient');
+    }
+
+    if (coins.length === 0) {
+      throw new Error('No SUI coins found in your wallet');
+    }
+
+    // Payments are split from the gas coin, which the SDK merges from all SUI coins,
+    // so the total balance must cover them; gas is checked by the pre-flight dry run
+    const totalBalance = BigInt(coinInfo.totalBalance);
+    const requiredAmount = payments.reduce((sum, payment) => sum + BigInt(suiToMist(payment.amount)), BigInt(0));
+
+    if (totalBalance < requiredAmount) {
+      throw new Error('Insufficient balance for the payout');
+    }
+
+    return createSendSuiTransaction(
+      payments.map((payment) => ({
+        recipient: payment.recipient,
+        amount: suiToMist(payment.amount),
+      }))
+    );
+  };
+
+  /**
+   * Match the created coins to recipients, in payment order
+   */
+  const matchPayments = (payments: SuiPayment[], confirmed?: SuiTransactionBlockResponse) => {
+    const createdCoins = (confirmed?.objectChanges ?? []).filter(
+      (change) => change.type === 'created' && change.objectType.includes('::coin::Coin<')
+    );
+
+    return payments.map((payment): PaymentResult => {
+      const recipient = normalizeSuiAddress(payment.recipient);
+      const index = createdCoins.findIndex(
+        (change) =>
+          change.type === 'created' &&
+          typeof change.owner === 'object' &&
+          'AddressOwner' in change.owner &&
+          change.owner.AddressOwner === recipient
+      );
+      const [coin] = index === -1 ? [] : createdCoins.splice(index, 1);
+
+      return {
+        recipient: payment.recipient,
+        amount: payment.amount,
+        success: true,
+        coinObjectId: coin && coin.type === 'created' ? coin.objectId : undefined,
+      };
+    });
+  };
+
+  const { execute, isLoading, error } = useTransactionExecutor({
+    build: buildPayoutTransaction,
+    preflight: (payments: SuiPayment[]) => ({
+      title: 'Send SUI',
+      description: payments.length > 1
+        ? `Pay ${payments.length} recipients in one transaction`
+        : `Send ${payments[0].amount} SUI to ${payments[0].recipient}`,
+    }),
+    successMessage: (_, payments) =>
+      payments.length > 1
+        ? `Successfully paid ${payments.length} recipients`
+        : `Successfully sent ${payments[0].amount} SUI`,
+    errorMessage: 'Failed to send SUI',
+  });
+
+  const sendSui = async (
+    payments: SuiPayment[]
+  ): Promise<TransactionResponse & { results: PaymentResult[] }> => {
+    setResults([]);
+
+    const result = await execute(payments);
+    const paymentResults = result.success
+      ? matchPayments(payments, result.data)
+      : payments.map((payment): PaymentResult => ({
+          recipient: payment.recipient,
+          amount: payment.amount,
+          success: false,
+          error: result.error,
+        }));
+
+    setResults(paymentResults);
+
+    return {
+      ...result,
+      results: paymentResults,
+    };
+  };
+
+  return {
+    sendSui,
+    results,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * @fileoverview Transaction Executor Hook for Sui DApp
+ *
+ * This file provides the shared pipeline every transaction hook is built on:
+ * build the transaction, confirm the pre-flight dry run, sign and execute it
+ * with the wallet, wait until it is indexed and patch the cached queries with
+ * its effects. Status, errors and toasts are handled here so feature hooks only
+ * describe their transaction.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useSignAndExecuteTransaction, useSuiClientContext } from '@mysten/dapp-kit';
+import { SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { useQueryClient } from '@tanstack/react-query';
+import { handleTransactionError, waitForTransaction } from '@/lib/transactionUtils';
+import { applyTransactionToCache } from '@/lib/queryCache';
+import { usePreflight } from '@/hooks/usePreflight';
+import { useNetworkMismatch } from '@/hooks/useNetworkMismatch';
+import {
+  TransactionExecutionResult,
+  TransactionExecutionStatus,
+  TransactionExecutorOptions,
+  UseTransactionExecutorReturn,
+} from '@/types/sui';
+import { toast } from 'sonner';
+
+// ============================================================================
+// TRANSACTION EXECUTOR HOOK
+// ============================================================================
+
+/**
+ * Custom hook for running a transaction through the full signing lifecycle
+ *
+ * This hook provides:
+ * - Transaction building from a typed input, with validation errors surfaced
+ * - Refusal to build while the wallet is on a different network than the app
+ * - The dry run pre-flight confirmation (when `preflight` is configured)
+ * - Wallet integration for signing and execution
+ * - Optimistic updates from `onSigned`, rolled back when the transaction fails
+ * - Waiting for the transaction to be indexed before resolving
+ * - Cached owned objects, coins and balances patched from the confirmed effects
+ * - Confirmed effects and created object IDs
+ * - Errors classified through `handleTransactionError`
+ * - Lifecycle callbacks and success/failure toast notifications
+ *
+ * The execution process:
+ * 1. Builds the transaction (status `preflight` while it is dry run and confirmed)
+ * 2. Signs and executes it via wallet (status `signing`)
+ * 3. Waits for the transaction to be indexed and updates the query cache (status `confirming`)
+ * 4. Resolves with `success`, `error` or `cancelled`
+ *
+ * @param options - Transaction builder, pre-flight labels, messages and callbacks
+ * @returns Object containing the execute function and lifecycle state
+ *
+ * @example
+ * ```tsx
+ * const { execute, isLoading } = useTransactionExecutor({
+ *   build: (data: MintNFTData) => createMintNFTTransaction(getTargets(), data),
+ *   preflight: (data) => ({ title: 'Mint NFT', description: `Mint "${data.name}"` }),
+ *   successMessage: () => 'NFT minted successfully!',
+ *   errorMessage: 'Failed to mint NFT',
+ * });
+ *
+ * const result = await execute({ name, description, image_url });
+ * console.log(result.createdObjectIds);
+ * ```
+ */
+export function useTransactionExecutor<TInput>(
+  options: TransactionExecutorOptions<TInput>
+): UseTransactionExecutorReturn<TInput> {
+  const [status, setStatus] = useState<TransactionExecutionStatus>('idle');
+  const [result, setResult] = useState<TransactionExecutionResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { client: suiClient, network } = useSuiClientContext();
+  const queryClient = useQueryClient();
+  const { mutateAsync: signAndExecuteTransaction } = useSignAndExecuteTransaction();
+  const { confirmTransaction } = usePreflight();
+  const { isMismatch, walletChains } = useNetworkMismatch();
+
+  /**
+   * Record the outcome of a run and notify the settled callback
+   */
+  const settle = (outcome: TransactionExecutionResult, input: TInput) => {
+    setStatus(outcome.status);
+    setResult(outcome);
+    options.onSettled?.(outcome, input);
+    return outcome;
+  };
+
+  /**
+   * Patch cached queries with a confirmed transaction, refetching them if that fails
+   */
+  const applyCacheUpdate = async (confirmed: SuiTransactionBlockResponse) => {
+    try {
+      await applyTransactionToCache(queryClient, suiClient, network, confirmed);
+    } catch (err) {
+      console.error('Failed to update cached queries:', err);
+      await queryClient.invalidateQueries({
+        predicate: (query) =>
+          query.queryKey[0] === network &&
+          ['getOwnedObjects', 'getCoins', 'getBalance', 'getAllBalances'].includes(query.queryKey[1] as string),
+      });
+    }
+  };
+
+  const execute = async (input: TInput): Promise<TransactionExecutionResult> => {
+    setStatus('preflight');
+    setResult(null);
+    setError(null);
+
+    let digest: string | undefined;
+    let rollback: (() => void) | void = undefined;
+
+    try {
+      // Signing would fail with an opaque wallet error on the wrong chain
+      if (isMismatch) {
+        throw new Error(
+          `Your wallet is on ${walletChains.join(', ')} but the app is on sui:${network}. Switch networks to continue.`
+        );
+      }
+
+      // Create the transaction
+      const transaction = await options.build(input);
+
+      // Dry run the transaction and wait for the user to confirm the result
+      if (options.preflight && !(await confirmTransaction(transaction, options.preflight(input)))) {
+        return settle(
+          { success: false, status: 'cancelled', error: 'Transaction cancelled', createdObjectIds: [] },
+          input
+        );
+      }
+
+      // Sign and execute the transaction
+      setStatus('signing');
+      const executed = await signAndExecuteTransaction({ transaction });
+      digest = executed.digest;
+      rollback = options.onSigned?.(executed.digest, input);
+
+      // Wait until the transaction is indexed so follow-up queries see its effects
+      setStatus('confirming');
+      const confirmed = await waitForTransaction(suiClient, executed.digest);
+      await applyCacheUpdate(confirmed);
+
+      const outcome: TransactionExecutionResult = {
+        success: true,
+        status: 'success',
+        digest: executed.digest,
+        data: confirmed,
+        effects: confirmed.effects ?? undefined,
+        createdObjectIds: (confirmed.effects?.created ?? []).map((object) => object.reference.objectId),
+      };
+
+      if (options.successMessage) {
+        toast.success(options.successMessage(outcome, input));
+      }
+      options.onSuccess?.(outcome, input);
+
+      return settle(outcome, input);
+
+    } catch (err) {
+      rollback?.();
+      const suiError = handleTransactionError(err);
+      setError(suiError.message);
+      toast.error(options.errorMessage ? `${options.errorMessage}: ${suiError.message}` : suiError.message);
+      options.onError?.(suiError, input);
+
+      return settle(
+        {
+          success: false,
+          status: 'error',
+          digest,
+          error: suiError.message,
+          errorCode: suiError.code,
+          createdObjectIds: [],
+        },
+        input
+      );
+    }
+  };
+
+  const reset = () => {
+    setStatus('idle');
+    setResult(null);
+    setError(null);
+  };
+
+  return {
+    execute,
+    status,
+    result,
+    isLoading: status === 'preflight' || status === 'signing' || status === 'confirming',
+    error,
+    reset,
+  };
+}
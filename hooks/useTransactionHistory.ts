@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Transaction History Hook for Sui DApp
+ *
+ * This file provides a custom React hook for browsing the transactions sent from
+ * or received by an address. It pages through `queryTransactionBlocks` with cursor
+ * pagination and classifies each transaction for display.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import { useSuiClientInfiniteQuery } from '@mysten/dapp-kit';
+import { SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { HISTORY_PAGE_SIZE } from '@/lib/constants';
+import { HISTORY_QUERY_OPTIONS, toHistoryEntry } from '@/lib/transactionHistory';
+import { useContract } from '@/hooks/useContract';
+import { TransactionHistoryEntry, UseTransactionHistoryReturn } from '@/types/sui';
+
+// ============================================================================
+// TRANSACTION HISTORY HOOK
+// ============================================================================
+
+/**
+ * Custom hook for the transaction history of an address
+ *
+ * This hook provides:
+ * - Transactions sent by the address (FromAddress filter)
+ * - Transactions that touched the address (ToAddress filter)
+ * - Cursor pagination over both filters, merged newest first
+ * - Classification into mint, level-up, split, merge, transfer or other
+ * - Gas used, status and balance changes for each entry
+ *
+ * Both filters are paged independently. Merged entries are only shown down to the
+ * oldest transaction that both filters have loaded, so no entry is skipped when
+ * one filter pages further back than the other.
+ *
+ * @param address - The address to load history for (disabled when undefined)
+ * @returns Object containing history entries and pagination controls
+ *
+ * @example
+ * ```tsx
+ * const { transactions, hasMore, loadMore } = useTransactionHistory(account?.address);
+ * ```
+ */
+export function useTransactionHistory(address?: string): UseTransactionHistoryReturn {
+  const { deployment } = useContract();
+  const sentQuery = useSuiClientInfiniteQuery(
+    'queryTransactionBlocks',
+    {
+      filter: { FromAddress: address ?? '' },
+      options: HISTORY_QUERY_OPTIONS,
+      limit: HISTORY_PAGE_SIZE,
+      order: 'descending',
+    },
+    {
+      enabled: !!address,
+    }
+  );
+
+  const receivedQuery = useSuiClientInfiniteQuery(
+    'queryTransactionBlocks',
+    {
+      filter: { ToAddress: address ?? '' },
+      options: HISTORY_QUERY_OPTIONS,
+      limit: HISTORY_PAGE_SIZE,
+      order: 'descending',
+    },
+    {
+      enabled: !!address,
+    }
+  );
+
+  const transactions = useMemo((): TransactionHistoryEntry[] => {
+    const streams = [sentQuery, receivedQuery].map((query) => ({
+      items: query.data?.pages.flatMap((page) => page.data) ?? [],
+      hasNextPage: query.hasNextPage,
+    }));
+
+    // Entries older than this are not yet known to be complete across both filters
+    const cutoff = Math.max(
+      0,
+      ...streams
+        .filter((stream) => stream.hasNextPage && stream.items.length > 0)
+        .map((stream) => Number(stream.items[stream.items.length - 1].timestampMs ?? 0))
+    );
+
+    const byDigest = new Map<string, SuiTransactionBlockResponse>();
+    streams.forEach((stream) => stream.items.forEach((tx) => byDigest.set(tx.digest, tx)));
+
+    return Array.from(byDigest.values())
+      .filter((tx) => Number(tx.timestampMs ?? 0) >= cutoff)
+      .sort((a, b) => Number(b.timestampMs ?? 0) - Number(a.timestampMs ?? 0))
+      .map((tx) => toHistoryEntry(tx, deployment));
+  }, [sentQuery, receivedQuery, deployment]);
+
+  /**
+   * Load the next page of every filter that still has older transactions
+   */
+  const loadMore = () => {
+    if (sentQuery.hasNextPage) sentQuery.fetchNextPage();
+    if (receivedQuery.hasNextPage) receivedQuery.fetchNextPage();
+  };
+
+  const refetch = () => {
+    sentQuery.refetch();
+    receivedQuery.refetch();
+  };
+
+  return {
+    transactions,
+    isLoading: sentQuery.isLoading || receivedQuery.isLoading,
+    isFetchingMore: sentQuery.isFetchingNextPage || receivedQuery.isFetchingNextPage,
+    hasMore: sentQuery.hasNextPage || receivedQuery.hasNextPage,
+    loadMore,
+    error: sentQuery.error?.message ?? receivedQuery.error?.message ?? null,
+    refetch,
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview NFT Transfer Hook for Sui DApp
+ *
+ * This file provides a custom React hook for transferring NFTs to another address.
+ * It handles transaction creation, execution, user feedback and the optimistic
+ * removal of the transferred NFT from the cached collection.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { useSuiClientContext } from '@mysten/dapp-kit';
+import { useQueryClient } from '@tanstack/react-query';
+import { removeOwnedObjectOptimistically } from '@/lib/queryCache';
+import { createTransferNFTTransaction } from '@/lib/transactionUtils';
+import { useTransactionExecutor } from '@/hooks/useTransactionExecutor';
+import { TransactionResponse, UseTransferNFTReturn } from '@/types/sui';
+
+// ============================================================================
+// NFT TRANSFER HOOK
+// ============================================================================
+
+/**
+ * Custom hook for transferring NFTs on the Sui blockchain
+ *
+ * This hook provides NFT transfer functionality including:
+ * - Transaction creation for transferring the NFT object
+ * - Dry run pre-flight confirmed by the user before the wallet is asked to sign
+ * - Wallet integration for signing and execution
+ * - Optimistic removal of the NFT from cached `getOwnedObjects` results as soon
+ *   as the wallet signs, so the card disappears from `useNFTs` without waiting
+ *   for confirmation; the NFT is restored if the transaction fails
+ * - Loading state management and error handling
+ * - Success/failure toast notifications
+ *
+ * @returns Object containing transfer function and state
+ *
+ * @example
+ * ```tsx
+ * function TransferButton({ nftId, recipient }: { nftId: string; recipient: string }) {
+ *   const { transferNFT, isLoading } = useTransferNFT();
+ *
+ *   return (
+ *     <button onClick={() => transferNFT(nftId, recipient)} disabled={isLoading}>
+ *       {isLoading ? 'Transferring...' : 'Transfer'}
+ *     </button>
+ *   );
+ * }
+ * ```
+ */
+export function useTransferNFT(): UseTransferNFTReturn {
+  const { network } = useSuiClientContext();
+  const queryClient = useQueryClient();
+
+  const { execute, isLoading, error } = useTransactionExecutor({
+    build: ({ nftId, recipient }: { nftId: string; recipient: string }) =>
+      createTransferNFTTransaction(nftId, recipient),
+    preflight: ({ recipient }) => ({ title: 'Transfer NFT', description: `Send this NFT to ${recipient}` }),
+    successMessage: () => 'NFT transferred successfully!',
+    errorMessage: 'Failed to transfer NFT',
+    onSigned: (_, { nftId }) => removeOwnedObjectOptimistically(queryClient, network, nftId),
+  });
+
+  const transferNFT = (nftId: string, recipient: string): Promise<TransactionResponse> =>
+    execute({ nftId, recipient });
+
+  return {
+    transferNFT,
+    isLoading,
+    error,
+  };
+}
@@ -14,7 +14,8 @@
 import { useCurrentAccount, useDisconnectWallet } from '@mysten/dapp-kit';
 import { useSuiClientQuery } from '@mysten/dapp-kit';
 import { SUI_COIN_TYPE } from '@/lib/constants';
-import { formatSuiAmount } from '@/lib/transactionUtils';
+import { formatCoinAmount } from '@/lib/transactionUtils';
+import { useCoinRegistry } from '@/hooks/useCoinRegistry';
 import { WalletState } from '@/types/sui';
 import { useMemo } from 'react';
 
@@ -27,29 +28,30 @@ import { useMemo } from 'react';
  * 
  * This hook provides a complete wallet management solution including:
  * - Current account information and connection status
- * - Real-time SUI balance tracking with automatic refresh
+ * - Real-time balance tracking for SUI or any other coin type with automatic refresh
  * - Connect and disconnect functionality
  * - Formatted balance display
  * - Loading and error states
  * 
  * The hook automatically:
  * - Fetches balance when an account is connected
- * - Refreshes balance every 10 seconds to stay current
- * - Formats balance from MIST to human-readable SUI amounts
+ * - Keeps the balance current through the live update layer
+ * - Formats balance using the coin's own decimals (MIST to SUI for native SUI)
  * - Handles connection and disconnection states
  * 
+ * @param coinType - The coin type to track the balance of (defaults to SUI)
  * @returns Object containing wallet state and control functions
  * 
  * @example
  * ```tsx
  * function WalletButton() {
- *   const { isConnected, address, balance, connect, disconnect, isLoading } = useWallet();
+ *   const { isConnected, address, balance, symbol, connect, disconnect, isLoading } = useWallet();
  * 
  *   if (isConnected) {
  *     return (
  *       <div>
  *         <p>Address: {address}</p>
- *         <p>Balance: {balance} SUI</p>
+ *         <p>Balance: {balance} {symbol}</p>
  *         <button onClick={disconnect}>Disconnect</button>
  *       </div>
  *     );
@@ -59,7 +61,7 @@ import { useMemo } from 'react';
  * }
  * ```
  */
-export function useWallet(): WalletState & {
+export function useWallet(coinType: string = SUI_COIN_TYPE): WalletState & {
   /** Function to initiate wallet connection */
   connect: () => void;
   /** Function to disconnect the current wallet */
@@ -68,19 +70,19 @@ export function useWallet(): WalletState & {
   // Get the currently connected account from dApp Kit
   const currentAccount = useCurrentAccount();
   const { mutate: disconnectWallet } = useDisconnectWallet();
+  const { getCoinInfo } = useCoinRegistry();
+  const coinInfo = getCoinInfo(coinType);
 
-  // Fetch SUI balance for the connected account with real-time updates
+  // Fetch the coin balance for the connected account, kept current by live updates
   const { data: balance, isLoading: balanceLoading } = useSuiClientQuery(
     'getBalance',
     {
       owner: currentAccount?.address ?? '',
-      coinType: SUI_COIN_TYPE,
+      coinType,
     },
     {
       // Only fetch balance when we have a connected account
       enabled: !!currentAccount?.address,
-      // Refresh balance every 10 seconds to show current state
-      refetchInterval: 10000,
     }
   );
 
@@ -89,12 +91,13 @@ export function useWallet(): WalletState & {
     return {
       isConnected: !!currentAccount,
       address: currentAccount?.address ?? null,
-      // Format balance from MIST to human-readable SUI amount
-      balance: balance ? formatSuiAmount(balance.totalBalance) : null,
+      // Format balance from the smallest unit to a human-readable amount
+      balance: balance ? formatCoinAmount(balance.totalBalance, coinInfo.decimals) : null,
+      symbol: coinInfo.symbol,
       isLoading: balanceLoading,
       error: null,
     };
-  }, [currentAccount, balance, balanceLoading]);
+  }, [currentAccount, balance, balanceLoading, coinInfo.decimals, coinInfo.symbol]);
 
   /**
    * Connect to a wallet
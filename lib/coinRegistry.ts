@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Coin Type Registry Utilities
+ *
+ * This file contains helpers for describing the fungible coin types a user holds.
+ * It combines on-chain balances with coin metadata (decimals, symbol, icon) into a
+ * single registry entry per coin type, with sensible fallbacks when metadata is missing.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+import { CoinBalance, CoinMetadata } from '@mysten/sui/client';
+import { normalizeStructTag, parseStructTag } from '@mysten/sui/utils';
+import { SUI_COIN_TYPE, SUI_DECIMALS } from './constants';
+import { CoinTypeInfo } from '@/types/sui';
+
+// ============================================================================
+// COIN TYPE HELPERS
+// ============================================================================
+
+/**
+ * Check whether a coin type is the native SUI coin
+ *
+ * Coin types are compared in normalized form, so `0x2::sui::SUI` and the
+ * fully padded address form are treated as equal.
+ *
+ * @param coinType - The coin type to check
+ * @returns True if the coin type is native SUI
+ */
+export function isSuiCoinType(coinType: string): boolean {
+  return normalizeStructTag(coinType) === normalizeStructTag(SUI_COIN_TYPE);
+}
+
+/**
+ * Derive a display symbol from a coin type when no metadata is available
+ *
+ * @param coinType - The coin type, e.g. `0xabc::usdc::USDC`
+ * @returns The struct name of the coin type, e.g. `USDC`
+ *
+ * @example
+ * ```ts
+ * getSymbolFromCoinType('0xabc::usdc::USDC'); // 'USDC'
+ * ```
+ */
+export function getSymbolFromCoinType(coinType: string): string {
+  try {
+    return parseStructTag(coinType).name;
+  } catch {
+    return coinType.split('::').pop() ?? coinType;
+  }
+}
+
+/**
+ * Build a registry entry from a coin balance and its (optional) metadata
+ *
+ * Without metadata, SUI falls back to 9 decimals and any other coin falls back
+ * to 0 decimals so amounts are shown in raw units rather than guessed. Until a
+ * non-SUI coin's metadata is loaded its decimals are marked unresolved, so
+ * amounts are not entered in the wrong unit.
+ *
+ * @param coinType - The coin type being described
+ * @param balance - The balance entry from `getAllBalances`, if the user holds the coin
+ * @param metadata - The result of `getCoinMetadata`, null when the coin has none,
+ *   undefined while it is loading
+ * @returns The registry entry for the coin type
+ */
+export function createCoinTypeInfo(
+  coinType: string,
+  balance?: CoinBalance,
+  metadata?: CoinMetadata | null
+): CoinTypeInfo {
+  const isSui = isSuiCoinType(coinType);
+
+  return {
+    coinType,
+    symbol: metadata?.symbol || (isSui ? 'SUI' : getSymbolFromCoinType(coinType)),
+    name: metadata?.name || (isSui ? 'Sui' : getSymbolFromCoinType(coinType)),
+    decimals: metadata?.decimals ?? (isSui ? SUI_DECIMALS : 0),
+    decimalsResolved: isSui || metadata !== undefined,
+    iconUrl: metadata?.iconUrl ?? null,
+    totalBalance: balance?.totalBalance ?? '0',
+    coinObjectCount: balance?.coinObjectCount ?? 0,
+  };
+}
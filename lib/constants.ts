@@ -8,6 +8,8 @@
  * @version 1.0.0
  */
 
+import { SuiNetwork } from '@/types/sui';
+
 // ============================================================================
 // NETWORK CONFIGURATION
 // ============================================================================
@@ -16,17 +18,57 @@
  * The Sui network to connect to (testnet, mainnet, devnet, or localnet)
  * Defaults to 'testnet' if not specified in environment variables
  */
-export const SUI_NETWORK = process.env.NEXT_PUBLIC_SUI_NETWORK as 'testnet' | 'mainnet' | 'devnet' | 'localnet' || 'testnet';
+export const SUI_NETWORK = process.env.NEXT_PUBLIC_SUI_NETWORK as SuiNetwork || 'testnet';
 
 // ============================================================================
 // SMART CONTRACT CONFIGURATION
 // ============================================================================
 
 /**
- * The package ID of the deployed Sui smart contract
- * Contains the simple_nft module with mint and level_up functions
+ * The package ID of the pre-deployed testnet contract
+ */
+const TESTNET_PACKAGE_ID = '0x95ea5e48398629b9e21b47bd43ae04174ac3e310b54fb961d780b856b3eaf1a3';
+
+/**
+ * Resolve the package ID for a network from its environment variable
+ * `NEXT_PUBLIC_PACKAGE_ID` is still honored for the default network (SUI_NETWORK)
  */
-export const PACKAGE_ID = process.env.NEXT_PUBLIC_PACKAGE_ID || '0x95ea5e48398629b9e21b47bd43ae04174ac3e310b54fb961d780b856b3eaf1a3';
+const resolvePackageId = (network: SuiNetwork, packageId?: string, fallback: string | null = null) =>
+  packageId || (network === SUI_NETWORK ? process.env.NEXT_PUBLIC_PACKAGE_ID : undefined) || fallback;
+
+/**
+ * The latest package ID of the deployed smart contract on each network, null when it is not deployed there
+ * Contains the simple_nft module with mint and level_up functions; Move calls target this version
+ */
+export const PACKAGE_IDS: Record<SuiNetwork, string | null> = {
+  devnet: resolvePackageId('devnet', process.env.NEXT_PUBLIC_PACKAGE_ID_DEVNET),
+  testnet: resolvePackageId('testnet', process.env.NEXT_PUBLIC_PACKAGE_ID_TESTNET, TESTNET_PACKAGE_ID),
+  mainnet: resolvePackageId('mainnet', process.env.NEXT_PUBLIC_PACKAGE_ID_MAINNET),
+  localnet: resolvePackageId('localnet', process.env.NEXT_PUBLIC_PACKAGE_ID_LOCALNET),
+};
+
+/**
+ * The original (first published) package ID on each network, for contracts that have been upgraded
+ * Struct types keep the package ID they were first published with, so NFTs are discovered by it.
+ * Null when the contract was never upgraded and the original ID is the one in PACKAGE_IDS
+ */
+export const ORIGINAL_PACKAGE_IDS: Record<SuiNetwork, string | null> = {
+  devnet: process.env.NEXT_PUBLIC_ORIGINAL_PACKAGE_ID_DEVNET || null,
+  testnet: process.env.NEXT_PUBLIC_ORIGINAL_PACKAGE_ID_TESTNET || null,
+  mainnet: process.env.NEXT_PUBLIC_ORIGINAL_PACKAGE_ID_MAINNET || null,
+  localnet: process.env.NEXT_PUBLIC_ORIGINAL_PACKAGE_ID_LOCALNET || null,
+};
+
+/**
+ * The shared object IDs passed to the contract's functions on each network, as a JSON object by name
+ * e.g. `{"registry":"0x..."}`; parsed per deployment, null when the contract uses none there
+ */
+export const SHARED_OBJECT_IDS: Record<SuiNetwork, string | null> = {
+  devnet: process.env.NEXT_PUBLIC_SHARED_OBJECTS_DEVNET || null,
+  testnet: process.env.NEXT_PUBLIC_SHARED_OBJECTS_TESTNET || null,
+  mainnet: process.env.NEXT_PUBLIC_SHARED_OBJECTS_MAINNET || null,
+  localnet: process.env.NEXT_PUBLIC_SHARED_OBJECTS_LOCALNET || null,
+};
 
 /**
  * The module name within the smart contract package
@@ -34,15 +76,16 @@ export const PACKAGE_ID = process.env.NEXT_PUBLIC_PACKAGE_ID || '0x95ea5e4839862
 export const MODULE_NAME = 'simple_nft';
 
 /**
- * Fully qualified contract function targets for Move calls
- * Used to construct transaction blocks for smart contract interactions
+ * The name of the NFT struct within the module
  */
-export const CONTRACT_FUNCTIONS = {
-  /** Function to mint a new NFT: mint(name: String, description: String, image_url: String, ctx: &mut TxContext) */
-  MINT: `${PACKAGE_ID}::${MODULE_NAME}::mint`,
-  /** Function to level up an existing NFT: level_up(nft: &mut Nft) */
-  LEVEL_UP: `${PACKAGE_ID}::${MODULE_NAME}::level_up`,
-} as const;
+export const NFT_STRUCT_NAME = 'Nft';
+
+/**
+ * Optional entry function of the module that mints straight to a recipient, e.g. `mint_to`
+ * Called as `mint_to(name, description, image_url, recipient)` when minting for another address.
+ * When unset, NFTs can only be minted to the connected wallet
+ */
+export const MINT_TO_FUNCTION = process.env.NEXT_PUBLIC_MINT_TO_FUNCTION || null;
 
 // ============================================================================
 // APPLICATION CONFIGURATION
@@ -62,6 +105,11 @@ export const APP_NAME = process.env.NEXT_PUBLIC_APP_NAME || 'Sui NFT DApp';
  */
 export const ITEMS_PER_PAGE = 12;
 
+/**
+ * Number of transactions fetched per page (and per filter) in the history panel
+ */
+export const HISTORY_PAGE_SIZE = 20;
+
 /**
  * Maximum file size for image uploads (5MB in bytes)
  */
@@ -72,6 +120,11 @@ export const MAX_FILE_SIZE = 5 * 1024 * 1024;
  */
 export const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
 
+/**
+ * How long the result of checking an image URL is reused, on the server and in the browser (10 minutes)
+ */
+export const IMAGE_URL_VALIDATION_CACHE_TIME = 10 * 60 * 1000;
+
 // ============================================================================
 // TRANSACTION CONFIGURATION
 // ============================================================================
@@ -87,6 +140,67 @@ export const GAS_BUDGET = 100000000;
  */
 export const DEFAULT_GAS_BUDGET = 5000000;
 
+/**
+ * Maximum number of source coins merged by a single mergeCoins command
+ * Larger merges are chunked into several commands within one transaction
+ */
+export const MAX_MERGE_COINS_PER_COMMAND = 500;
+
+/**
+ * Maximum number of amounts split off by a single splitCoins command
+ * Multi-splits larger than this are rejected by the split form
+ */
+export const MAX_SPLIT_AMOUNTS_PER_TRANSACTION = 500;
+
+/**
+ * Maximum number of level_up Move calls in a single batch level-up transaction
+ * Kept below the protocol limit of 1024 commands per programmable transaction
+ */
+export const MAX_LEVEL_UPS_PER_TRANSACTION = 1000;
+
+/**
+ * Maximum number of mint Move calls in a single bulk mint transaction
+ * Keeps the objects and events created by one transaction well within protocol limits
+ */
+export const MAX_MINTS_PER_TRANSACTION = 500;
+
+/**
+ * Estimated serialized size budget for the mint calls of one bulk mint transaction, in bytes
+ * Kept below the protocol's 128 KiB transaction size limit to leave room for gas payment and signatures
+ */
+export const MAX_MINT_TRANSACTION_BYTES = 100 * 1024;
+
+// ============================================================================
+// LIVE UPDATE CONFIGURATION
+// ============================================================================
+
+/**
+ * Interval between polls for new events and transactions, in milliseconds
+ * Used when the network's RPC does not support WebSocket subscriptions
+ */
+export const LIVE_UPDATE_POLL_INTERVAL = 5000;
+
+/**
+ * Time to wait for a WebSocket subscription before falling back to polling, in milliseconds
+ */
+export const LIVE_UPDATE_SUBSCRIBE_TIMEOUT = 5000;
+
+// ============================================================================
+// FAUCET CONFIGURATION
+// ============================================================================
+
+/**
+ * Faucet URL of a local network started with `sui start --with-faucet`
+ * Defaults to the SDK's localnet faucet host when not set
+ */
+export const LOCALNET_FAUCET_URL = process.env.NEXT_PUBLIC_LOCALNET_FAUCET_URL || null;
+
+/**
+ * Time an address waits after the faucet rate-limits it, in milliseconds
+ * The faucet does not report when it accepts requests again
+ */
+export const FAUCET_RATE_LIMIT_COOLDOWN = 10 * 60 * 1000;
+
 // ============================================================================
 // SUI BLOCKCHAIN TYPES
 // ============================================================================
@@ -96,6 +210,12 @@ export const DEFAULT_GAS_BUDGET = 5000000;
  */
 export const SUI_COIN_TYPE = '0x2::sui::SUI';
 
+/**
+ * Number of decimal places used by native SUI coins
+ * 1 SUI = 10^9 MIST
+ */
+export const SUI_DECIMALS = 9;
+
 // ============================================================================
 // NFT METADATA FIELDS
 // ============================================================================
@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Smart Contract Registry for Sui DApp
+ *
+ * This file contains helpers for describing where the NFT contract is deployed
+ * on each network and for resolving its Move call targets and struct types.
+ * Deployments are exposed per network through `useNetworkVariable('contract')`,
+ * so one build can serve every network the contract is published on.
+ *
+ * After a package upgrade, Move calls go to the latest package ID while struct
+ * types keep the original package ID, so both are tracked per deployment.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { MINT_TO_FUNCTION, MODULE_NAME, NFT_STRUCT_NAME } from './constants';
+import { ContractDeployment, ContractFunction, ContractTargets } from '@/types/sui';
+
+// ============================================================================
+// CONTRACT REGISTRY
+// ============================================================================
+
+/**
+ * Parse the shared object IDs of a deployment, a JSON object mapping names to object IDs
+ *
+ * @returns The IDs by name, or null when the value is not such an object
+ */
+function parseSharedObjects(value: string): Record<string, string> | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return null;
+  }
+
+  const isIdMap =
+    typeof parsed === 'object' &&
+    parsed !== null &&
+    !Array.isArray(parsed) &&
+    Object.values(parsed).every((id) => typeof id === 'string');
+  return isIdMap ? (parsed as Record<string, string>) : null;
+}
+
+/**
+ * Create the contract deployment for a network
+ *
+ * A malformed configuration does not throw here, since every network is set up
+ * when the app loads; it is kept as the deployment's `error` and reported by
+ * `getContractTargets` once the network is used.
+ *
+ * @param packageId - Latest package ID on the network, null when it is not deployed there
+ * @param originalPackageId - Package ID first published on the network, null when never upgraded
+ * @param sharedObjects - JSON object of the shared object IDs passed to the contract's functions, by name
+ * @param mintToFunction - Entry function minting straight to a recipient, null when the contract has none
+ * @returns The deployment, or null when the contract is not deployed
+ *
+ * @example
+ * ```ts
+ * const deployment = createContractDeployment(PACKAGE_IDS.devnet, ORIGINAL_PACKAGE_IDS.devnet, SHARED_OBJECT_IDS.devnet);
+ * ```
+ */
+export function createContractDeployment(
+  packageId: string | null,
+  originalPackageId: string | null = null,
+  sharedObjects: string | null = null,
+  mintToFunction: string | null = MINT_TO_FUNCTION
+): ContractDeployment | null {
+  if (!packageId) return null;
+
+  const parsedSharedObjects = sharedObjects ? parseSharedObjects(sharedObjects) : {};
+
+  return {
+    packageId,
+    originalPackageId: originalPackageId ?? packageId,
+    moduleName: MODULE_NAME,
+    sharedObjects: parsedSharedObjects ?? {},
+    mintToFunction,
+    error: parsedSharedObjects ? null : 'its shared object IDs must be a JSON object of names to object IDs',
+  };
+}
+
+/**
+ * Resolve the Move call targets of a contract deployment
+ *
+ * @param deployment - The deployment on the active network
+ * @param networkName - Display name of the active network, used in the error message
+ * @returns Fully qualified targets for every contract function, and the shared object IDs to pass them
+ * @throws Error when the contract is not deployed on the network or its configuration is invalid
+ *
+ * @example
+ * ```ts
+ * const targets = getContractTargets(deployment, 'Devnet');
+ * tx.moveCall({ target: targets.mint, arguments: [...] });
+ * ```
+ */
+export function getContractTargets(deployment: ContractDeployment | null, networkName: string): ContractTargets {
+  if (!deployment) {
+    throw new Error(`The NFT contract is not deployed on ${networkName}`);
+  }
+  if (deployment.error) {
+    throw new Error(`The NFT contract on ${networkName} is misconfigured: ${deployment.error}`);
+  }
+
+  const prefix = `${deployment.packageId}::${deployment.moduleName}`;
+  return {
+    mint: `${prefix}::mint`,
+    level_up: `${prefix}::level_up`,
+    mint_to: deployment.mintToFunction ? `${prefix}::${deployment.mintToFunction}` : null,
+    sharedObjects: deployment.sharedObjects,
+  };
+}
+
+/**
+ * Get the NFT struct type of a contract deployment
+ *
+ * Uses the original package ID, which every NFT keeps across package upgrades,
+ * normalized to the full-length form returned by the RPC.
+ *
+ * @param deployment - The deployment on the active network
+ * @returns The fully qualified NFT struct type
+ *
+ * @example
+ * ```ts
+ * const nftType = getNFTType(deployment); // '0x95ea...f1a3::simple_nft::Nft'
+ * const isNFT = object.data?.type === nftType;
+ * ```
+ */
+export function getNFTType(deployment: ContractDeployment): string {
+  return `${normalizeSuiAddress(deployment.originalPackageId)}::${deployment.moduleName}::${NFT_STRUCT_NAME}`;
+}
+
+/**
+ * Check whether a Move call is a call to one of the contract's functions
+ *
+ * Matches calls to both the original and the latest package version. Calls to
+ * the deployment's mint-to function count as calls to `mint`.
+ *
+ * @param deployment - The deployment on the active network
+ * @param moveCall - The package, module and function of the Move call
+ * @param fn - The contract function to match
+ * @returns Whether the Move call targets the function
+ *
+ * @example
+ * ```ts
+ * const isMint = isContractCall(deployment, command.MoveCall, 'mint');
+ * ```
+ */
+export function isContractCall(
+  deployment: ContractDeployment,
+  moveCall: { package: string; module: string; function: string },
+  fn: ContractFunction
+): boolean {
+  const packageIds = [deployment.packageId, deployment.originalPackageId].map((id) => normalizeSuiAddress(id));
+
+  return (
+    packageIds.includes(normalizeSuiAddress(moveCall.package)) &&
+    moveCall.module === deployment.moduleName &&
+    (moveCall.function === fn || (fn === 'mint' && moveCall.function === deployment.mintToFunction))
+  );
+}
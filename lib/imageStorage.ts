@@ -0,0 +1,240 @@
+/**
+ * @fileoverview NFT Image Storage Adapters
+ *
+ * This file contains the storage backends for uploaded NFT images, used by the
+ * `/api/images` routes on the server. Every backend stores the validated bytes
+ * and returns the URL that is minted as the NFT's `image_url`, which must pass
+ * the same checks as any entered URL (see `validateImageUrl`):
+ * - `local`: files on the server's disk, served by `/api/images/<id>`
+ * - `ipfs`: an IPFS node's HTTP RPC API (e.g. a local Kubo node), linked as `ipfs://<cid>`
+ * - `walrus`: a Walrus publisher, served by a public HTTPS Walrus aggregator
+ *
+ * The backend is chosen with the `IMAGE_STORAGE_BACKEND` environment variable.
+ * All file names and IDs are derived from the image's content, so uploading the
+ * same image twice yields the same URL.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { IMAGE_EXTENSIONS } from './images';
+import { ImageStorageAdapter, ImageStorageBackend, ImageUpload } from '@/types/sui';
+
+/**
+ * File names of locally stored images: the SHA-256 hash of the content and its extension
+ */
+const LOCAL_IMAGE_ID_PATTERN = /^[0-9a-f]{64}\.(jpg|png|gif|webp)$/;
+
+/**
+ * Number of epochs Walrus blobs are stored for when `WALRUS_EPOCHS` is not set
+ */
+const DEFAULT_WALRUS_EPOCHS = 1;
+
+/**
+ * Remove trailing slashes from a base URL
+ */
+const trimUrl = (url: string) => url.replace(/\/+$/, '');
+
+// ============================================================================
+// LOCAL FILESYSTEM STORAGE
+// ============================================================================
+
+/**
+ * Create a storage backend writing images to a directory on the server
+ *
+ * @param directory - Directory the images are written to, created when missing
+ * @param publicUrl - Origin the app is served from, used to build the image URLs
+ * @returns The local storage backend
+ *
+ * @example
+ * ```ts
+ * const storage = createLocalImageStorage('.uploads', 'http://localhost:3000');
+ * const { url } = await storage.store({ bytes, contentType: 'image/png' });
+ * // http://localhost:3000/api/images/<sha256>.png
+ * ```
+ */
+export function createLocalImageStorage(directory: string, publicUrl: string): ImageStorageAdapter {
+  return {
+    backend: 'local',
+    store: async ({ bytes, contentType }) => {
+      const id = `${createHash('sha256').update(bytes).digest('hex')}.${IMAGE_EXTENSIONS[contentType]}`;
+
+      await mkdir(directory, { recursive: true });
+      try {
+        await writeFile(path.join(directory, id), bytes, { flag: 'wx' });
+      } catch (err) {
+        // The same image was uploaded before
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+      }
+
+      return {
+        url: `${trimUrl(publicUrl)}/api/images/${id}`,
+        id,
+        backend: 'local',
+        contentType,
+        size: bytes.length,
+      };
+    },
+  };
+}
+
+/**
+ * Read an image written by the local storage backend
+ *
+ * @param directory - Directory the images are written to
+ * @param id - File name of the image, as returned by the backend
+ * @returns The image, or null when the ID is invalid or no such image exists
+ */
+export async function readLocalImage(directory: string, id: string): Promise<ImageUpload | null> {
+  const match = LOCAL_IMAGE_ID_PATTERN.exec(id);
+  if (!match) return null;
+
+  try {
+    const bytes = await readFile(path.join(directory, id));
+    const contentType = Object.keys(IMAGE_EXTENSIONS).find((type) => IMAGE_EXTENSIONS[type] === match[1]);
+    return contentType ? { bytes: new Uint8Array(bytes), contentType } : null;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+// ============================================================================
+// CONTENT-ADDRESSED STORAGE
+// ============================================================================
+
+/**
+ * Create a storage backend adding images to an IPFS node
+ *
+ * Images are added and pinned with CIDv1 through the node's HTTP RPC API
+ * (`/api/v0/add`), and linked as `ipfs://<cid>` URIs, which are rewritten to
+ * the public HTTPS gateway when they are validated for minting.
+ *
+ * @param apiUrl - Base URL of the node's RPC API (e.g. `http://127.0.0.1:5001`)
+ * @returns The IPFS storage backend
+ */
+export function createIpfsImageStorage(apiUrl: string): ImageStorageAdapter {
+  return {
+    backend: 'ipfs',
+    store: async ({ bytes, contentType }) => {
+      const body = new FormData();
+      body.append('file', new Blob([bytes], { type: contentType }), `image.${IMAGE_EXTENSIONS[contentType]}`);
+
+      const response = await fetch(`${trimUrl(apiUrl)}/api/v0/add?cid-version=1&pin=true`, {
+        method: 'POST',
+        body,
+      });
+      if (!response.ok) {
+        throw new Error(`IPFS node rejected the image: ${response.status} ${await response.text()}`);
+      }
+
+      const { Hash: cid } = (await response.json()) as { Hash: string };
+
+      return {
+        url: `ipfs://${cid}`,
+        id: cid,
+        backend: 'ipfs',
+        contentType,
+        size: bytes.length,
+      };
+    },
+  };
+}
+
+/**
+ * Response of a Walrus publisher's `PUT /v1/blobs`
+ */
+type WalrusStoreResponse =
+  | { newlyCreated: { blobObject: { blobId: string } } }
+  | { alreadyCertified: { blobId: string } };
+
+/**
+ * Create a storage backend storing images as Walrus blobs
+ *
+ * The blob URLs are minted, so the aggregator serving them must be a public
+ * HTTPS endpoint rather than the local daemon the images are published through.
+ *
+ * @param publisherUrl - Base URL of a Walrus publisher (e.g. `http://127.0.0.1:31415`)
+ * @param aggregatorUrl - Base URL of a public HTTPS Walrus aggregator serving the blobs
+ * @param epochs - Number of epochs to store each blob for
+ * @returns The Walrus storage backend
+ * @throws Error when the aggregator URL is not HTTPS
+ */
+export function createWalrusImageStorage(
+  publisherUrl: string,
+  aggregatorUrl: string,
+  epochs: number = DEFAULT_WALRUS_EPOCHS
+): ImageStorageAdapter {
+  if (!/^https:\/\//i.test(aggregatorUrl)) {
+    throw new Error('WALRUS_AGGREGATOR_URL must be the public HTTPS URL of a Walrus aggregator');
+  }
+
+  return {
+    backend: 'walrus',
+    store: async ({ bytes, contentType }) => {
+      const response = await fetch(`${trimUrl(publisherUrl)}/v1/blobs?epochs=${epochs}`, {
+        method: 'PUT',
+        body: new Blob([bytes], { type: contentType }),
+      });
+      if (!response.ok) {
+        throw new Error(`Walrus publisher rejected the image: ${response.status} ${await response.text()}`);
+      }
+
+      const result = (await response.json()) as WalrusStoreResponse;
+      const blobId = 'newlyCreated' in result ? result.newlyCreated.blobObject.blobId : result.alreadyCertified.blobId;
+
+      return {
+        url: `${trimUrl(aggregatorUrl)}/v1/blobs/${blobId}`,
+        id: blobId,
+        backend: 'walrus',
+        contentType,
+        size: bytes.length,
+      };
+    },
+  };
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Directory the local backend writes images to (`IMAGE_UPLOAD_DIR`, defaults to `.uploads`)
+ */
+export const getLocalImageDirectory = () => path.resolve(process.env.IMAGE_UPLOAD_DIR || '.uploads');
+
+/**
+ * Get the storage backend configured for the server
+ *
+ * Environment variables:
+ * - `IMAGE_STORAGE_BACKEND`: `local` (default), `ipfs` or `walrus`
+ * - `IMAGE_UPLOAD_DIR`, `IMAGE_PUBLIC_URL`: local directory and public origin
+ * - `IPFS_API_URL`: IPFS node, defaults to a local Kubo node
+ * - `WALRUS_PUBLISHER_URL`, `WALRUS_EPOCHS`: Walrus publisher, defaults to a
+ *   local Walrus daemon
+ * - `WALRUS_AGGREGATOR_URL`: public HTTPS Walrus aggregator, required for `walrus`
+ *
+ * @param origin - Origin of the upload request, used for local URLs when `IMAGE_PUBLIC_URL` is not set
+ * @returns The configured storage backend
+ */
+export function getImageStorage(origin: string): ImageStorageAdapter {
+  const backend = (process.env.IMAGE_STORAGE_BACKEND || 'local') as ImageStorageBackend;
+
+  switch (backend) {
+    case 'local':
+      return createLocalImageStorage(getLocalImageDirectory(), process.env.IMAGE_PUBLIC_URL || origin);
+    case 'ipfs':
+      return createIpfsImageStorage(process.env.IPFS_API_URL || 'http://127.0.0.1:5001');
+    case 'walrus':
+      return createWalrusImageStorage(
+        process.env.WALRUS_PUBLISHER_URL || 'http://127.0.0.1:31415',
+        process.env.WALRUS_AGGREGATOR_URL || '',
+        Number(process.env.WALRUS_EPOCHS) || DEFAULT_WALRUS_EPOCHS
+      );
+    default:
+      throw new Error(`Unknown image storage backend "${backend}", expected local, ipfs or walrus`);
+  }
+}
@@ -0,0 +1,417 @@
+/**
+ * @fileoverview NFT Image URL Validation
+ *
+ * This file contains the server-side checks applied to image URLs before they
+ * are minted, used by the `/api/images/validate` route. NFT metadata is stored
+ * on chain for good, so every URL is fetched once to confirm it serves a
+ * supported image within `MAX_FILE_SIZE`:
+ * - `https:` URLs are fetched, refusing hosts that resolve to private networks
+ *   and re-checking every redirect
+ * - `ipfs://` URIs are rewritten to an HTTPS gateway URL
+ * - `data:` URIs are decoded and checked, and returned in canonical base64
+ *   form; they are only stored (through the upload route) when minting, so
+ *   checking a URL never leaves files behind
+ * - Images uploaded to this app's local storage are read from disk, once their
+ *   URL passes the same HTTPS and public host rules
+ *
+ * Results are cached in memory for `IMAGE_URL_VALIDATION_CACHE_TIME`, failures
+ * for a minute, so retyping a URL does not fetch it again.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import { IMAGE_URL_VALIDATION_CACHE_TIME, MAX_FILE_SIZE, SUPPORTED_IMAGE_TYPES } from './constants';
+import { detectImageType, formatFileSize, validateImageFile } from './images';
+import { getLocalImageDirectory, readLocalImage } from './imageStorage';
+import { ImageUrlValidationResponse, ValidatedImageUrl } from '@/types/sui';
+
+/**
+ * How long a failed check is cached, so a fixed URL can be checked again soon
+ */
+const FAILED_VALIDATION_CACHE_TIME = 60 * 1000;
+
+/**
+ * Maximum number of cached results, the oldest are dropped first
+ */
+const MAX_CACHED_VALIDATIONS = 500;
+
+/**
+ * Maximum number of redirects followed when fetching an image
+ */
+const MAX_IMAGE_REDIRECTS = 3;
+
+/**
+ * Time allowed for fetching an image, including redirects
+ */
+const IMAGE_FETCH_TIMEOUT = 10 * 1000;
+
+/**
+ * `ipfs://<cid>/<path>`, also in the legacy `ipfs://ipfs/<cid>` form
+ */
+const IPFS_URI_PATTERN = /^ipfs:\/\/(?:ipfs\/)?([^?#]+)$/i;
+
+/**
+ * `data:<type>[;<parameter>]*;base64,<data>`
+ */
+const DATA_URI_PATTERN = /^data:([^;,]*)((?:;[^;,]*)*),([\s\S]*)$/i;
+
+/**
+ * Path of images served by the local storage backend
+ */
+const LOCAL_IMAGE_PATH_PATTERN = /^\/api\/images\/([^/]+)$/;
+
+/**
+ * Host names that never point at the public internet
+ */
+const PRIVATE_HOST_SUFFIXES = ['localhost', '.localhost', '.local', '.internal', '.home.arpa'];
+
+/**
+ * Cached validation results, by the URL as entered
+ */
+const validationCache = new Map<string, { result: ImageUrlValidationResponse; expiresAt: number }>();
+
+// ============================================================================
+// PRIVATE NETWORK CHECKS
+// ============================================================================
+
+/**
+ * Check whether an IPv4 address is loopback, private, link-local, shared or reserved
+ */
+function isPrivateIPv4(address: string): boolean {
+  const [a, b, c] = address.split('.').map(Number);
+
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+/**
+ * Check whether an IPv6 address is loopback, unspecified, unique local, link-local,
+ * multicast, or an IPv4-mapped private address
+ */
+function isPrivateIPv6(address: string): boolean {
+  const value = address.toLowerCase();
+
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(value);
+  if (mapped) return isPrivateIPv4(mapped[1]);
+
+  // IPv4-mapped addresses as normalized by the URL parser, e.g. ::ffff:7f00:1
+  const mappedHex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(value);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateIPv4(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`);
+  }
+
+  return value === '::' || value === '::1' || /^f[cd]/.test(value) || /^fe[89ab]/.test(value) || value.startsWith('ff');
+}
+
+/**
+ * Throw when a URL is not HTTPS or its host is, or resolves to, a private network address
+ *
+ * The host is resolved again when it is fetched, so this does not stop a DNS
+ * server from answering differently the second time; it keeps ordinary links
+ * to internal services from being fetched by the server.
+ */
+async function assertPublicHttpsUrl(url: URL): Promise<void> {
+  if (url.protocol !== 'https:') {
+    throw new Error('Image URLs must use HTTPS');
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (PRIVATE_HOST_SUFFIXES.some((suffix) => host === suffix || host.endsWith(suffix))) {
+    throw new Error(`${host} is a private network host`);
+  }
+
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map((entry) => entry.address);
+    } catch {
+      throw new Error(`Could not resolve ${host}`);
+    }
+  }
+
+  if (addresses.some((address) => (isIP(address) === 6 ? isPrivateIPv6(address) : isPrivateIPv4(address)))) {
+    throw new Error(`${host} is a private network host`);
+  }
+}
+
+// ============================================================================
+// IMAGE CHECKS
+// ============================================================================
+
+/**
+ * Check image bytes with the same rules as uploads
+ *
+ * @throws Error when the bytes are not a supported image within the size limit
+ */
+function checkImageBytes(bytes: Uint8Array): { contentType: string; size: number } {
+  const contentType = detectImageType(bytes);
+  if (!contentType) {
+    throw new Error('The URL does not point to a JPEG, PNG, GIF or WebP image');
+  }
+
+  const validation = validateImageFile({ type: contentType, size: bytes.length });
+  if (!validation.isValid) {
+    throw new Error(validation.error ?? 'Invalid image');
+  }
+
+  return { contentType, size: bytes.length };
+}
+
+/**
+ * Read a response body, giving up once it exceeds `MAX_FILE_SIZE`
+ */
+async function readImageBody(response: Response): Promise<Uint8Array> {
+  const reader = response.body?.getReader();
+  if (!reader) return new Uint8Array();
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.length;
+    if (size > MAX_FILE_SIZE) {
+      await reader.cancel();
+      throw new Error(`The image is larger than the maximum of ${formatFileSize(MAX_FILE_SIZE)}`);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return bytes;
+}
+
+/**
+ * Fetch an HTTPS image URL, following redirects only to other public HTTPS URLs
+ *
+ * @throws Error when the URL or a redirect is not allowed, or the image is not served
+ */
+async function fetchImage(url: URL): Promise<Response> {
+  const signal = AbortSignal.timeout(IMAGE_FETCH_TIMEOUT);
+  let current = url;
+
+  for (let redirects = 0; redirects <= MAX_IMAGE_REDIRECTS; redirects++) {
+    await assertPublicHttpsUrl(current);
+
+    const response = await fetch(current, {
+      redirect: 'manual',
+      signal,
+      headers: { Accept: SUPPORTED_IMAGE_TYPES.join(', ') },
+    });
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      current = new URL(location, current);
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`The image could not be loaded: ${response.status} ${response.statusText}`.trim());
+    }
+    return response;
+  }
+
+  throw new Error(`The image URL redirects more than ${MAX_IMAGE_REDIRECTS} times`);
+}
+
+/**
+ * Check that a public HTTPS URL serves a supported image within the size limit
+ */
+async function validateRemoteImage(url: URL): Promise<ValidatedImageUrl> {
+  let response: Response;
+  try {
+    response = await fetchImage(url);
+  } catch (err) {
+    if (err instanceof Error && err.name === 'TimeoutError') {
+      throw new Error('The image took too long to load');
+    }
+    throw err;
+  }
+
+  const contentType = response.headers.get('content-type')?.split(';')[0].trim().toLowerCase() ?? '';
+  if (!SUPPORTED_IMAGE_TYPES.includes(contentType)) {
+    await response.body?.cancel();
+    throw new Error(`The URL serves ${contentType || 'no content type'}, not a JPEG, PNG, GIF or WebP image`);
+  }
+
+  const contentLength = Number(response.headers.get('content-length'));
+  if (contentLength > MAX_FILE_SIZE) {
+    await response.body?.cancel();
+    throw new Error(`The image is ${formatFileSize(contentLength)}, the maximum is ${formatFileSize(MAX_FILE_SIZE)}`);
+  }
+
+  return { url: url.toString(), ...checkImageBytes(await readImageBody(response)) };
+}
+
+// ============================================================================
+// URL NORMALIZATION
+// ============================================================================
+
+/**
+ * Rewrite an `ipfs://` URI to a URL on an HTTPS gateway
+ *
+ * @param uri - The `ipfs://` URI
+ * @param gatewayUrl - Base URL of the gateway (`IPFS_PUBLIC_GATEWAY_URL`, defaults to `https://ipfs.io`)
+ * @returns The gateway URL, or null when the URI is not an IPFS URI
+ *
+ * @example
+ * ```ts
+ * normalizeIpfsUri('ipfs://bafy.../dragon.png'); // 'https://ipfs.io/ipfs/bafy.../dragon.png'
+ * ```
+ */
+export function normalizeIpfsUri(
+  uri: string,
+  gatewayUrl: string = process.env.IPFS_PUBLIC_GATEWAY_URL || 'https://ipfs.io'
+): string | null {
+  const match = IPFS_URI_PATTERN.exec(uri);
+  return match ? `${gatewayUrl.replace(/\/+$/, '')}/ipfs/${match[1]}` : null;
+}
+
+/**
+ * Decode and check a base64 `data:` URI, without storing it
+ *
+ * @returns The image, with the URI rewritten to the detected type
+ */
+function validateDataUri(uri: string): ValidatedImageUrl {
+  const match = DATA_URI_PATTERN.exec(uri);
+  if (!match) {
+    throw new Error('Invalid data URI');
+  }
+  if (!match[2].toLowerCase().split(';').includes('base64')) {
+    throw new Error('Only base64 encoded data URIs are supported');
+  }
+  // Base64 grows the data by a third; reject oversized URIs before decoding them
+  if (match[3].length > Math.ceil(MAX_FILE_SIZE / 3) * 4 + 4) {
+    throw new Error(`The image is larger than the maximum of ${formatFileSize(MAX_FILE_SIZE)}`);
+  }
+
+  const bytes = new Uint8Array(Buffer.from(decodeURIComponent(match[3]), 'base64'));
+  const { contentType, size } = checkImageBytes(bytes);
+
+  return { url: `data:${contentType};base64,${Buffer.from(bytes).toString('base64')}`, contentType, size };
+}
+
+/**
+ * Check an image uploaded to this app's local storage, without fetching it
+ *
+ * The minted URL must still be reachable by everyone else, so local images are
+ * only accepted when the app is served from a public HTTPS origin.
+ *
+ * @returns The validated image, or null when the URL is not a local image URL
+ */
+async function validateLocalImage(url: URL, origin: string): Promise<ValidatedImageUrl | null> {
+  const localOrigin = new URL(process.env.IMAGE_PUBLIC_URL || origin).origin;
+  const match = LOCAL_IMAGE_PATH_PATTERN.exec(url.pathname);
+  if (url.origin !== localOrigin || !match) return null;
+
+  try {
+    await assertPublicHttpsUrl(url);
+  } catch {
+    throw new Error(
+      `Images stored on this server are served from ${localOrigin}, which is not a public HTTPS origin. ` +
+        'Set IMAGE_PUBLIC_URL or use the ipfs or walrus storage backend'
+    );
+  }
+
+  const image = await readLocalImage(getLocalImageDirectory(), decodeURIComponent(match[1]));
+  if (!image) {
+    throw new Error('The uploaded image was not found');
+  }
+
+  return { url: url.toString(), ...checkImageBytes(image.bytes) };
+}
+
+/**
+ * Validate and normalize an image URL
+ *
+ * @throws Error describing why the URL cannot be minted
+ */
+async function resolveImageUrl(input: string, origin: string): Promise<ValidatedImageUrl> {
+  if (/^data:/i.test(input)) {
+    return validateDataUri(input);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(normalizeIpfsUri(input) ?? input);
+  } catch {
+    throw new Error('Please enter a valid URL');
+  }
+
+  return (await validateLocalImage(url, origin)) ?? validateRemoteImage(url);
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check that an image URL serves a supported image, normalizing it for minting
+ *
+ * Accepts `https:`, `ipfs://` and base64 `data:` URIs, see the file overview.
+ * Results for `https:` and `ipfs://` URLs are cached.
+ *
+ * @param input - The image URL as entered
+ * @param origin - Origin of the request, used for local image URLs when `IMAGE_PUBLIC_URL` is not set
+ * @returns The normalized URL with the image's type and size, or why it is invalid
+ *
+ * @example
+ * ```ts
+ * const result = await validateImageUrl('ipfs://bafy.../dragon.png', request.nextUrl.origin);
+ * if (!('error' in result)) mint({ ...data, image_url: result.url });
+ * ```
+ */
+export async function validateImageUrl(input: string, origin: string): Promise<ImageUrlValidationResponse> {
+  const url = input.trim();
+  // Data URIs are decoded rather than fetched, and too large to keep as cache keys
+  const isCacheable = !/^data:/i.test(url);
+
+  const cached = isCacheable ? validationCache.get(url) : undefined;
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.result;
+  }
+
+  let result: ImageUrlValidationResponse;
+  try {
+    result = await resolveImageUrl(url, origin);
+  } catch (err) {
+    result = { error: err instanceof Error ? err.message : 'The image could not be validated' };
+  }
+
+  if (isCacheable) {
+    validationCache.delete(url);
+    validationCache.set(url, {
+      result,
+      expiresAt: Date.now() + ('error' in result ? FAILED_VALIDATION_CACHE_TIME : IMAGE_URL_VALIDATION_CACHE_TIME),
+    });
+    if (validationCache.size > MAX_CACHED_VALIDATIONS) {
+      validationCache.delete(validationCache.keys().next().value as string);
+    }
+  }
+
+  return result;
+}
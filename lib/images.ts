@@ -0,0 +1,145 @@
+/**
+ * @fileoverview NFT Image Utilities
+ *
+ * This file contains the checks applied to NFT image uploads. They are shared by
+ * the upload form, which rejects files before sending them, and the upload API
+ * route, which verifies the bytes it receives instead of trusting the browser.
+ * It also holds the browser-side upload through that route, used for files and
+ * for `data:` image URIs, which are stored only when they are minted.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+import { MAX_FILE_SIZE, SUPPORTED_IMAGE_TYPES } from './constants';
+import { ImageUploadResponse, StoredImage } from '@/types/sui';
+
+/**
+ * File extensions of the supported image types, used for stored file names
+ */
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+/**
+ * Bytes identifying each supported image type, by offset from the start of the file
+ * WebP files start with `RIFF`, a 4-byte size and then `WEBP`
+ */
+const IMAGE_SIGNATURES: { contentType: string; parts: { offset: number; bytes: number[] }[] }[] = [
+  { contentType: 'image/jpeg', parts: [{ offset: 0, bytes: [0xff, 0xd8, 0xff] }] },
+  { contentType: 'image/png', parts: [{ offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] }] },
+  { contentType: 'image/gif', parts: [{ offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] }] },
+  {
+    contentType: 'image/webp',
+    parts: [
+      { offset: 0, bytes: [0x52, 0x49, 0x46, 0x46] },
+      { offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+    ],
+  },
+];
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Format a size in bytes for display, in KB or MB
+ */
+export function formatFileSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+/**
+ * Validate an image file against `SUPPORTED_IMAGE_TYPES` and `MAX_FILE_SIZE`
+ *
+ * @param file - The file, or any object with its MIME type and size
+ * @returns Whether the file can be uploaded, with the reason when it cannot
+ *
+ * @example
+ * ```ts
+ * const { isValid, error } = validateImageFile(file);
+ * ```
+ */
+export function validateImageFile(file: { type: string; size: number }): { isValid: boolean; error?: string } {
+  if (!SUPPORTED_IMAGE_TYPES.includes(file.type)) {
+    return { isValid: false, error: 'Unsupported image type. Use a JPEG, PNG, GIF or WebP image' };
+  }
+
+  if (file.size === 0) {
+    return { isValid: false, error: 'The image is empty' };
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    return {
+      isValid: false,
+      error: `The image is ${formatFileSize(file.size)}, the maximum is ${formatFileSize(MAX_FILE_SIZE)}`,
+    };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Detect the type of an image from its leading bytes
+ *
+ * @param bytes - The image's bytes
+ * @returns The MIME type of a supported image, or null for any other content
+ */
+export function detectImageType(bytes: Uint8Array): string | null {
+  const signature = IMAGE_SIGNATURES.find(({ parts }) =>
+    parts.every(({ offset, bytes: expected }) => expected.every((byte, index) => bytes[offset + index] === byte))
+  );
+
+  return signature?.contentType ?? null;
+}
+
+// ============================================================================
+// UPLOAD
+// ============================================================================
+
+/**
+ * Check whether an image URL is a `data:` URI
+ */
+export const isDataUri = (url: string) => /^data:/i.test(url.trim());
+
+/**
+ * Upload an image file through the `/api/images` route
+ *
+ * @param file - The image file, validated with `validateImageFile` first
+ * @returns The stored image
+ * @throws Error with the route's reason when the upload fails
+ */
+export async function uploadImage(file: File): Promise<StoredImage> {
+  const body = new FormData();
+  body.append('file', file);
+
+  const response = await fetch('/api/images', { method: 'POST', body });
+  const result = (await response.json().catch(() => ({
+    error: `Upload failed with status ${response.status}`,
+  }))) as ImageUploadResponse;
+
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+  return result;
+}
+
+/**
+ * Upload the image of a `data:` URI, so the NFT links to a hosted image instead of embedding it
+ *
+ * @param uri - A base64 `data:` URI, as returned by the image URL validation route
+ * @returns The stored image
+ * @throws Error when the URI cannot be decoded or the upload fails
+ *
+ * @example
+ * ```ts
+ * const imageUrl = isDataUri(image.url) ? (await uploadDataUri(image.url)).url : image.url;
+ * ```
+ */
+export async function uploadDataUri(uri: string): Promise<StoredImage> {
+  const blob = await (await fetch(uri)).blob();
+  return uploadImage(new File([blob], `image.${IMAGE_EXTENSIONS[blob.type] ?? 'bin'}`, { type: blob.type }));
+}
@@ -0,0 +1,208 @@
+/**
+ * @fileoverview Live Update Utilities for Sui DApp
+ *
+ * This file contains the event-driven update layer that follows Move events and
+ * transactions as they happen on chain. Each filter is followed with a WebSocket
+ * subscription when the network's RPC supports one, and otherwise with a cursor
+ * poller over `queryEvents` or `queryTransactionBlocks`. Callers are told the
+ * digest of every new transaction, so they can refetch only what it changed.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+import { EventId, SuiClient, SuiEventFilter, TransactionFilter, Unsubscribe } from '@mysten/sui/client';
+import { LIVE_UPDATE_POLL_INTERVAL, LIVE_UPDATE_SUBSCRIBE_TIMEOUT } from './constants';
+import { LiveUpdateOptions } from '@/types/sui';
+
+/**
+ * Number of reported transaction digests remembered to skip repeats
+ */
+const SEEN_DIGESTS_LIMIT = 200;
+
+// ============================================================================
+// SUBSCRIPTIONS
+// ============================================================================
+
+/**
+ * Start a WebSocket subscription, giving up when it does not open in time
+ *
+ * The SDK waits for the socket to open without a timeout, so an RPC without
+ * WebSocket support would otherwise leave the subscription pending forever.
+ * A subscription that opens after the timeout is closed right away.
+ *
+ * @returns The function closing the subscription, or null when it failed
+ */
+async function trySubscribe(subscribe: () => Promise<Unsubscribe>): Promise<Unsubscribe | null> {
+  const pending = subscribe();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), LIVE_UPDATE_SUBSCRIBE_TIMEOUT);
+  });
+
+  try {
+    const unsubscribe = await Promise.race([pending, timeout]);
+    if (!unsubscribe) {
+      pending.then((late) => late()).catch(() => undefined);
+    }
+    return unsubscribe;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ============================================================================
+// POLLERS
+// ============================================================================
+
+/**
+ * Run a poll step every `LIVE_UPDATE_POLL_INTERVAL`, waiting for each step to finish
+ *
+ * @returns Function stopping the poller
+ */
+function startPolling(step: () => Promise<void>): () => void {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const run = async () => {
+    try {
+      await step();
+    } catch (err) {
+      console.error('Live update poll failed:', err);
+    }
+    if (!stopped) timer = setTimeout(run, LIVE_UPDATE_POLL_INTERVAL);
+  };
+  void run();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
+
+/**
+ * Create a poll step reporting the transactions that emitted new matching events
+ *
+ * The first step only records the newest event, so events from before the poller
+ * started are not reported.
+ */
+function createEventPoll(client: SuiClient, query: SuiEventFilter, report: (digest: string) => void) {
+  let cursor: EventId | null | undefined;
+
+  return async () => {
+    if (cursor === undefined) {
+      const latest = await client.queryEvents({ query, limit: 1, order: 'descending' });
+      cursor = latest.data[0]?.id ?? null;
+      return;
+    }
+
+    const page = await client.queryEvents({ query, cursor, order: 'ascending' });
+    page.data.forEach((event) => report(event.id.txDigest));
+    if (page.data.length > 0) cursor = page.nextCursor ?? page.data[page.data.length - 1].id;
+  };
+}
+
+/**
+ * Create a poll step reporting new transactions matching a filter
+ *
+ * The first step only records the newest transaction, so transactions from
+ * before the poller started are not reported.
+ */
+function createTransactionPoll(client: SuiClient, filter: TransactionFilter, report: (digest: string) => void) {
+  let cursor: string | null | undefined;
+
+  return async () => {
+    if (cursor === undefined) {
+      const latest = await client.queryTransactionBlocks({ filter, limit: 1, order: 'descending' });
+      cursor = latest.data[0]?.digest ?? null;
+      return;
+    }
+
+    const page = await client.queryTransactionBlocks({ filter, cursor, order: 'ascending' });
+    page.data.forEach((tx) => report(tx.digest));
+    if (page.data.length > 0) cursor = page.nextCursor ?? page.data[page.data.length - 1].digest;
+  };
+}
+
+// ============================================================================
+// LIVE UPDATES
+// ============================================================================
+
+/**
+ * Follow events and transactions, reporting each new transaction digest once
+ *
+ * Every filter is followed on its own: with `subscribeEvent` or
+ * `subscribeTransaction` when the RPC accepts a WebSocket connection within
+ * `LIVE_UPDATE_SUBSCRIBE_TIMEOUT`, and with a cursor poller otherwise. A
+ * transaction matching several filters is reported once.
+ *
+ * @param options - Client, filters and the callback for new transactions
+ * @returns Function stopping every subscription and poller
+ *
+ * @example
+ * ```ts
+ * const stop = startLiveUpdates({
+ *   client,
+ *   eventFilters: [{ MoveEventModule: { package: packageId, module: 'nft' } }],
+ *   transactionFilters: [{ FromAddress: address }],
+ *   onTransaction: (digest) => console.log('New transaction', digest),
+ * });
+ *
+ * stop();
+ * ```
+ */
+export function startLiveUpdates({
+  client,
+  eventFilters,
+  transactionFilters,
+  onTransaction,
+}: LiveUpdateOptions): () => void {
+  let stopped = false;
+  const stops: (() => void)[] = [];
+  const seen = new Set<string>();
+
+  const report = (digest: string) => {
+    if (stopped || seen.has(digest)) return;
+
+    seen.add(digest);
+    if (seen.size > SEEN_DIGESTS_LIMIT) {
+      seen.delete(seen.values().next().value as string);
+    }
+    onTransaction(digest);
+  };
+
+  /**
+   * Follow one filter with a subscription, or with a poller when that fails
+   */
+  const follow = async (subscribe: () => Promise<Unsubscribe>, poll: () => Promise<void>) => {
+    const unsubscribe = await trySubscribe(subscribe);
+
+    if (stopped) {
+      unsubscribe?.().catch(() => undefined);
+      return;
+    }
+
+    stops.push(unsubscribe ? () => void unsubscribe().catch(() => undefined) : startPolling(poll));
+  };
+
+  eventFilters.forEach((filter) => {
+    void follow(
+      () => client.subscribeEvent({ filter, onMessage: (event) => report(event.id.txDigest) }),
+      createEventPoll(client, filter, report)
+    );
+  });
+
+  transactionFilters.forEach((filter) => {
+    void follow(
+      () => client.subscribeTransaction({ filter, onMessage: (effects) => report(effects.transactionDigest) }),
+      createTransactionPoll(client, filter, report)
+    );
+  });
+
+  return () => {
+    stopped = true;
+    stops.forEach((stop) => stop());
+  };
+}
@@ -0,0 +1,478 @@
+/**
+ * @fileoverview NFT Object Parsing for Sui DApp
+ *
+ * This file contains the runtime schema of the NFT struct's fields and the
+ * helper that turns raw object responses into `SimpleNFT`s. Objects whose
+ * fields do not match the schema are rejected with a descriptive error
+ * instead of being shown with made-up defaults. It also holds the mint form
+ * schema and bulk mint manifest parsing, the level bands and the gallery's
+ * search, sort and level filter helpers.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+import { SuiObjectResponse } from '@mysten/sui/client';
+import { z } from 'zod';
+import {
+  GalleryFilters,
+  GallerySort,
+  LevelBand,
+  MintManifestResult,
+  MintNFTData,
+  ParseNFTResult,
+  SimpleNFT,
+} from '@/types/sui';
+import { validateSuiAddress } from './transactionUtils';
+
+// ============================================================================
+// NFT FIELDS SCHEMA
+// ============================================================================
+
+/**
+ * Schema of the NFT struct's Move fields as returned by the RPC
+ *
+ * `level` is a u64, which the RPC serializes as a decimal string.
+ */
+const nftFieldsSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  image_url: z.string(),
+  level: z.union([
+    z.number().int().nonnegative(),
+    z.string().regex(/^\d+$/, 'Expected an unsigned integer').transform(Number),
+  ]),
+});
+
+// ============================================================================
+// NFT PARSING
+// ============================================================================
+
+/**
+ * Parse an object response into an NFT
+ *
+ * Display metadata takes precedence over the struct's fields for the name,
+ * description and image, matching how wallets and explorers show the NFT.
+ *
+ * @param object - Object response fetched with `showContent`, `showType` and `showDisplay`
+ * @returns The parsed NFT, or the object ID and reason it could not be parsed
+ *
+ * @example
+ * ```ts
+ * const result = parseNFTObject(object);
+ * if (result.success) {
+ *   console.log(result.nft.level);
+ * }
+ * ```
+ */
+export function parseNFTObject(object: SuiObjectResponse): ParseNFTResult {
+  const data = object.data;
+  const objectId = data?.objectId ?? '';
+
+  if (!data) {
+    const reason = object.error ? `Object could not be loaded (${object.error.code})` : 'Object has no data';
+    return { success: false, invalid: { objectId, type: null, error: reason } };
+  }
+
+  const content = data.content;
+  if (!content || content.dataType !== 'moveObject') {
+    return {
+      success: false,
+      invalid: { objectId, type: data.type ?? null, error: 'Object has no Move content' },
+    };
+  }
+
+  const parsed = nftFieldsSchema.safeParse(content.fields);
+  if (!parsed.success) {
+    const error = parsed.error.issues
+      .map((issue) => `${issue.path.join('.') || 'fields'}: ${issue.message}`)
+      .join('; ');
+    return { success: false, invalid: { objectId, type: data.type ?? null, error } };
+  }
+
+  const fields = parsed.data;
+  const display = data.display?.data;
+
+  return {
+    success: true,
+    nft: {
+      id: { id: objectId },
+      name: display?.name || fields.name,
+      description: display?.description || fields.description,
+      image_url: display?.image_url || fields.image_url,
+      level: fields.level,
+      version: data.version,
+    },
+  };
+}
+
+// ============================================================================
+// MINT FORM SCHEMA
+// ============================================================================
+
+/**
+ * Zod schema for NFT minting form validation
+ *
+ * Defines validation rules for:
+ * - Name: Required, 1-100 characters
+ * - Description: Required, 1-500 characters
+ * - Image URL: Required, valid URL format
+ * - Recipient: Optional, a valid Sui address when given
+ *
+ * Shared by the single mint form and every row of a bulk mint manifest.
+ */
+export const mintFormSchema = z.object({
+  name: z.string()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be less than 100 characters')
+    .trim(),
+  description: z.string()
+    .min(1, 'Description is required')
+    .max(500, 'Description must be less than 500 characters')
+    .trim(),
+  image_url: z.string()
+    .min(1, 'Image URL is required')
+    .url('Please enter a valid URL')
+    .trim(),
+  recipient: z.string()
+    .trim()
+    .refine((value) => value === '' || validateSuiAddress(value).isValid, 'Please enter a valid Sui address')
+    .optional(),
+});
+
+/**
+ * Type definition for form data based on validation schema
+ */
+export type MintFormData = z.infer<typeof mintFormSchema>;
+
+// ============================================================================
+// BULK MINT MANIFEST
+// ============================================================================
+
+/**
+ * Columns every bulk mint manifest row must provide, besides the optional `recipient`
+ */
+const MANIFEST_COLUMNS = ['name', 'description', 'image_url'] as const;
+
+/**
+ * Split CSV text into rows of cells
+ *
+ * Supports quoted cells containing commas, line breaks and doubled quotes.
+ * Blank lines are skipped.
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+/**
+ * Read the raw rows of a CSV or JSON manifest as objects
+ *
+ * @returns The rows, or an error when the manifest cannot be read
+ */
+function readManifestRows(text: string): { rows: Record<string, unknown>[]; error?: string } {
+  const trimmed = text.trim();
+
+  // JSON: an array of objects
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      if (!Array.isArray(parsed)) {
+        return { rows: [], error: 'A JSON manifest must be an array of NFTs' };
+      }
+      return {
+        rows: parsed.map((row) => (typeof row === 'object' && row !== null ? (row as Record<string, unknown>) : {})),
+      };
+    } catch (err) {
+      return { rows: [], error: `Invalid JSON: ${err instanceof Error ? err.message : 'could not be parsed'}` };
+    }
+  }
+
+  // CSV: a header row naming the columns, then one row per NFT
+  const [header = [], ...lines] = parseCsv(trimmed);
+  const columns = header.map((column) => column.trim().toLowerCase());
+  const missing = MANIFEST_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    return {
+      rows: [],
+      error: `The CSV header must name the columns ${MANIFEST_COLUMNS.join(', ')} (missing ${missing.join(', ')})`,
+    };
+  }
+
+  return {
+    rows: lines.map((cells) => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? '']))),
+  };
+}
+
+/**
+ * Parse a bulk mint manifest and validate every row with `mintFormSchema`
+ *
+ * Manifests are either JSON (an array of `{ name, description, image_url }`
+ * objects) or CSV with a `name,description,image_url` header row, in any
+ * column order. A `recipient` field or column mints that row to another
+ * address, when the contract supports it. Rows are numbered from 1, not
+ * counting the CSV header.
+ *
+ * @param text - The manifest's contents
+ * @param allowRecipient - Whether rows may mint to another address, i.e. a mint-to function is configured
+ * @returns The valid rows and an error for every invalid one
+ *
+ * @example
+ * ```ts
+ * const { rows, errors } = parseMintManifest('name,description,image_url\nDragon,A dragon,https://example.com/1.png');
+ * ```
+ */
+export function parseMintManifest(text: string, allowRecipient: boolean = true): MintManifestResult {
+  if (text.trim() === '') {
+    return { rows: [], errors: [] };
+  }
+
+  const { rows: rawRows, error } = readManifestRows(text);
+  if (error) {
+    return { rows: [], errors: [error] };
+  }
+  if (rawRows.length === 0) {
+    return { rows: [], errors: ['The manifest has no NFTs'] };
+  }
+
+  const rows: MintNFTData[] = [];
+  const errors: string[] = [];
+
+  rawRows.forEach((raw, index) => {
+    const parsed = mintFormSchema.safeParse(raw);
+    if (parsed.success && parsed.data.recipient && !allowRecipient) {
+      errors.push(`Row ${index + 1}: recipient: This contract cannot mint to another address`);
+    } else if (parsed.success) {
+      rows.push(parsed.data);
+    } else {
+      const issues = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+      errors.push(`Row ${index + 1}: ${issues}`);
+    }
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * Find the minted NFT object of every mint in a bulk mint transaction
+ *
+ * A transaction's created objects are not reported in call order, so each mint
+ * is matched to an unclaimed created NFT with the same name, description and image.
+ *
+ * @param objects - The transaction's created objects, fetched with `showContent`
+ * @param mints - The NFT data of every mint in the transaction, in call order
+ * @returns The object ID minted for each mint, null when none matched
+ */
+export function matchMintedNFTs(objects: SuiObjectResponse[], mints: MintNFTData[]): (string | null)[] {
+  const minted = objects.flatMap((object) => {
+    const result = parseNFTObject(object);
+    return result.success ? [result.nft] : [];
+  });
+  const claimed = new Set<string>();
+
+  return mints.map((mint) => {
+    const match = minted.find(
+      (nft) =>
+        !claimed.has(nft.id.id) &&
+        nft.name === mint.name &&
+        nft.description === mint.description &&
+        nft.image_url === mint.image_url
+    );
+    if (!match) return null;
+
+    claimed.add(match.id.id);
+    return match.id.id;
+  });
+}
+
+// ============================================================================
+// LEVEL BANDS
+// ============================================================================
+
+/**
+ * Level ranges shown with the same badge colour, lowest first
+ */
+export const LEVEL_BANDS: LevelBand[] = [
+  { label: '1–2', min: 1, max: 2, className: 'bg-gray-600 text-white border-gray-700' },
+  { label: '3–4', min: 3, max: 4, className: 'bg-green-600 text-white border-green-700' },
+  { label: '5–9', min: 5, max: 9, className: 'bg-blue-600 text-white border-blue-700' },
+  { label: '10+', min: 10, max: null, className: 'bg-purple-600 text-white border-purple-700' },
+];
+
+/**
+ * Get the band a level belongs to
+ *
+ * @param level - NFT level
+ * @returns The level's band, the lowest band for levels below every band
+ *
+ * @example
+ * ```ts
+ * getLevelBand(7).label; // '5–9'
+ * ```
+ */
+export function getLevelBand(level: number): LevelBand {
+  return [...LEVEL_BANDS].reverse().find((band) => level >= band.min) ?? LEVEL_BANDS[0];
+}
+
+// ============================================================================
+// GALLERY FILTERS
+// ============================================================================
+
+/**
+ * Sort orders of the gallery with their labels, the first being the default
+ */
+export const GALLERY_SORTS: { value: GallerySort; label: string }[] = [
+  { value: 'version', label: 'Highest version' },
+  { value: 'level-desc', label: 'Level: high to low' },
+  { value: 'level-asc', label: 'Level: low to high' },
+  { value: 'name', label: 'Name' },
+];
+
+/**
+ * Gallery filters when the URL has none
+ */
+export const DEFAULT_GALLERY_FILTERS: GalleryFilters = {
+  query: '',
+  sort: GALLERY_SORTS[0].value,
+  minLevel: null,
+  maxLevel: null,
+};
+
+/**
+ * Parse a non-negative integer level from a query param, null when missing or invalid
+ */
+function parseLevelParam(value: string | null): number | null {
+  return value !== null && /^\d+$/.test(value) ? Number(value) : null;
+}
+
+/**
+ * Read the gallery filters from URL query params
+ *
+ * Uses `q` for the search, `sort` for the sort order and `min`/`max` for the
+ * level range. Missing or invalid params fall back to the defaults.
+ *
+ * @param params - The URL's query params
+ * @returns The gallery filters
+ *
+ * @example
+ * ```ts
+ * parseGalleryFilters(new URLSearchParams('q=dragon&sort=level-desc&min=5'));
+ * ```
+ */
+export function parseGalleryFilters(params: URLSearchParams): GalleryFilters {
+  const sort = params.get('sort');
+
+  return {
+    query: params.get('q') ?? DEFAULT_GALLERY_FILTERS.query,
+    sort: GALLERY_SORTS.find((option) => option.value === sort)?.value ?? DEFAULT_GALLERY_FILTERS.sort,
+    minLevel: parseLevelParam(params.get('min')),
+    maxLevel: parseLevelParam(params.get('max')),
+  };
+}
+
+/**
+ * Write gallery filters to URL query params, omitting defaults
+ *
+ * @param filters - The gallery filters
+ * @param params - Existing query params to keep (not modified)
+ * @returns New query params with the filters applied
+ */
+export function toGallerySearchParams(filters: GalleryFilters, params?: URLSearchParams): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const values: Record<string, string | null> = {
+    q: filters.query.trim() || null,
+    sort: filters.sort === DEFAULT_GALLERY_FILTERS.sort ? null : filters.sort,
+    min: filters.minLevel === null ? null : String(filters.minLevel),
+    max: filters.maxLevel === null ? null : String(filters.maxLevel),
+  };
+
+  Object.entries(values).forEach(([key, value]) => {
+    if (value === null) {
+      next.delete(key);
+    } else {
+      next.set(key, value);
+    }
+  });
+
+  return next;
+}
+
+/**
+ * Search, filter and sort NFTs
+ *
+ * Every whitespace-separated search term must appear in the NFT's name or
+ * description, ignoring case. "Highest version" sorts by object version, which
+ * increases every time an NFT is changed; versions are counted per object, so
+ * they do not tell which NFT was changed most recently.
+ *
+ * @param nfts - NFTs to filter
+ * @param filters - The gallery filters
+ * @returns The matching NFTs in sort order
+ *
+ * @example
+ * ```ts
+ * const visible = applyGalleryFilters(nfts, { ...DEFAULT_GALLERY_FILTERS, minLevel: 5 });
+ * ```
+ */
+export function applyGalleryFilters(nfts: SimpleNFT[], filters: GalleryFilters): SimpleNFT[] {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  const matches = nfts.filter((nft) => {
+    const text = `${nft.name} ${nft.description}`.toLowerCase();
+    return (
+      terms.every((term) => text.includes(term)) &&
+      (filters.minLevel === null || nft.level >= filters.minLevel) &&
+      (filters.maxLevel === null || nft.level <= filters.maxLevel)
+    );
+  });
+
+  const byName = (a: SimpleNFT, b: SimpleNFT) => a.name.localeCompare(b.name);
+  const compare: Record<GallerySort, (a: SimpleNFT, b: SimpleNFT) => number> = {
+    version: (a, b) => {
+      const diff = BigInt(b.version) - BigInt(a.version);
+      return diff === BigInt(0) ? byName(a, b) : diff > BigInt(0) ? 1 : -1;
+    },
+    'level-desc': (a, b) => b.level - a.level || byName(a, b),
+    'level-asc': (a, b) => a.level - b.level || byName(a, b),
+    name: byName,
+  };
+
+  return matches.sort(compare[filters.sort]);
+}
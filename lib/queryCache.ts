@@ -0,0 +1,560 @@
+/**
+ * @fileoverview Query Cache Utilities for Sui DApp
+ *
+ * This file contains helpers that apply a confirmed transaction to the TanStack
+ * Query caches created by dapp-kit's `useSuiClientQuery` and
+ * `useSuiClientInfiniteQuery`. Owned objects, coins and balances are patched
+ * directly from the transaction's object and balance changes, so the UI reflects
+ * the chain as soon as the transaction is confirmed instead of after a fixed
+ * delay or the next polling interval. Single objects loaded with `getObject` are
+ * refetched when the transaction changed them.
+ *
+ * Each transaction is applied at most once per network, so the executor and the
+ * live update layer can both report the same transaction.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+import { InfiniteData, QueryClient } from '@tanstack/react-query';
+import {
+  CoinBalance,
+  CoinStruct,
+  GetAllBalancesParams,
+  GetBalanceParams,
+  GetCoinsParams,
+  GetObjectParams,
+  GetOwnedObjectsParams,
+  ObjectOwner,
+  PaginatedCoins,
+  PaginatedObjectsResponse,
+  QueryTransactionBlocksParams,
+  SuiClient,
+  SuiObjectDataFilter,
+  SuiObjectResponse,
+  SuiTransactionBlockResponse,
+  TransactionFilter,
+} from '@mysten/sui/client';
+import { normalizeStructTag, normalizeSuiAddress, parseStructTag } from '@mysten/sui/utils';
+import { SUI_COIN_TYPE } from './constants';
+
+// ============================================================================
+// OBJECT CHANGE HELPERS
+// ============================================================================
+
+/**
+ * An object that is owned by an address after the transaction
+ */
+interface OwnedObjectChange {
+  objectId: string;
+  objectType: string;
+  /** Normalized owner address */
+  owner: string;
+  /** Normalized sender address */
+  sender: string;
+  /** Whether the object was created (or received) rather than updated in place */
+  isNew: boolean;
+}
+
+/**
+ * Get the normalized address owner of an object, null for shared or object owners
+ */
+function getAddressOwner(owner: ObjectOwner): string | null {
+  return typeof owner === 'object' && 'AddressOwner' in owner ? normalizeSuiAddress(owner.AddressOwner) : null;
+}
+
+/**
+ * Get the normalized coin type of a `0x2::coin::Coin<T>` object type, null for other objects
+ */
+function getCoinType(objectType: string): string | null {
+  const tag = parseStructTag(objectType);
+  if (normalizeSuiAddress(tag.address) !== normalizeSuiAddress('0x2') || tag.module !== 'coin' || tag.name !== 'Coin') {
+    return null;
+  }
+  return tag.typeParams[0] ? normalizeStructTag(tag.typeParams[0]) : null;
+}
+
+/**
+ * Check whether an object type matches a `getOwnedObjects` filter
+ *
+ * @returns Whether the type matches, or null when the filter is not supported
+ */
+function matchesFilter(filter: SuiObjectDataFilter | null | undefined, objectType: string): boolean | null {
+  if (!filter) return true;
+
+  const tag = parseStructTag(objectType);
+  if ('Package' in filter) {
+    return normalizeSuiAddress(tag.address) === normalizeSuiAddress(filter.Package);
+  }
+  if ('MoveModule' in filter) {
+    return (
+      normalizeSuiAddress(tag.address) === normalizeSuiAddress(filter.MoveModule.package) &&
+      tag.module === filter.MoveModule.module
+    );
+  }
+  if ('StructType' in filter) {
+    const type = normalizeStructTag(objectType);
+    const structType = normalizeStructTag(filter.StructType);
+    return type === structType || type.startsWith(`${structType}<`);
+  }
+
+  return null;
+}
+
+/**
+ * Split the object changes of a transaction into owned objects and removed object IDs
+ */
+function summarizeObjectChanges(response: SuiTransactionBlockResponse) {
+  const owned: OwnedObjectChange[] = [];
+  const removedIds = new Set<string>();
+
+  (response.objectChanges ?? []).forEach((change) => {
+    if (change.type === 'deleted' || change.type === 'wrapped') {
+      removedIds.add(change.objectId);
+      return;
+    }
+    if (change.type !== 'created' && change.type !== 'mutated' && change.type !== 'transferred') return;
+
+    const owner = getAddressOwner(change.type === 'transferred' ? change.recipient : change.owner);
+    if (!owner) {
+      removedIds.add(change.objectId);
+      return;
+    }
+
+    owned.push({
+      objectId: change.objectId,
+      objectType: change.objectType,
+      owner,
+      sender: normalizeSuiAddress(change.sender),
+      isNew: change.type !== 'mutated',
+    });
+  });
+
+  // Deleted coins are reported with their sender, who owned them
+  const deletedCoins = (response.objectChanges ?? []).flatMap((change) =>
+    change.type === 'deleted' || change.type === 'wrapped'
+      ? [{ coinType: getCoinType(change.objectType), sender: normalizeSuiAddress(change.sender) }]
+      : []
+  );
+
+  return { owned, removedIds, deletedCoins };
+}
+
+/**
+ * Get the addresses a transaction affects: its sender and every address owner
+ * of its balance and object changes, normalized
+ */
+function getAffectedAddresses(response: SuiTransactionBlockResponse): Set<string> {
+  const addresses = new Set<string>();
+  const add = (owner: ObjectOwner) => {
+    const address = getAddressOwner(owner);
+    if (address) addresses.add(address);
+  };
+
+  if (response.transaction) addresses.add(normalizeSuiAddress(response.transaction.data.sender));
+  (response.balanceChanges ?? []).forEach((change) => add(change.owner));
+  (response.objectChanges ?? []).forEach((change) => {
+    if ('sender' in change) addresses.add(normalizeSuiAddress(change.sender));
+    if (change.type === 'transferred') add(change.recipient);
+    if (change.type === 'created' || change.type === 'mutated') add(change.owner);
+  });
+
+  return addresses;
+}
+
+/**
+ * Check whether a transaction can appear in a transaction history query
+ *
+ * Address filters match the affected addresses and object filters the changed
+ * objects; any other filter cannot be matched from the response, so it counts as affected.
+ */
+function isAffectedHistory(
+  filter: TransactionFilter | null | undefined,
+  addresses: Set<string>,
+  changedIds: Set<string>
+): boolean {
+  const hasAddress = (address: string) => addresses.has(normalizeSuiAddress(address));
+  const hasObject = (objectId: string) => changedIds.has(normalizeSuiAddress(objectId));
+
+  if (!filter) return true;
+  if ('FromAddress' in filter) return hasAddress(filter.FromAddress);
+  if ('ToAddress' in filter) return hasAddress(filter.ToAddress);
+  if ('FromAndToAddress' in filter) {
+    return hasAddress(filter.FromAndToAddress.from) && hasAddress(filter.FromAndToAddress.to);
+  }
+  if ('FromOrToAddress' in filter) return hasAddress(filter.FromOrToAddress.addr);
+  if ('ChangedObject' in filter) return hasObject(filter.ChangedObject);
+  if ('InputObject' in filter) return hasObject(filter.InputObject);
+  if ('AffectedObject' in filter) return hasObject(filter.AffectedObject);
+  return true;
+}
+
+/**
+ * Cached result of a paginated RPC method: one page from `useSuiClientQuery`,
+ * or every loaded page from `useSuiClientInfiniteQuery`
+ */
+type PagedData<TPage> = TPage | InfiniteData<TPage>;
+
+/**
+ * Remove, replace and add items across every loaded page of a cached result
+ *
+ * Items are dropped when `keep` returns false and replaced by the upsert with the
+ * same ID. Upserts that are not on any loaded page are added to the first page.
+ */
+function patchPages<T, TPage extends { data: T[] }>(
+  data: PagedData<TPage> | undefined,
+  getId: (item: T) => string | undefined,
+  keep: (item: T) => boolean,
+  upserts: T[]
+): PagedData<TPage> | undefined {
+  if (!data) return data;
+
+  const upsertsById = new Map(upserts.map((item) => [getId(item), item]));
+  const pages = ('pages' in data ? data.pages : [data]).map(
+    (page): TPage => ({ ...page, data: page.data.filter(keep).map((item) => upsertsById.get(getId(item)) ?? item) })
+  );
+
+  const existingIds = new Set(pages.flatMap((page) => page.data.map(getId)));
+  const added = upserts.filter((item) => !existingIds.has(getId(item)));
+  if (pages.length > 0) {
+    pages[0] = { ...pages[0], data: [...pages[0].data, ...added] };
+  }
+
+  return 'pages' in data ? { ...data, pages } : pages[0];
+}
+
+/**
+ * Number of applied transaction digests remembered to skip repeats
+ */
+const APPLIED_TRANSACTIONS_LIMIT = 500;
+
+/**
+ * Digests of transactions already applied, keyed by network
+ */
+const appliedTransactions = new Set<string>();
+
+/**
+ * Record a transaction as applied, returning false when it already was
+ */
+function markApplied(network: string, digest: string): boolean {
+  const key = `${network}:${digest}`;
+  if (appliedTransactions.has(key)) return false;
+
+  appliedTransactions.add(key);
+  if (appliedTransactions.size > APPLIED_TRANSACTIONS_LIMIT) {
+    appliedTransactions.delete(appliedTransactions.values().next().value as string);
+  }
+  return true;
+}
+
+/**
+ * Find the cached dapp-kit queries for an RPC method on a network
+ */
+function findQueries(queryClient: QueryClient, network: string, method: string) {
+  return queryClient
+    .getQueryCache()
+    .findAll({ predicate: (query) => query.queryKey[0] === network && query.queryKey[1] === method });
+}
+
+// ============================================================================
+// CACHE PATCHING
+// ============================================================================
+
+/**
+ * Apply a confirmed transaction to the cached owned objects, coins and balances
+ *
+ * Patches every cached `getOwnedObjects`, `getCoins`, `getBalance` and
+ * `getAllBalances` query on the given network:
+ * - Deleted, wrapped and transferred-away objects are removed
+ * - Created, received and mutated objects are re-fetched and inserted or replaced
+ * - Balances are adjusted by the transaction's balance changes
+ *
+ * Queries that cannot be patched (e.g. an unsupported object filter) are
+ * invalidated instead, so they refetch. Balances are only adjusted in place for
+ * transactions reported right after execution; with `invalidateBalances` the
+ * balances of the affected addresses (the sender and the owners in the balance
+ * and object changes) are refetched instead, since a cached balance may already
+ * include a transaction that was observed later. Cached `getObject` queries for
+ * objects the transaction changed are invalidated as well, and so is cached
+ * transaction history (`queryTransactionBlocks`) the transaction can appear in.
+ * Queries of unrelated addresses are left alone.
+ *
+ * @param queryClient - The TanStack Query client used by dapp-kit
+ * @param client - Sui client used to fetch the changed objects
+ * @param network - The network the transaction was executed on
+ * @param response - Transaction response with object and balance changes
+ * @param options - `invalidateBalances` refetches balances instead of adjusting them
+ *
+ * @example
+ * ```ts
+ * const confirmed = await waitForTransaction(suiClient, digest);
+ * await applyTransactionToCache(queryClient, suiClient, network, confirmed);
+ * ```
+ */
+export async function applyTransactionToCache(
+  queryClient: QueryClient,
+  client: SuiClient,
+  network: string,
+  response: SuiTransactionBlockResponse,
+  options: { invalidateBalances?: boolean } = {}
+): Promise<void> {
+  if (!markApplied(network, response.digest)) return;
+
+  const { owned, removedIds, deletedCoins } = summarizeObjectChanges(response);
+  const ownedById = new Map(owned.map((change) => [change.objectId, change]));
+
+  await Promise.all([
+    patchOwnedObjects(queryClient, client, network, owned, ownedById, removedIds),
+    patchCoins(queryClient, client, network, owned, ownedById, removedIds),
+  ]);
+  const affectedAddresses = getAffectedAddresses(response);
+
+  if (options.invalidateBalances) {
+    await queryClient.invalidateQueries({
+      predicate: (query) =>
+        query.queryKey[0] === network &&
+        ['getBalance', 'getAllBalances'].includes(query.queryKey[1] as string) &&
+        affectedAddresses.has(normalizeSuiAddress((query.queryKey[2] as GetAllBalancesParams).owner)),
+    });
+  } else {
+    patchBalances(queryClient, network, response, owned, deletedCoins);
+  }
+
+  const changedIds = new Set(
+    (response.objectChanges ?? []).flatMap((change) =>
+      'objectId' in change ? [normalizeSuiAddress(change.objectId)] : []
+    )
+  );
+
+  await queryClient.invalidateQueries({
+    predicate: (query) =>
+      query.queryKey[0] === network &&
+      ((query.queryKey[1] === 'queryTransactionBlocks' &&
+        isAffectedHistory(
+          (query.queryKey[2] as QueryTransactionBlocksParams).filter,
+          affectedAddresses,
+          changedIds
+        )) ||
+        (query.queryKey[1] === 'getObject' &&
+          changedIds.has(normalizeSuiAddress((query.queryKey[2] as GetObjectParams).id)))),
+  });
+}
+
+/**
+ * Optimistically remove an object from every cached `getOwnedObjects` query on a network
+ *
+ * Used once the wallet has signed a transaction sending the object away, so it
+ * disappears before the transaction is confirmed.
+ *
+ * @param queryClient - The TanStack Query client used by dapp-kit
+ * @param network - The network the transaction was executed on
+ * @param objectId - The object that is being sent away
+ * @returns A function restoring the queries as they were, for when the transaction fails
+ *
+ * @example
+ * ```ts
+ * const rollback = removeOwnedObjectOptimistically(queryClient, network, nftId);
+ * // ...the transaction fails
+ * rollback();
+ * ```
+ */
+export function removeOwnedObjectOptimistically(
+  queryClient: QueryClient,
+  network: string,
+  objectId: string
+): () => void {
+  const id = normalizeSuiAddress(objectId);
+  const queries = findQueries(queryClient, network, 'getOwnedObjects');
+  const snapshots = queries.map((query) => [query.queryKey, query.state.data] as const);
+
+  queries.forEach((query) =>
+    queryClient.setQueryData<PagedData<PaginatedObjectsResponse>>(query.queryKey, (data) =>
+      patchPages(
+        data,
+        (object) => object.data?.objectId,
+        (object) => !object.data || normalizeSuiAddress(object.data.objectId) !== id,
+        [] as SuiObjectResponse[]
+      )
+    )
+  );
+
+  return () => snapshots.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+}
+
+/**
+ * Patch cached `getOwnedObjects` queries
+ */
+async function patchOwnedObjects(
+  queryClient: QueryClient,
+  client: SuiClient,
+  network: string,
+  owned: OwnedObjectChange[],
+  ownedById: Map<string, OwnedObjectChange>,
+  removedIds: Set<string>
+) {
+  await Promise.all(
+    findQueries(queryClient, network, 'getOwnedObjects').map(async (query) => {
+      const params = query.queryKey[2] as GetOwnedObjectsParams;
+      const owner = normalizeSuiAddress(params.owner);
+
+      const upserts = owned.filter((change) => change.owner === owner);
+      const matches = upserts.map((change) => matchesFilter(params.filter, change.objectType));
+      if (matches.includes(null)) {
+        await queryClient.invalidateQueries({ queryKey: query.queryKey });
+        return;
+      }
+
+      const ids = upserts.filter((_, index) => matches[index]).map((change) => change.objectId);
+      const fetched = ids.length > 0 ? await client.multiGetObjects({ ids, options: params.options ?? undefined }) : [];
+
+      queryClient.setQueryData<PagedData<PaginatedObjectsResponse>>(query.queryKey, (data) =>
+        patchPages(
+          data,
+          (object) => object.data?.objectId,
+          (object) => {
+            const id = object.data?.objectId ?? '';
+            const change = ownedById.get(id);
+            return !removedIds.has(id) && (!change || change.owner === owner);
+          },
+          fetched.filter((object) => object.data)
+        )
+      );
+    })
+  );
+}
+
+/**
+ * Patch cached `getCoins` queries
+ */
+async function patchCoins(
+  queryClient: QueryClient,
+  client: SuiClient,
+  network: string,
+  owned: OwnedObjectChange[],
+  ownedById: Map<string, OwnedObjectChange>,
+  removedIds: Set<string>
+) {
+  const queries = findQueries(queryClient, network, 'getCoins');
+  const coinChanges = owned.filter((change) => getCoinType(change.objectType));
+  if (queries.length === 0) return;
+
+  // Fetch every changed coin once for its new balance
+  const fetched =
+    coinChanges.length > 0
+      ? await client.multiGetObjects({
+          ids: coinChanges.map((change) => change.objectId),
+          options: { showContent: true, showPreviousTransaction: true },
+        })
+      : [];
+  const coins = fetched.flatMap((object): CoinStruct[] => {
+    const change = object.data && ownedById.get(object.data.objectId);
+    const content = object.data?.content;
+    if (!object.data || !change || !content || content.dataType !== 'moveObject') return [];
+
+    return [
+      {
+        coinObjectId: object.data.objectId,
+        coinType: getCoinType(change.objectType) ?? '',
+        balance: String((content.fields as { balance?: string }).balance ?? '0'),
+        digest: object.data.digest,
+        version: object.data.version,
+        previousTransaction: object.data.previousTransaction ?? '',
+      },
+    ];
+  });
+
+  queries.forEach((query) => {
+    const params = query.queryKey[2] as GetCoinsParams;
+    const owner = normalizeSuiAddress(params.owner);
+    const coinType = normalizeStructTag(params.coinType ?? SUI_COIN_TYPE);
+    const ownerCoins = coins.filter(
+      (coin) => coin.coinType === coinType && ownedById.get(coin.coinObjectId)?.owner === owner
+    );
+
+    queryClient.setQueryData<PagedData<PaginatedCoins>>(query.queryKey, (data) =>
+      patchPages(
+        data,
+        (coin) => coin.coinObjectId,
+        (coin) => {
+          const change = ownedById.get(coin.coinObjectId);
+          return !removedIds.has(coin.coinObjectId) && (!change || change.owner === owner);
+        },
+        ownerCoins
+      )
+    );
+  });
+}
+
+/**
+ * Patch cached `getBalance` and `getAllBalances` queries
+ */
+function patchBalances(
+  queryClient: QueryClient,
+  network: string,
+  response: SuiTransactionBlockResponse,
+  owned: OwnedObjectChange[],
+  deletedCoins: { coinType: string | null; sender: string }[]
+) {
+  /**
+   * Apply the transaction's changes for one owner to one cached balance
+   */
+  const applyChanges = (balance: CoinBalance, owner: string): CoinBalance => {
+    const coinType = normalizeStructTag(balance.coinType);
+
+    const delta = (response.balanceChanges ?? [])
+      .filter(
+        (change) => getAddressOwner(change.owner) === owner && normalizeStructTag(change.coinType) === coinType
+      )
+      .reduce((sum, change) => sum + BigInt(change.amount), BigInt(0));
+
+    // Coins gained by the owner, minus coins it sent away or destroyed
+    const coinCountDelta =
+      owned.filter(
+        (change) =>
+          getCoinType(change.objectType) === coinType &&
+          (change.owner === owner ? change.isNew || change.sender !== owner : change.sender === owner)
+      ).reduce((sum, change) => sum + (change.owner === owner ? 1 : -1), 0) -
+      deletedCoins.filter((coin) => coin.coinType === coinType && coin.sender === owner).length;
+
+    return {
+      ...balance,
+      totalBalance: (BigInt(balance.totalBalance) + delta).toString(),
+      coinObjectCount: Math.max(0, balance.coinObjectCount + coinCountDelta),
+    };
+  };
+
+  findQueries(queryClient, network, 'getBalance').forEach((query) => {
+    const params = query.queryKey[2] as GetBalanceParams;
+    queryClient.setQueryData<CoinBalance>(
+      query.queryKey,
+      (data) => data && applyChanges(data, normalizeSuiAddress(params.owner))
+    );
+  });
+
+  findQueries(queryClient, network, 'getAllBalances').forEach((query) => {
+    const params = query.queryKey[2] as GetAllBalancesParams;
+    const owner = normalizeSuiAddress(params.owner);
+
+    queryClient.setQueryData<CoinBalance[]>(query.queryKey, (data) => {
+      if (!data) return data;
+
+      // Coin types the owner did not hold before the transaction
+      const knownTypes = new Set(data.map((balance) => normalizeStructTag(balance.coinType)));
+      const newTypes = Array.from(
+        new Set(
+          (response.balanceChanges ?? [])
+            .filter((change) => getAddressOwner(change.owner) === owner)
+            .map((change) => normalizeStructTag(change.coinType))
+            .filter((coinType) => !knownTypes.has(coinType))
+        )
+      );
+
+      return [
+        ...data,
+        ...newTypes.map((coinType) => ({ coinType, coinObjectCount: 0, totalBalance: '0', lockedBalance: {} })),
+      ]
+        .map((balance) => applyChanges(balance, owner))
+        .filter((balance) => BigInt(balance.totalBalance) > BigInt(0) || balance.coinObjectCount > 0);
+    });
+  });
+}
@@ -11,7 +11,10 @@
 
 import { createNetworkConfig } from '@mysten/dapp-kit';
 import { getFullnodeUrl } from '@mysten/sui/client';
-import { SUI_NETWORK } from './constants';
+import { getFaucetHost } from '@mysten/sui/faucet';
+import { LOCALNET_FAUCET_URL, ORIGINAL_PACKAGE_IDS, PACKAGE_IDS, SHARED_OBJECT_IDS, SUI_NETWORK } from './constants';
+import { createContractDeployment } from './contracts';
+import { SuiNetwork } from '@/types/sui';
 
 // ============================================================================
 // NETWORK CONFIGURATION
@@ -21,26 +24,71 @@ import { SUI_NETWORK } from './constants';
  * Network configuration object for the dApp Kit providers
  * 
  * This configuration is used by SuiClientProvider to enable multi-network support.
- * It includes all major Sui networks with their respective RPC endpoints.
+ * It includes all major Sui networks with their respective RPC endpoints, plus
+ * per-network variables read through `useNetworkVariable`:
+ * - `explorerUrl`: Base URL of the block explorer, null when there is none
+ * - `faucetHost`: Faucet host for requesting SUI, null when there is no faucet;
+ *   the localnet host can be set with `NEXT_PUBLIC_LOCALNET_FAUCET_URL`
+ * - `contract`: NFT contract deployment, null when the contract is not deployed there
  * 
  * @example
  * ```tsx
  * <SuiClientProvider networks={networkConfig} defaultNetwork="testnet">
  *   <App />
  * </SuiClientProvider>
+ * 
+ * const explorerUrl = useNetworkVariable('explorerUrl');
  * ```
  */
 export const { networkConfig, useNetworkVariable } = createNetworkConfig({
   /** Sui development network - for early testing and development */
-  devnet: { url: getFullnodeUrl('devnet') },
+  devnet: {
+    url: getFullnodeUrl('devnet'),
+    variables: {
+      explorerUrl: 'https://suiscan.xyz/devnet',
+      faucetHost: getFaucetHost('devnet'),
+      contract: createContractDeployment(PACKAGE_IDS.devnet, ORIGINAL_PACKAGE_IDS.devnet, SHARED_OBJECT_IDS.devnet),
+    },
+  },
   /** Sui testnet - stable testing environment with test SUI */
-  testnet: { url: getFullnodeUrl('testnet') },
+  testnet: {
+    url: getFullnodeUrl('testnet'),
+    variables: {
+      explorerUrl: 'https://suiscan.xyz/testnet',
+      faucetHost: getFaucetHost('testnet'),
+      contract: createContractDeployment(PACKAGE_IDS.testnet, ORIGINAL_PACKAGE_IDS.testnet, SHARED_OBJECT_IDS.testnet),
+    },
+  },
   /** Sui mainnet - production network with real SUI */
-  mainnet: { url: getFullnodeUrl('mainnet') },
+  mainnet: {
+    url: getFullnodeUrl('mainnet'),
+    variables: {
+      explorerUrl: 'https://suiscan.xyz/mainnet',
+      faucetHost: null,
+      contract: createContractDeployment(PACKAGE_IDS.mainnet, ORIGINAL_PACKAGE_IDS.mainnet, SHARED_OBJECT_IDS.mainnet),
+    },
+  },
   /** Local Sui network - for local development and testing */
-  localnet: { url: getFullnodeUrl('localnet') },
+  localnet: {
+    url: getFullnodeUrl('localnet'),
+    variables: {
+      explorerUrl: null,
+      faucetHost: LOCALNET_FAUCET_URL ?? getFaucetHost('localnet'),
+      contract: createContractDeployment(PACKAGE_IDS.localnet, ORIGINAL_PACKAGE_IDS.localnet, SHARED_OBJECT_IDS.localnet),
+    },
+  },
 });
 
+/**
+ * Display names of the supported networks
+ */
+export const NETWORK_NAMES: Record<SuiNetwork, string> = {
+  devnet: 'Devnet',
+  testnet: 'Testnet',
+  mainnet: 'Mainnet',
+  localnet: 'Localnet',
+};
+
 /**
  * The default network to connect to based on environment configuration
  * This is used as the initial network when the DApp starts
@@ -85,4 +133,24 @@ export const NETWORK_URLS = {
  * console.log(`Connecting to: ${url}`);
  * ```
  */
-export const getCurrentNetworkUrl = () => NETWORK_URLS[SUI_NETWORK]; 
\ No newline at end of file
+export const getCurrentNetworkUrl = () => NETWORK_URLS[SUI_NETWORK];
+
+/**
+ * Build a block explorer link for a transaction, object or account
+ * 
+ * @param explorerUrl - The network's explorer base URL from `useNetworkVariable('explorerUrl')`
+ * @param kind - What the ID refers to
+ * @param id - Transaction digest, object ID or address
+ * @returns The explorer URL, or null when the network has no explorer
+ * 
+ * @example
+ * ```ts
+ * const explorerUrl = useNetworkVariable('explorerUrl');
+ * const link = getExplorerLink(explorerUrl, 'tx', digest);
+ * ```
+ */
+export const getExplorerLink = (
+  explorerUrl: string | null,
+  kind: 'tx' | 'object' | 'account',
+  id: string
+): string | null => (explorerUrl ? `${explorerUrl}/${kind}/${id}` : null);
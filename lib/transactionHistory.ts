@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Transaction History Utilities
+ *
+ * This file contains helpers for turning raw `queryTransactionBlocks` responses
+ * into history entries. Each transaction is classified by decoding its Move calls
+ * and programmable transaction commands against the app's contract functions.
+ *
+ * @author Rijad Kuloglija
+ * @version 1.0.0
+ */
+
+import { SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { isContractCall } from './contracts';
+import { calculateGasCost, toBalanceChangeSummaries } from './transactionUtils';
+import { ContractDeployment, TransactionCategory, TransactionHistoryEntry } from '@/types/sui';
+
+/**
+ * Response options needed to classify transactions and show their effects
+ */
+export const HISTORY_QUERY_OPTIONS = {
+  showInput: true,
+  showEffects: true,
+  showBalanceChanges: true,
+};
+
+// ============================================================================
+// CLASSIFICATION
+// ============================================================================
+
+/**
+ * Classify a transaction as mint, level-up, split, merge, transfer or other
+ *
+ * Move calls to the NFT contract, at its original or latest package version,
+ * take precedence over coin commands. A split is
+ * reported as a transfer when any address other than the sender gains a balance.
+ *
+ * @param tx - Transaction response queried with `showInput` and `showBalanceChanges`
+ * @param deployment - Contract deployment on the active network, null when it is not deployed
+ * @returns The category of the transaction
+ *
+ * @example
+ * ```ts
+ * const category = classifyTransaction(tx, deployment); // 'mint' | 'level-up' | ...
+ * ```
+ */
+export function classifyTransaction(
+  tx: SuiTransactionBlockResponse,
+  deployment: ContractDeployment | null
+): TransactionCategory {
+  const kind = tx.transaction?.data.transaction;
+  if (!kind || kind.kind !== 'ProgrammableTransaction') return 'other';
+
+  const sender = normalizeSuiAddress(tx.transaction?.data.sender ?? '0x0');
+  const commands = kind.transactions;
+
+  const moveCalls = commands.flatMap((command) => ('MoveCall' in command ? [command.MoveCall] : []));
+
+  if (deployment && moveCalls.some((call) => isContractCall(deployment, call, 'mint'))) return 'mint';
+  if (deployment && moveCalls.some((call) => isContractCall(deployment, call, 'level_up'))) return 'level-up';
+  if (moveCalls.length > 0) return 'other';
+
+  const paysOthers = (tx.balanceChanges ?? []).some(
+    (change) =>
+      BigInt(change.amount) > BigInt(0) &&
+      typeof change.owner === 'object' &&
+      'AddressOwner' in change.owner &&
+      normalizeSuiAddress(change.owner.AddressOwner) !== sender
+  );
+
+  if (commands.some((command) => 'MergeCoins' in command)) return 'merge';
+  if (paysOthers) return 'transfer';
+  if (commands.some((command) => 'SplitCoins' in command)) return 'split';
+  if (commands.some((command) => 'TransferObjects' in command)) return 'transfer';
+
+  return 'other';
+}
+
+/**
+ * Convert a transaction response into a history entry
+ *
+ * @param tx - Transaction response queried with input, effects and balance changes
+ * @param deployment - Contract deployment on the active network, null when it is not deployed
+ * @returns The history entry shown in the history panel
+ */
+export function toHistoryEntry(
+  tx: SuiTransactionBlockResponse,
+  deployment: ContractDeployment | null
+): TransactionHistoryEntry {
+  const status = tx.effects?.status;
+
+  return {
+    digest: tx.digest,
+    category: classifyTransaction(tx, deployment),
+    sender: tx.transaction?.data.sender ?? null,
+    timestampMs: tx.timestampMs ? Number(tx.timestampMs) : null,
+    success: status?.status === 'success',
+    error: status?.error ?? null,
+    gasUsed: tx.effects ? calculateGasCost(tx.effects.gasUsed) : '0',
+    balanceChanges: toBalanceChangeSummaries(tx.balanceChanges),
+  };
+}
+
+/**
+ * Count the levels a transaction added to one NFT
+ *
+ * Counts the contract's `level_up` calls whose first argument is the NFT, so a
+ * batch level-up that touches several NFTs is attributed correctly.
+ *
+ * @param tx - Transaction response queried with `showInput`
+ * @param deployment - Contract deployment on the active network
+ * @param nftId - Object ID of the NFT
+ * @returns Number of `level_up` calls on the NFT
+ *
+ * @example
+ * ```ts
+ * const levels = countLevelUps(tx, deployment, nftId); // 3 for a "+3" level-up
+ * ```
+ */
+export function countLevelUps(tx: SuiTransactionBlockResponse, deployment: ContractDeployment, nftId: string): number {
+  const kind = tx.transaction?.data.transaction;
+  if (!kind || kind.kind !== 'ProgrammableTransaction') return 0;
+
+  const target = normalizeSuiAddress(nftId);
+
+  return kind.transactions.filter((command) => {
+    if (!('MoveCall' in command) || !isContractCall(deployment, command.MoveCall, 'level_up')) return false;
+
+    const argument = command.MoveCall.arguments?.[0];
+    const input = argument && typeof argument === 'object' && 'Input' in argument ? kind.inputs[argument.Input] : null;
+    return input?.type === 'object' && normalizeSuiAddress(input.objectId) === target;
+  }).length;
+}
@@ -10,9 +10,28 @@
  */
 
 import { Transaction } from '@mysten/sui/transactions';
-import { SuiClient, SuiTransactionBlockResponse } from '@mysten/sui/client';
-import { CONTRACT_FUNCTIONS } from './constants';
-import { MintNFTData, TransactionResponse, SuiError } from '@/types/sui';
+import { BalanceChange, GasCostSummary, SuiClient, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils';
+import BigNumber from 'bignumber.js';
+import {
+  MAX_LEVEL_UPS_PER_TRANSACTION,
+  MAX_MERGE_COINS_PER_COMMAND,
+  MAX_MINT_TRANSACTION_BYTES,
+  MAX_MINTS_PER_TRANSACTION,
+  SUI_COIN_TYPE,
+  SUI_DECIMALS,
+} from './constants';
+import { isSuiCoinType } from './coinRegistry';
+import {
+  BalanceChangeSummary,
+  ContractTargets,
+  MintNFTData,
+  NFTLevelUp,
+  PreflightSummary,
+  TransactionResponse,
+  SuiError,
+  SuiPayment,
+} from '@/types/sui';
 
 // ============================================================================
 // TRANSACTION BUILDERS
@@ -23,13 +42,16 @@ import { MintNFTData, TransactionResponse, SuiError } from '@/types/sui';
  * 
  * Builds a Move call transaction to the smart contract's mint function.
  * The transaction includes the NFT metadata (name, description, image URL).
+ * With a recipient, the NFT is minted for that address instead of the sender,
+ * see `addMintCall`.
  * 
+ * @param targets - Contract targets on the active network, from `useContract`
  * @param data - The NFT data including name, description, and image URL
  * @returns A Transaction object ready for signing and execution
  * 
  * @example
  * ```ts
- * const tx = createMintNFTTransaction({
+ * const tx = createMintNFTTransaction(targets, {
  *   name: "My NFT",
  *   description: "A cool NFT",
  *   image_url: "https://example.com/image.jpg"
@@ -37,17 +59,131 @@ import { MintNFTData, TransactionResponse, SuiError } from '@/types/sui';
  * await signAndExecuteTransaction({ transaction: tx });
  * ```
  */
-export function createMintNFTTransaction(data: MintNFTData): Transaction {
+export function createMintNFTTransaction(targets: ContractTargets, data: MintNFTData): Transaction {
   const tx = new Transaction();
   
+  addMintCall(tx, targets, data);
+
+  return tx;
+}
+
+/**
+ * Add a mint Move call for one NFT to a transaction
+ *
+ * Without a recipient the contract's `mint` keeps the NFT with the sender. With
+ * one, the configured mint-to entry function is called; `mint` transfers the
+ * NFT to the sender itself, so it cannot be redirected in the same transaction.
+ *
+ * @throws Error when there is a recipient but no mint-to function is configured
+ */
+function addMintCall(tx: Transaction, targets: ContractTargets, data: MintNFTData): void {
+  const fields = [tx.pure.string(data.name), tx.pure.string(data.description), tx.pure.string(data.image_url)];
+  const recipient = data.recipient?.trim() ? normalizeSuiAddress(data.recipient.trim()) : null;
+
+  if (recipient) {
+    if (!targets.mint_to) {
+      throw new Error('Minting to another address requires NEXT_PUBLIC_MINT_TO_FUNCTION to be configured');
+    }
+
+    tx.moveCall({
+      target: targets.mint_to,
+      arguments: [...fields, tx.pure.address(recipient)],
+    });
+    return;
+  }
+
   tx.moveCall({
-    target: CONTRACT_FUNCTIONS.MINT,
-    arguments: [
-      tx.pure.string(data.name),
-      tx.pure.string(data.description),
-      tx.pure.string(data.image_url),
-    ],
+    target: targets.mint,
+    arguments: fields,
   });
+}
+
+/**
+ * Estimate the serialized size of one mint call, in bytes
+ *
+ * Counts the BCS-encoded string inputs plus a fixed allowance for the Move call
+ * command, its target and the length prefixes, and for the recipient's address
+ * when there is one.
+ */
+function estimateMintCallSize(data: MintNFTData): number {
+  const encoder = new TextEncoder();
+  return (
+    encoder.encode(data.name).length +
+    encoder.encode(data.description).length +
+    encoder.encode(data.image_url).length +
+    (data.recipient?.trim() ? 64 : 0) +
+    128
+  );
+}
+
+/**
+ * Group mints into as few transactions as the size limits allow
+ *
+ * Mints are packed in order, starting a new transaction whenever the next one
+ * would exceed `MAX_MINTS_PER_TRANSACTION` calls or `MAX_MINT_TRANSACTION_BYTES`
+ * of estimated size.
+ *
+ * @param items - The mints to pack, or any items carrying mint data
+ * @param getData - Get the mint data of an item
+ * @returns The items grouped per transaction, in their original order
+ *
+ * @example
+ * ```ts
+ * const batches = packMintBatches(rows, (row) => row);
+ * const transactions = batches.map((batch) => createBatchMintTransaction(targets, batch));
+ * ```
+ */
+export function packMintBatches<T>(items: T[], getData: (item: T) => MintNFTData): T[][] {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let currentSize = 0;
+
+  items.forEach((item) => {
+    const size = estimateMintCallSize(getData(item));
+    const isFull = current.length >= MAX_MINTS_PER_TRANSACTION || currentSize + size > MAX_MINT_TRANSACTION_BYTES;
+    if (current.length > 0 && isFull) {
+      batches.push(current);
+      current = [];
+      currentSize = 0;
+    }
+    current.push(item);
+    currentSize += size;
+  });
+
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+/**
+ * Create a transaction minting several NFTs at once
+ *
+ * Builds a single programmable transaction with one mint Move call per NFT.
+ * Use `packMintBatches` to split larger sets into transactions that fit.
+ *
+ * @param targets - Contract targets on the active network, from `useContract`
+ * @param mints - The NFT data of every NFT to mint
+ * @returns A Transaction object ready for signing and execution
+ *
+ * @example
+ * ```ts
+ * const tx = createBatchMintTransaction(targets, [
+ *   { name: "Dragon #1", description: "A dragon", image_url: "https://example.com/1.png" },
+ *   { name: "Dragon #2", description: "A dragon", image_url: "https://example.com/2.png" },
+ * ]);
+ * await signAndExecuteTransaction({ transaction: tx });
+ * ```
+ */
+export function createBatchMintTransaction(targets: ContractTargets, mints: MintNFTData[]): Transaction {
+  if (mints.length === 0) {
+    throw new Error('Add at least one NFT to mint');
+  }
+  if (mints.length > MAX_MINTS_PER_TRANSACTION) {
+    throw new Error(`A transaction can mint at most ${MAX_MINTS_PER_TRANSACTION} NFTs`);
+  }
+
+  const tx = new Transaction();
+
+  mints.forEach((data) => addMintCall(tx, targets, data));
 
   return tx;
 }
@@ -58,20 +194,21 @@ export function createMintNFTTransaction(data: MintNFTData): Transaction {
  * Builds a Move call transaction to upgrade an existing NFT's level.
  * This calls the smart contract's level_up function with the NFT object.
  * 
+ * @param targets - Contract targets on the active network, from `useContract`
  * @param nftId - The object ID of the NFT to level up
  * @returns A Transaction object ready for signing and execution
  * 
  * @example
  * ```ts
- * const tx = createLevelUpTransaction("0x123...abc");
+ * const tx = createLevelUpTransaction(targets, "0x123...abc");
  * await signAndExecuteTransaction({ transaction: tx });
  * ```
  */
-export function createLevelUpTransaction(nftId: string): Transaction {
+export function createLevelUpTransaction(targets: ContractTargets, nftId: string): Transaction {
   const tx = new Transaction();
   
   tx.moveCall({
-    target: CONTRACT_FUNCTIONS.LEVEL_UP,
+    target: targets.level_up,
     arguments: [tx.object(nftId)],
   });
 
@@ -79,46 +216,198 @@ export function createLevelUpTransaction(nftId: string): Transaction {
 }
 
 /**
- * Create a transaction for splitting SUI coins
+ * Create a transaction for leveling up several NFTs at once
+ *
+ * Builds a single programmable transaction with one level_up Move call per
+ * level to add, so one signature can raise several NFTs by several levels.
+ *
+ * @param targets - Contract targets on the active network, from `useContract`
+ * @param levelUps - The NFTs to level up and how many levels to add to each
+ * @returns A Transaction object ready for signing and execution
+ *
+ * @example
+ * ```ts
+ * const tx = createBatchLevelUpTransaction(targets, [
+ *   { nftId: "0x123...abc", levels: 3 },
+ *   { nftId: "0x456...def", levels: 1 },
+ * ]);
+ * await signAndExecuteTransaction({ transaction: tx });
+ * ```
+ */
+export function createBatchLevelUpTransaction(targets: ContractTargets, levelUps: NFTLevelUp[]): Transaction {
+  const totalCalls = levelUps.reduce((sum, levelUp) => sum + levelUp.levels, 0);
+  if (totalCalls > MAX_LEVEL_UPS_PER_TRANSACTION) {
+    throw new Error(`A batch can add at most ${MAX_LEVEL_UPS_PER_TRANSACTION} levels in total`);
+  }
+
+  const tx = new Transaction();
+
+  levelUps.forEach((levelUp) => {
+    for (let i = 0; i < levelUp.levels; i++) {
+      tx.moveCall({
+        target: targets.level_up,
+        arguments: [tx.object(levelUp.nftId)],
+      });
+    }
+  });
+
+  return tx;
+}
+
+/**
+ * Create a transaction for transferring an NFT
+ *
+ * Builds a transaction that transfers an owned NFT object to another address.
+ *
+ * @param nftId - The object ID of the NFT to transfer
+ * @param recipient - The address to send the NFT to
+ * @returns A Transaction object ready for signing and execution
+ *
+ * @example
+ * ```ts
+ * const tx = createTransferNFTTransaction("0x123...abc", "0x789...def");
+ * await signAndExecuteTransaction({ transaction: tx });
+ * ```
+ */
+export function createTransferNFTTransaction(nftId: string, recipient: string): Transaction {
+  const tx = new Transaction();
+
+  tx.transferObjects([tx.object(nftId)], recipient);
+
+  return tx;
+}
+
+/**
+ * Create a transaction for splitting coins
  * 
- * Builds a transaction to split a specified amount from a SUI coin object.
+ * Builds a transaction to split one or more amounts from a coin object.
  * This is useful for creating smaller denominations or preparing exact amounts.
- * The split coin is automatically transferred back to the sender.
+ * All amounts go through a single splitCoins command, and every resulting coin
+ * is transferred to the recipient. SUI is split from the gas coin; any other
+ * coin type is split from the given coin object.
  * 
- * @param coinObjectId - The object ID of the coin to split from
- * @param amount - The amount to split (in MIST, the smallest SUI unit)
- * @param recipient - The address to send the split coin to (defaults to sender)
+ * @param coinObjectId - The object ID of the coin to split from (ignored for SUI)
+ * @param amount - The amount, or list of amounts, to split (in the coin's smallest unit)
+ * @param recipient - The address to send the split coins to (defaults to sender)
+ * @param coinType - The type of the coin being split (defaults to SUI)
  * @returns A Transaction object ready for signing and execution
  * 
  * @example
  * ```ts
  * const tx = createCoinSplitTransaction("0x456...def", "1000000000"); // Split 1 SUI
+ * const multiTx = createCoinSplitTransaction("0x456...def", ["500000000", "500000000"], address); // Two 0.5 SUI coins
  * await signAndExecuteTransaction({ transaction: tx });
  * ```
  */
 export function createCoinSplitTransaction(
   coinObjectId: string,
-  amount: string,
-  recipient?: string
+  amount: string | string[],
+  recipient?: string,
+  coinType: string = SUI_COIN_TYPE
 ): Transaction {
   const tx = new Transaction();
+  const amounts = Array.isArray(amount) ? amount : [amount];
   
   // IMPORTANT: Don't set manual gas budget - let Sui SDK handle it automatically
   // tx.setGasBudget() is not needed and can cause issues
   
-  // Split coins from the GAS coin, not a specific coin object
+  // Split SUI from the GAS coin, not a specific coin object
   // This allows using the same coin for both gas payment and splitting
-  const splitCoin = tx.splitCoins(tx.gas, [amount]);
+  const source = isSuiCoinType(coinType) ? tx.gas : tx.object(coinObjectId);
+  const splitResult = tx.splitCoins(source, amounts);
   
-  // Transfer the split coin to the specified recipient
-  // This prevents the UnusedValueWithoutDrop error by ensuring the split coin is properly handled
+  // Transfer the split coins to the specified recipient
+  // This prevents the UnusedValueWithoutDrop error by ensuring the split coins are properly handled
   if (recipient) {
-    tx.transferObjects([splitCoin], recipient);
+    tx.transferObjects(amounts.map((_, index) => splitResult[index]), recipient);
   }
   
   return tx;
 }
 
+/**
+ * Create a transaction for merging coins
+ *
+ * Builds a transaction that merges several coin objects into one. For SUI, the
+ * primary coin is set as the gas payment and every other coin is merged into
+ * `tx.gas`, so none of the merged coins can also be picked by the wallet as the
+ * gas coin. Other coin types are merged into the primary coin object directly.
+ *
+ * @param primaryCoin - Object reference of the coin that receives the merged balance
+ * @param coinObjectIds - The object IDs of the coins to merge into the primary coin
+ * @param coinType - The type of the coins being merged (defaults to SUI)
+ * @returns A Transaction object ready for signing and execution
+ *
+ * @example
+ * ```ts
+ * const tx = createMergeCoinsTransaction(
+ *   { objectId: "0x456...def", version: "12", digest: "9aB..." },
+ *   ["0x789...abc", "0xabc...123"]
+ * );
+ * await signAndExecuteTransaction({ transaction: tx });
+ * ```
+ */
+export function createMergeCoinsTransaction(
+  primaryCoin: { objectId: string; version: string; digest: string },
+  coinObjectIds: string[],
+  coinType: string = SUI_COIN_TYPE
+): Transaction {
+  const tx = new Transaction();
+  const isSui = isSuiCoinType(coinType);
+
+  // Pay gas with the primary SUI coin so it can never be both an input and the gas coin
+  if (isSui) {
+    tx.setGasPayment([primaryCoin]);
+  }
+  const destination = isSui ? tx.gas : tx.object(primaryCoin.objectId);
+
+  const sources = coinObjectIds.filter((id) => id !== primaryCoin.objectId);
+
+  // Merge in chunks to stay below the per-command argument limit
+  for (let i = 0; i < sources.length; i += MAX_MERGE_COINS_PER_COMMAND) {
+    tx.mergeCoins(
+      destination,
+      sources.slice(i, i + MAX_MERGE_COINS_PER_COMMAND).map((id) => tx.object(id))
+    );
+  }
+
+  return tx;
+}
+
+/**
+ * Create a transaction for sending SUI to one or more recipients
+ *
+ * Builds a single programmable transaction that splits every payment amount
+ * from the gas coin in one splitCoins command and transfers each resulting
+ * coin to its recipient. Works the same for one recipient or a batch payout.
+ *
+ * @param payments - The recipients and amounts to pay (amounts in MIST)
+ * @returns A Transaction object ready for signing and execution
+ *
+ * @example
+ * ```ts
+ * const tx = createSendSuiTransaction([
+ *   { recipient: "0xabc...123", amount: "1000000000" }, // 1 SUI
+ *   { recipient: "0xdef...456", amount: "500000000" },  // 0.5 SUI
+ * ]);
+ * await signAndExecuteTransaction({ transaction: tx });
+ * ```
+ */
+export function createSendSuiTransaction(payments: SuiPayment[]): Transaction {
+  const tx = new Transaction();
+
+  const coins = tx.splitCoins(
+    tx.gas,
+    payments.map((payment) => payment.amount)
+  );
+
+  payments.forEach((payment, index) => {
+    tx.transferObjects([coins[index]], payment.recipient);
+  });
+
+  return tx;
+}
+
 // ============================================================================
 // ERROR HANDLING
 // ============================================================================
@@ -200,22 +489,32 @@ export function handleTransactionError(error: unknown): SuiError {
   };
 }
 
+/**
+ * Format a coin amount from its smallest unit using the coin's decimals
+ */
+export function formatCoinAmount(amount: string | number, decimals: number): string {
+  return new BigNumber(amount).shiftedBy(-decimals).toFixed(); // No trailing zeros
+}
+
+/**
+ * Convert a human-readable coin amount to its smallest unit using the coin's decimals
+ */
+export function parseCoinAmount(amount: string | number, decimals: number): string {
+  return new BigNumber(amount).shiftedBy(decimals).integerValue(BigNumber.ROUND_FLOOR).toFixed();
+}
+
 /**
  * Format SUI amounts from MIST to SUI
  */
 export function formatSuiAmount(mist: string | number): string {
-  const mistNumber = typeof mist === 'string' ? parseInt(mist, 10) : mist;
-  const sui = mistNumber / 1_000_000_000; // 1 SUI = 1,000,000,000 MIST
-  return sui.toFixed(9).replace(/\.?0+$/, ''); // Remove trailing zeros
+  return formatCoinAmount(mist, SUI_DECIMALS); // 1 SUI = 1,000,000,000 MIST
 }
 
 /**
  * Convert SUI to MIST
  */
 export function suiToMist(sui: string | number): string {
-  const suiNumber = typeof sui === 'string' ? parseFloat(sui) : sui;
-  const mist = Math.floor(suiNumber * 1_000_000_000);
-  return mist.toString();
+  return parseCoinAmount(sui, SUI_DECIMALS);
 }
 
 /**
@@ -243,6 +542,78 @@ export function validateSuiAmount(amount: string): { isValid: boolean; error?: s
   return { isValid: true };
 }
 
+/**
+ * Validate a Sui address input
+ */
+export function validateSuiAddress(address: string): { isValid: boolean; error?: string } {
+  if (!address || address.trim() === '') {
+    return { isValid: false, error: 'Address is required' };
+  }
+
+  if (!address.trim().startsWith('0x')) {
+    return { isValid: false, error: 'Address must start with 0x' };
+  }
+
+  if (!isValidSuiAddress(normalizeSuiAddress(address.trim()))) {
+    return { isValid: false, error: 'Invalid Sui address' };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Parse pasted `address,amount` CSV rows into SUI payments
+ *
+ * Blank lines and a leading header row are skipped. Amounts stay in SUI;
+ * every invalid row is reported with its line number.
+ */
+export function parsePaymentsCsv(csv: string): { payments: SuiPayment[]; errors: string[] } {
+  const payments: SuiPayment[] = [];
+  const errors: string[] = [];
+
+  csv.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    const [address = '', amount = '', ...rest] = trimmed.split(/[,;\t]/).map((cell) => cell.trim());
+
+    // Skip a header row such as "address,amount"
+    if (index === 0 && !address.startsWith('0x') && isNaN(parseFloat(amount))) return;
+
+    if (rest.some((cell) => cell !== '')) {
+      errors.push(`Line ${index + 1}: Expected "address,amount"`);
+      return;
+    }
+
+    const addressValidation = validateSuiAddress(address);
+    if (!addressValidation.isValid) {
+      errors.push(`Line ${index + 1}: ${addressValidation.error}`);
+      return;
+    }
+
+    const amountValidation = validateSuiAmount(amount);
+    if (!amountValidation.isValid) {
+      errors.push(`Line ${index + 1}: ${amountValidation.error}`);
+      return;
+    }
+
+    payments.push({ recipient: normalizeSuiAddress(address), amount });
+  });
+
+  return { payments, errors };
+}
+
+/**
+ * Calculate the net gas cost (in MIST) from a gas cost summary
+ */
+export function calculateGasCost(gasUsed: GasCostSummary): string {
+  const cost =
+    BigInt(gasUsed.computationCost) +
+    BigInt(gasUsed.storageCost) -
+    BigInt(gasUsed.storageRebate);
+  return cost.toString();
+}
+
 /**
  * Create a transaction response wrapper
  */
@@ -277,6 +648,7 @@ export async function waitForTransaction(
         options: {
           showEffects: true,
           showObjectChanges: true,
+          showBalanceChanges: true,
         },
       });
       
@@ -297,4 +669,83 @@ export async function waitForTransaction(
   }
   
   throw new Error('Transaction confirmation timeout');
-} 
\ No newline at end of file
+}
+
+// ============================================================================
+// DRY RUN
+// ============================================================================
+
+/**
+ * Convert RPC balance changes into balance change summaries
+ */
+export function toBalanceChangeSummaries(balanceChanges?: BalanceChange[] | null): BalanceChangeSummary[] {
+  return (balanceChanges ?? []).map((change) => ({
+    owner:
+      typeof change.owner === 'object' && 'AddressOwner' in change.owner
+        ? change.owner.AddressOwner
+        : null,
+    coinType: change.coinType,
+    amount: change.amount,
+  }));
+}
+
+/**
+ * Dry run a transaction and summarize its expected effects
+ *
+ * Builds the transaction for the given sender and simulates it without signing.
+ * Build failures (including the SDK's own gas budget dry run) and aborts are
+ * reported through `success` and `error` instead of being thrown.
+ *
+ * @param client - Sui client used to build and dry run the transaction
+ * @param transaction - The transaction to simulate
+ * @param sender - The address that will sign the transaction
+ * @returns Estimated gas, balance changes, object changes and any abort reason
+ *
+ * @example
+ * ```ts
+ * const summary = await dryRunTransaction(suiClient, tx, account.address);
+ * if (!summary.success) console.error(summary.error);
+ * ```
+ */
+export async function dryRunTransaction(
+  client: SuiClient,
+  transaction: Transaction,
+  sender: string
+): Promise<PreflightSummary> {
+  const summary: PreflightSummary = {
+    success: false,
+    error: null,
+    gasCost: '0',
+    balanceChanges: [],
+    createdObjects: [],
+    mutatedObjects: [],
+  };
+
+  try {
+    transaction.setSenderIfNotSet(sender);
+
+    const dryRun = await client.dryRunTransactionBlock({
+      transactionBlock: await transaction.build({ client }),
+    });
+
+    const objectChanges = dryRun.objectChanges ?? [];
+
+    return {
+      success: dryRun.effects.status.status === 'success',
+      error: dryRun.effects.status.error ?? null,
+      gasCost: calculateGasCost(dryRun.effects.gasUsed),
+      balanceChanges: toBalanceChangeSummaries(dryRun.balanceChanges),
+      createdObjects: objectChanges.flatMap((change) =>
+        change.type === 'created' ? [{ objectId: change.objectId, objectType: change.objectType }] : []
+      ),
+      mutatedObjects: objectChanges.flatMap((change) =>
+        change.type === 'mutated' ? [{ objectId: change.objectId, objectType: change.objectType }] : []
+      ),
+    };
+  } catch (error) {
+    return {
+      ...summary,
+      error: handleTransactionError(error).message,
+    };
+  }
+}
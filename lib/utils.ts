@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import BigNumber from "bignumber.js"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -20,3 +21,28 @@ export function formatSUI(amount: string | number): string {
   
   return num.toFixed(3);
 }
+
+/**
+ * Format a coin amount for display using the coin's decimals
+ * Converts from the coin's smallest unit and rounds to the given precision
+ */
+export function formatCoin(amount: string | number, decimals: number, precision = 3): string {
+  const value = new BigNumber(amount);
+  if (value.isNaN()) return (0).toFixed(precision);
+
+  return value.shiftedBy(-decimals).toFixed(precision, BigNumber.ROUND_DOWN);
+}
+
+/**
+ * Format a remaining duration in seconds as a countdown
+ * Minutes and seconds below an hour (e.g. "4:05"), hours and minutes above (e.g. "1h 05m")
+ */
+export function formatCountdown(seconds: number): string {
+  const total = Math.max(0, Math.ceil(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+
+  if (hours > 0) return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
@@ -13,14 +13,25 @@
 
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { SuiClientProvider, WalletProvider } from '@mysten/dapp-kit';
-import { networkConfig, defaultNetwork } from '@/lib/suiClient';
-import { ReactNode, useState } from 'react';
+import { networkConfig } from '@/lib/suiClient';
+import { useSelectedNetwork } from '@/hooks/useSelectedNetwork';
+import { ReactNode, useEffect, useState } from 'react';
 import { Toaster } from '@/components/ui/sonner';
+import { PreflightDialog } from '@/components/transaction/PreflightDialog';
+import { useLiveUpdates } from '@/hooks/useLiveUpdates';
 
 // ============================================================================
 // PROVIDER COMPONENT
 // ============================================================================
 
+/**
+ * Keeps cached queries current with on-chain events, rendering nothing
+ */
+function LiveUpdates() {
+  useLiveUpdates();
+  return null;
+}
+
 /**
  * Props for the SuiProvider component
  */
@@ -34,8 +45,10 @@ interface SuiProviderProps {
  * 
  * This component sets up the complete provider tree required for a Sui DApp:
  * - QueryClient for React Query state management and caching
- * - SuiClientProvider for blockchain network connections  
+ * - SuiClientProvider for blockchain network connections, on the persisted selected network
  * - WalletProvider for wallet integration and management
+ * - Live updates from contract events and the connected account's transactions
+ * - Pre-flight dialog confirming dry runs before signing
  * - Toast notifications for user feedback
  * 
  * The provider is configured with optimized defaults for performance:
@@ -60,6 +73,14 @@ interface SuiProviderProps {
  * ```
  */
 export function SuiProvider({ children }: SuiProviderProps) {
+  const { network, setNetwork } = useSelectedNetwork();
+  const [isNetworkRestored, setIsNetworkRestored] = useState(false);
+
+  // Restore the saved network after hydration, so the first render matches the server's
+  useEffect(() => {
+    void Promise.resolve(useSelectedNetwork.persist.rehydrate()).then(() => setIsNetworkRestored(true));
+  }, []);
+
   // Create a stable QueryClient instance with optimized configuration
   const [queryClient] = useState(
     () =>
@@ -85,11 +106,15 @@ export function SuiProvider({ children }: SuiProviderProps) {
 
   return (
     <QueryClientProvider client={queryClient}>
-      {/* Sui blockchain client provider with network configuration */}
-      <SuiClientProvider networks={networkConfig} defaultNetwork={defaultNetwork}>
+      {/* Sui blockchain client provider, controlled by the selected network */}
+      <SuiClientProvider networks={networkConfig} network={network} onNetworkChange={setNetwork}>
         {/* Wallet provider with automatic connection attempt */}
         <WalletProvider autoConnect>
           {children}
+          {/* Event-driven cache updates, started once the saved network is restored */}
+          {isNetworkRestored && <LiveUpdates />}
+          {/* Dry run confirmation shown before every wallet signature */}
+          <PreflightDialog />
           {/* Toast notification system for user feedback */}
           <Toaster position="top-right" expand={false} richColors />
         </WalletProvider>
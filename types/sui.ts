@@ -8,7 +8,17 @@
  * @version 1.0.0
  */
 
-import { SuiObjectData, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import {
+  CoinStruct,
+  ObjectOwner,
+  SuiClient,
+  SuiEventFilter,
+  SuiObjectData,
+  SuiTransactionBlockResponse,
+  TransactionEffects,
+  TransactionFilter,
+} from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
 
 // ============================================================================
 // BLOCKCHAIN DATA TYPES
@@ -62,8 +72,28 @@ export interface SimpleNFT {
   image_url: string;
   /** The current level of the NFT (upgradeable via level_up function) */
   level: number;
+  /** The object version, which increases every time the NFT is modified */
+  version: string;
+}
+
+/**
+ * An owned object of the NFT type whose fields could not be parsed
+ * Reported instead of being shown with default values
+ */
+export interface InvalidNFTObject {
+  /** The object ID */
+  objectId: string;
+  /** The object's type, if known */
+  type: string | null;
+  /** Why the object could not be parsed as an NFT */
+  error: string;
 }
 
+/**
+ * Result of parsing an owned object as an NFT
+ */
+export type ParseNFTResult = { success: true; nft: SimpleNFT } | { success: false; invalid: InvalidNFTObject };
+
 // ============================================================================
 // WALLET STATE TYPES
 // ============================================================================
@@ -76,8 +106,10 @@ export interface WalletState {
   isConnected: boolean;
   /** The Sui address of the connected wallet, null if not connected */
   address: string | null;
-  /** The SUI balance in human-readable format, null if not loaded */
+  /** The balance of the selected coin type in human-readable format, null if not loaded */
   balance: string | null;
+  /** The symbol of the coin type the balance is shown in */
+  symbol: string;
   /** Whether wallet operations are in progress */
   isLoading: boolean;
   /** Current error message, if any */
@@ -119,18 +151,132 @@ export interface MintNFTData {
   description: string;
   /** The URL of the image for the new NFT */
   image_url: string;
+  /** Address to mint the NFT to, the sender's wallet when empty */
+  recipient?: string;
+}
+
+/**
+ * Result of parsing a bulk mint manifest
+ */
+export interface MintManifestResult {
+  /** The valid NFTs to mint, in manifest order */
+  rows: MintNFTData[];
+  /** Problems found in the manifest, each naming its row */
+  errors: string[];
+}
+
+/**
+ * Progress of one NFT in a bulk mint
+ */
+export interface BulkMintItem {
+  /** 1-based position of the NFT in the manifest */
+  row: number;
+  /** The NFT's data */
+  data: MintNFTData;
+  /** Whether the NFT is waiting, being minted, minted or failed */
+  status: 'pending' | 'minting' | 'minted' | 'failed';
+  /** Digest of the transaction that minted (or failed to mint) the NFT */
+  digest?: string;
+  /** Object ID of the minted NFT */
+  objectId?: string;
+  /** Error message of the failed transaction */
+  error?: string;
+}
+
+/**
+ * A single entry of a batch level-up
+ * Used by the NFT grid to level up several NFTs in one transaction
+ */
+export interface NFTLevelUp {
+  /** The object ID of the NFT to level up */
+  nftId: string;
+  /** How many levels to add (one level_up call per level) */
+  levels: number;
+}
+
+/**
+ * Progress of an NFT within a level-up transaction
+ * Confirmed and failed states are resolved from the transaction effects
+ */
+export interface LevelUpProgress {
+  /** Whether the level-up is pending, confirmed or failed */
+  status: 'pending' | 'confirmed' | 'failed';
+  /** How many levels were requested for the NFT */
+  levels: number;
 }
 
 /**
- * Data required for splitting SUI coins
+ * Sort order of the NFT gallery
+ */
+export type GallerySort = 'version' | 'level-desc' | 'level-asc' | 'name';
+
+/**
+ * Search, sort and level filter of the NFT gallery, stored in the URL
+ */
+export interface GalleryFilters {
+  /** Text matched against NFT names and descriptions */
+  query: string;
+  /** Sort order */
+  sort: GallerySort;
+  /** Lowest level shown, null for no lower bound */
+  minLevel: number | null;
+  /** Highest level shown, null for no upper bound */
+  maxLevel: number | null;
+}
+
+/**
+ * A range of NFT levels shown with the same badge colour
+ */
+export interface LevelBand {
+  /** Display label (e.g. "3–4") */
+  label: string;
+  /** Lowest level in the band */
+  min: number;
+  /** Highest level in the band, null for no upper bound */
+  max: number | null;
+  /** Tailwind CSS classes for badges of this band */
+  className: string;
+}
+
+/**
+ * Data required for splitting coins
  */
 export interface CoinSplitData {
-  /** The amount to split in SUI (will be converted to MIST) */
+  /** The amount to split in display units (will be converted using the coin's decimals) */
   amount: string;
+  /** Amounts for a multi-split in display units; when set, every amount is split off in one transaction */
+  amounts?: string[];
   /** The object ID of the coin to split */
   coinObjectId: string;
 }
 
+/**
+ * A single SUI payment to a recipient
+ * Used by the send flow for both single transfers and batch payouts
+ */
+export interface SuiPayment {
+  /** The Sui address receiving the payment */
+  recipient: string;
+  /** The amount to send (in SUI for form data, in MIST when passed to transaction builders) */
+  amount: string;
+}
+
+/**
+ * Outcome of one payment within a send transaction
+ */
+export interface PaymentResult {
+  /** The Sui address that was paid */
+  recipient: string;
+  /** The amount sent in SUI */
+  amount: string;
+  /** Whether the payment was confirmed on chain */
+  success: boolean;
+  /** The object ID of the coin created for the recipient, if found */
+  coinObjectId?: string;
+  /** Error message if the payment failed */
+  error?: string;
+}
+
 // ============================================================================
 // BLOCKCHAIN OBJECT TYPES
 // ============================================================================
@@ -152,6 +298,122 @@ export interface SuiCoin {
   balance: string;
 }
 
+/**
+ * Describes a fungible coin type held by the user
+ * Built from `getAllBalances` and `getCoinMetadata`
+ */
+export interface CoinTypeInfo {
+  /** The full coin type (e.g., "0x2::sui::SUI") */
+  coinType: string;
+  /** The ticker symbol of the coin (e.g., "SUI") */
+  symbol: string;
+  /** The display name of the coin */
+  name: string;
+  /** Number of decimal places used to display amounts */
+  decimals: number;
+  /** Whether `decimals` is known, false while a non-SUI coin's metadata is loading */
+  decimalsResolved: boolean;
+  /** URL of the coin's icon, if the metadata provides one */
+  iconUrl: string | null;
+  /** Total balance across all coin objects, in the coin's smallest unit */
+  totalBalance: string;
+  /** Number of coin objects of this type owned by the user */
+  coinObjectCount: number;
+}
+
+/**
+ * Category of a transaction in the history panel
+ * Derived from the transaction's Move calls and programmable commands
+ */
+export type TransactionCategory = 'mint' | 'level-up' | 'split' | 'merge' | 'transfer' | 'other';
+
+/**
+ * A single entry in the connected address's transaction history
+ */
+export interface TransactionHistoryEntry {
+  /** The transaction digest */
+  digest: string;
+  /** What kind of operation the transaction performed */
+  category: TransactionCategory;
+  /** The address that signed the transaction */
+  sender: string | null;
+  /** When the transaction was checkpointed (milliseconds since epoch) */
+  timestampMs: number | null;
+  /** Whether the transaction executed successfully */
+  success: boolean;
+  /** Abort or execution error, if the transaction failed */
+  error: string | null;
+  /** Net gas cost in MIST */
+  gasUsed: string;
+  /** Balance changes caused by the transaction (amounts in the coin's smallest unit) */
+  balanceChanges: BalanceChangeSummary[];
+}
+
+/**
+ * A level-up of one NFT, decoded from a transaction that changed it
+ */
+export interface NFTLevelUpRecord {
+  /** The transaction digest */
+  digest: string;
+  /** Number of levels the transaction added to the NFT */
+  levels: number;
+  /** The address that signed the transaction */
+  sender: string | null;
+  /** When the transaction was checkpointed (milliseconds since epoch) */
+  timestampMs: number | null;
+}
+
+/**
+ * A balance change caused by a transaction
+ */
+export interface BalanceChangeSummary {
+  /** The address whose balance changed, null for non-address owners */
+  owner: string | null;
+  /** The type of coin whose balance changed */
+  coinType: string;
+  /** The signed change amount in the coin's smallest unit */
+  amount: string;
+}
+
+/**
+ * An object created or mutated by a transaction
+ */
+export interface ObjectChangeSummary {
+  /** The object ID */
+  objectId: string;
+  /** The full type of the object */
+  objectType: string;
+}
+
+/**
+ * Labels shown in the pre-flight confirmation dialog
+ */
+export interface PreflightDetails {
+  /** Title of the dialog (e.g. "Mint NFT") */
+  title: string;
+  /** Optional description of what the transaction does */
+  description?: string;
+}
+
+/**
+ * Result of dry running a transaction before it is signed
+ * Shown in the pre-flight confirmation dialog
+ */
+export interface PreflightSummary {
+  /** Whether the dry run executed successfully */
+  success: boolean;
+  /** Abort or build error if the dry run failed */
+  error: string | null;
+  /** Estimated net gas cost in MIST */
+  gasCost: string;
+  /** Balance changes the transaction would cause */
+  balanceChanges: BalanceChangeSummary[];
+  /** Objects the transaction would create */
+  createdObjects: ObjectChangeSummary[];
+  /** Objects the transaction would mutate */
+  mutatedObjects: ObjectChangeSummary[];
+}
+
 // ============================================================================
 // API RESPONSE TYPES
 // ============================================================================
@@ -193,10 +455,75 @@ export interface TransactionResult {
   success: boolean;
 }
 
+/**
+ * Response of the `/api/images` upload route
+ * Successful uploads return the stored image, failed ones only an error
+ */
+export type ImageUploadResponse = StoredImage | { error: string };
+
+/**
+ * Response of the `/api/images/validate` route
+ * Valid image URLs return the normalized URL to mint, invalid ones only an error
+ */
+export type ImageUrlValidationResponse = ValidatedImageUrl | { error: string };
+
 // ============================================================================
 // UTILITY TYPES
 // ============================================================================
 
+/**
+ * Storage backends that uploaded NFT images can be kept in
+ */
+export type ImageStorageBackend = 'local' | 'ipfs' | 'walrus';
+
+/**
+ * An image file to store, already validated
+ */
+export interface ImageUpload {
+  /** The image's bytes */
+  bytes: Uint8Array;
+  /** MIME type detected from the image's bytes */
+  contentType: string;
+}
+
+/**
+ * An image kept by a storage backend
+ */
+export interface StoredImage {
+  /** URL of the image to mint as the NFT's `image_url`, `ipfs://<cid>` for the IPFS backend */
+  url: string;
+  /** ID of the image within its backend (file name, CID or blob ID) */
+  id: string;
+  /** Backend the image is stored in */
+  backend: ImageStorageBackend;
+  /** MIME type of the image */
+  contentType: string;
+  /** Size of the image in bytes */
+  size: number;
+}
+
+/**
+ * An image URL checked to serve a supported image within the size limit
+ */
+export interface ValidatedImageUrl {
+  /** Normalized URL to mint as the NFT's `image_url`, after uploading it when it is a `data:` URI */
+  url: string;
+  /** MIME type detected from the image's bytes */
+  contentType: string;
+  /** Size of the image in bytes */
+  size: number;
+}
+
+/**
+ * Storage backend for uploaded NFT images
+ */
+export interface ImageStorageAdapter {
+  /** Name of the backend */
+  backend: ImageStorageBackend;
+  /** Store an image and return where it can be fetched from */
+  store: (image: ImageUpload) => Promise<StoredImage>;
+}
+
 /**
  * Represents different loading states for async operations
  */
@@ -212,6 +539,34 @@ export type SuiNetwork = 'testnet' | 'mainnet' | 'devnet' | 'localnet';
  */
 export type ContractFunction = 'mint' | 'level_up';
 
+/**
+ * Deployment of the NFT smart contract on one network
+ */
+export interface ContractDeployment {
+  /** Latest package ID of the deployed contract, targeted by Move calls */
+  packageId: string;
+  /** Package ID the contract was first published with, used in its struct types */
+  originalPackageId: string;
+  /** Module containing the NFT struct and its functions */
+  moduleName: string;
+  /** IDs of shared objects passed to the contract's functions, by name */
+  sharedObjects: Record<string, string>;
+  /** Entry function minting straight to a recipient, null when the contract has none */
+  mintToFunction: string | null;
+  /** Why the deployment's configuration cannot be used, null when it is valid */
+  error: string | null;
+}
+
+/**
+ * Fully qualified Move call targets of the contract functions on one network
+ */
+export interface ContractTargets extends Record<ContractFunction, string> {
+  /** Target of the entry function minting straight to a recipient, null when not configured */
+  mint_to: string | null;
+  /** IDs of shared objects passed to the contract's functions, by name */
+  sharedObjects: Record<string, string>;
+}
+
 /**
  * Standardized error object for Sui operations
  */
@@ -224,17 +579,97 @@ export interface SuiError {
   details?: unknown;
 }
 
+/**
+ * Lifecycle status of a transaction run by useTransactionExecutor
+ */
+export type TransactionExecutionStatus =
+  | 'idle'
+  | 'preflight'
+  | 'signing'
+  | 'confirming'
+  | 'success'
+  | 'error'
+  | 'cancelled';
+
+/**
+ * Outcome of a transaction run by useTransactionExecutor
+ * Extends the standard response with the confirmed effects
+ */
+export interface TransactionExecutionResult extends TransactionResponse {
+  /** Final status: success, error, or cancelled at the pre-flight step */
+  status: TransactionExecutionStatus;
+  /** Effects of the confirmed transaction */
+  effects?: TransactionEffects;
+  /** IDs of the objects created by the transaction */
+  createdObjectIds: string[];
+  /** Error code from handleTransactionError, if the transaction failed */
+  errorCode?: SuiError['code'];
+}
+
+/**
+ * Configuration for useTransactionExecutor
+ */
+export interface TransactionExecutorOptions<TInput> {
+  /** Build the transaction for the given input; may throw to reject invalid input */
+  build: (input: TInput) => Transaction | Promise<Transaction>;
+  /** Labels for the pre-flight dialog; the dry run step is skipped when omitted */
+  preflight?: (input: TInput) => PreflightDetails;
+  /** Toast shown once the transaction is confirmed */
+  successMessage?: (result: TransactionExecutionResult, input: TInput) => string;
+  /** Prefix of the error toast (e.g. "Failed to mint NFT") */
+  errorMessage?: string;
+  /**
+   * Called once the wallet has signed and submitted the transaction, before it is confirmed;
+   * may return a function undoing optimistic updates, called if the transaction then fails
+   */
+  onSigned?: (digest: string, input: TInput) => (() => void) | void;
+  /** Called once the transaction is confirmed */
+  onSuccess?: (result: TransactionExecutionResult, input: TInput) => void;
+  /** Called when building, signing or confirming the transaction fails */
+  onError?: (error: SuiError, input: TInput) => void;
+  /** Called after every run, including cancelled ones */
+  onSettled?: (result: TransactionExecutionResult, input: TInput) => void;
+}
+
+/**
+ * Configuration for startLiveUpdates
+ */
+export interface LiveUpdateOptions {
+  /** Sui client of the active network */
+  client: SuiClient;
+  /** Events to follow, such as the contract's Move events */
+  eventFilters: SuiEventFilter[];
+  /** Transactions to follow, such as those sent or received by the connected account */
+  transactionFilters: TransactionFilter[];
+  /** Called once for every new transaction digest seen by any filter */
+  onTransaction: (digest: string) => void;
+}
+
 // ============================================================================
 // REACT HOOK RETURN TYPES
 // ============================================================================
 
+/**
+ * Pagination state shared by hooks that page through owned objects
+ */
+export interface PaginationState {
+  /** Whether more pages are available on chain */
+  hasNextPage: boolean;
+  /** Whether the next page is being fetched */
+  isFetchingNextPage: boolean;
+  /** Fetch the next page */
+  fetchNextPage: () => void;
+}
+
 /**
  * Return type for the useNFTs hook
  * Provides access to the user's NFT collection
  */
-export interface UseNFTsReturn {
-  /** Array of NFTs owned by the current user */
-  nfts: SuiNFT[];
+export interface UseNFTsReturn extends PaginationState {
+  /** NFTs owned by the address, across every loaded page */
+  nfts: SimpleNFT[];
+  /** Loaded objects of the NFT type whose fields do not match the NFT schema */
+  invalidObjects: InvalidNFTObject[];
   /** Whether NFT data is being loaded */
   isLoading: boolean;
   /** Current error message, if any */
@@ -243,6 +678,21 @@ export interface UseNFTsReturn {
   refetch: () => void;
 }
 
+/**
+ * Return type for the useOwnedCoins hook
+ * Provides the user's coin objects of one coin type
+ */
+export interface UseOwnedCoinsReturn extends PaginationState {
+  /** Coin objects owned by the current user, across every loaded page */
+  coins: CoinStruct[];
+  /** Whether coin data is being loaded */
+  isLoading: boolean;
+  /** Current error message, if any */
+  error: string | null;
+  /** Function to manually refetch coin data */
+  refetch: () => void;
+}
+
 /**
  * Return type for the useCoinSplit hook
  * Provides coin splitting functionality
@@ -256,6 +706,72 @@ export interface UseCoinSplitReturn {
   error: string | null;
 }
 
+/**
+ * Return type for the useCoinMerge hook
+ * Provides coin merging functionality
+ */
+export interface UseCoinMergeReturn {
+  /** Function to merge the given coin objects into the largest one */
+  mergeCoins: (coinObjectIds: string[]) => Promise<TransactionResponse>;
+  /** Whether a coin merge operation is in progress */
+  isLoading: boolean;
+  /** Current error message, if any */
+  error: string | null;
+}
+
+/**
+ * Return type for the useSendSui hook
+ * Provides single and batch SUI transfer functionality
+ */
+export interface UseSendSuiReturn {
+  /** Function to pay every recipient in one transaction (amounts in SUI) */
+  sendSui: (payments: SuiPayment[]) => Promise<TransactionResponse & { results: PaymentResult[] }>;
+  /** Per-recipient results of the last payout */
+  results: PaymentResult[];
+  /** Whether a send operation is in progress */
+  isLoading: boolean;
+  /** Current error message, if any */
+  error: string | null;
+}
+
+/**
+ * Return type for the useCoinRegistry hook
+ * Provides the coin types held by the current user
+ */
+export interface UseCoinRegistryReturn {
+  /** Every coin type the address holds, SUI first */
+  coinTypes: CoinTypeInfo[];
+  /** Look up a coin type, falling back to defaults if it is not held */
+  getCoinInfo: (coinType: string) => CoinTypeInfo;
+  /** Whether balances or metadata are being loaded */
+  isLoading: boolean;
+  /** Current error message, if any */
+  error: string | null;
+  /** Function to manually refetch balances */
+  refetch: () => void;
+}
+
+/**
+ * Return type for the useTransactionHistory hook
+ * Provides the paginated transaction history of an address
+ */
+export interface UseTransactionHistoryReturn {
+  /** History entries sent from or to the address, newest first */
+  transactions: TransactionHistoryEntry[];
+  /** Whether the first page is being loaded */
+  isLoading: boolean;
+  /** Whether another page is being loaded */
+  isFetchingMore: boolean;
+  /** Whether older transactions are available */
+  hasMore: boolean;
+  /** Function to load the next page */
+  loadMore: () => void;
+  /** Current error message, if any */
+  error: string | null;
+  /** Function to manually refetch the history */
+  refetch: () => void;
+}
+
 /**
  * Return type for the useMintNFT hook
  * Provides NFT minting functionality
@@ -276,8 +792,196 @@ export interface UseMintNFTReturn {
 export interface UseLevelUpReturn {
   /** Function to level up an NFT by its ID */
   levelUp: (nftId: string) => Promise<TransactionResponse>;
+  /** Function to level up several NFTs, each by several levels, in one transaction */
+  batchLevelUp: (levelUps: NFTLevelUp[]) => Promise<TransactionResponse>;
+  /** Per-NFT progress of the latest level-up, keyed by NFT object ID */
+  progress: Record<string, LevelUpProgress>;
   /** Whether a level-up operation is in progress */
   isLoading: boolean;
   /** Current error message, if any */
   error: string | null;
-} 
\ No newline at end of file
+}
+
+/**
+ * Return type for the useTransferNFT hook
+ * Provides NFT transfer functionality
+ */
+export interface UseTransferNFTReturn {
+  /** Function to transfer an NFT by its ID to a recipient address */
+  transferNFT: (nftId: string, recipient: string) => Promise<TransactionResponse>;
+  /** Whether a transfer operation is in progress */
+  isLoading: boolean;
+  /** Current error message, if any */
+  error: string | null;
+}
+
+/**
+ * Return type for the usePreflight hook
+ * Provides the dry run confirmation step shown before signing
+ */
+export interface UsePreflightReturn {
+  /** Dry run a transaction and resolve to whether the user confirmed a successful dry run */
+  confirmTransaction: (transaction: Transaction, details: PreflightDetails) => Promise<boolean>;
+}
+
+/**
+ * Return type for the useTransactionExecutor hook
+ * Provides a typed build, pre-flight, sign and confirm pipeline
+ */
+export interface UseTransactionExecutorReturn<TInput> {
+  /** Build, confirm, sign and execute a transaction, resolving once it is indexed */
+  execute: (input: TInput) => Promise<TransactionExecutionResult>;
+  /** Current lifecycle status */
+  status: TransactionExecutionStatus;
+  /** Result of the latest run, if any */
+  result: TransactionExecutionResult | null;
+  /** Whether a transaction is being built, confirmed, signed or indexed */
+  isLoading: boolean;
+  /** Current error message, if any */
+  error: string | null;
+  /** Reset status, result and error */
+  reset: () => void;
+}
+
+/**
+ * Return type for the useContract hook
+ * Provides the NFT contract deployment of the active network
+ */
+export interface UseContractReturn {
+  /** The contract deployment on the active network, null when it is not deployed there */
+  deployment: ContractDeployment | null;
+  /** Move call targets on the active network, null when the contract is not deployed or misconfigured there */
+  targets: ContractTargets | null;
+  /** The NFT struct type on the active network, null when the contract is not deployed there */
+  nftType: string | null;
+  /** Whether the contract is deployed and correctly configured on the active network */
+  isDeployed: boolean;
+  /** Why the contract cannot be used on the active network, null when it can */
+  error: string | null;
+  /** Get the Move call targets, throwing `error` when the contract cannot be used on the active network */
+  getTargets: () => ContractTargets;
+}
+
+/**
+ * Return type for the useNetworkMismatch hook
+ * Provides the comparison between the wallet's chain and the app's active network
+ */
+export interface UseNetworkMismatchReturn {
+  /** Whether the connected wallet is on a different chain than the app */
+  isMismatch: boolean;
+  /** The app network matching the wallet's chain, null when unknown or not configured */
+  walletNetwork: SuiNetwork | null;
+  /** Chain identifiers reported by the wallet account (e.g. `sui:devnet`) */
+  walletChains: readonly string[];
+  /** Switch the app to the wallet's network, when it is configured */
+  switchToWalletNetwork: () => void;
+}
+
+/**
+ * Return type for the useNFTDetails hook
+ * Provides a single NFT loaded by object ID, owned by anyone
+ */
+export interface UseNFTDetailsReturn {
+  /** The NFT, null while loading or when the object is not a valid NFT */
+  nft: SimpleNFT | null;
+  /** The object's owner */
+  owner: ObjectOwner | null;
+  /** The object's current version */
+  version: string | null;
+  /** Digest of the transaction that last changed the object */
+  previousTransaction: string | null;
+  /** Whether the connected account owns the NFT */
+  isOwner: boolean;
+  /** Whether the object is being loaded */
+  isLoading: boolean;
+  /** Current error message, if any */
+  error: string | null;
+  /** Function to manually refetch the object */
+  refetch: () => void;
+}
+
+/**
+ * Return type for the useNFTHistory hook
+ * Provides the paginated transactions that changed an NFT
+ */
+export interface UseNFTHistoryReturn extends UseTransactionHistoryReturn {
+  /** Level-ups of the NFT among the loaded transactions, newest first */
+  levelUps: NFTLevelUpRecord[];
+}
+
+/**
+ * Return type for the useResolvedAddress hook
+ * Provides the address behind an address or SuiNS name from a URL
+ */
+export interface UseResolvedAddressReturn {
+  /** The normalized address, null while resolving or when it cannot be resolved */
+  address: string | null;
+  /** The SuiNS name of the address, if one is known */
+  name: string | null;
+  /** Whether a SuiNS name is being resolved */
+  isLoading: boolean;
+  /** Current error message, if any */
+  error: string | null;
+}
+
+/**
+ * Return type for the useGalleryFilters hook
+ * Provides the gallery's search, sort and level filter, synced with the URL
+ */
+export interface UseGalleryFiltersReturn {
+  /** The current filters */
+  filters: GalleryFilters;
+  /** Whether any search or level filter is applied */
+  isFiltered: boolean;
+  /** Update some of the filters */
+  setFilters: (update: Partial<GalleryFilters>) => void;
+  /** Clear the search and level filters and restore the default sort */
+  resetFilters: () => void;
+}
+
+/**
+ * Return type for the useImageUpload hook
+ * Provides uploads of NFT images to the app's storage backend
+ */
+export interface UseImageUploadReturn {
+  /** Validate and upload an image file, resolving to the stored image or null on failure */
+  upload: (file: File) => Promise<StoredImage | null>;
+  /** Whether an upload is in progress */
+  isUploading: boolean;
+  /** Current error message, if any */
+  error: string | null;
+  /** Clear the error */
+  reset: () => void;
+}
+
+/**
+ * Return type for the useBulkMint hook
+ * Provides batched minting of a manifest with per-NFT progress
+ */
+export interface UseBulkMintReturn {
+  /** Progress of every NFT in the current bulk mint */
+  items: BulkMintItem[];
+  /** Start minting the given NFTs, replacing any previous progress */
+  start: (rows: MintNFTData[]) => Promise<void>;
+  /** Mint the NFTs that are still pending or failed */
+  resume: () => Promise<void>;
+  /** Clear the progress */
+  reset: () => void;
+  /** Whether a bulk mint is in progress */
+  isRunning: boolean;
+}
+
+/**
+ * Return type for the useImageUrlValidation hook
+ * Provides server-side checks of the image URL entered in the mint form
+ */
+export interface UseImageUrlValidationReturn {
+  /** The validated image of the current URL, null while unchecked or invalid */
+  image: ValidatedImageUrl | null;
+  /** Whether the current URL is waiting to be checked or being checked */
+  isValidating: boolean;
+  /** Why the current URL is invalid, if it is */
+  error: string | null;
+  /** Check a URL now, resolving to the validated image and rejecting when it is invalid */
+  validate: (url: string) => Promise<ValidatedImageUrl>;
+}